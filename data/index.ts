@@ -1,4 +1,14 @@
-import { CoordinateType } from "../types";
+import {
+  CoordinateType,
+  Datum,
+  DatumDefinition,
+  DistanceUnit,
+  Ellipsoid,
+  HeightUnit,
+  Hemisphere,
+  ProjectionDefinition,
+  ProjectionMethod,
+} from "../types";
 
 export const DEG_MAX: Record<CoordinateType, number> = {
   [CoordinateType.LAT]: 90,
@@ -9,6 +19,21 @@ export const PRECISION_DEFAULTS = {
   DD_DECIMALS: 5,
   DM_DECIMALS: 5,
   DMS_DECIMALS: 5,
+  UTM_DECIMALS: 0,
+  GEOHASH_PRECISION: 9,
+  MAIDENHEAD_LENGTH: 6,
+  PLUS_CODE_LENGTH: 10,
+  OSGRID_DIGITS: 10,
+  BEARING_DECIMALS: 2,
+  HEIGHT_DECIMALS: 0,
+};
+
+// Patterns behind formatDD, formatDM and formatDMS at the default precision; see formatCoordinate
+export const FORMAT_PRESETS = {
+  DD: "D.ddddd° H",
+  DM: "D° M.mmmmm' H",
+  DMS: "D° M' S.sssss\" H",
+  BEARING: "DDD° MM' SS.ss\"",
 };
 
 export const CONVERSION_CONSTANTS = {
@@ -16,3 +41,239 @@ export const CONVERSION_CONSTANTS = {
   SECONDS_PER_MINUTE: 60,
   SECONDS_PER_DEGREE: 3600,
 };
+
+export const WGS84: Ellipsoid = {
+  a: 6378137,
+  f: 1 / 298.257223563,
+};
+
+// Semi-major axis in metres and flattening of reference ellipsoids
+export const ELLIPSOIDS: Record<string, Ellipsoid> = {
+  WGS84,
+  GRS80: { a: 6378137, f: 1 / 298.257222101 },
+  WGS72: { a: 6378135, f: 1 / 298.26 },
+  CLARKE_1866: { a: 6378206.4, f: 1 / 294.978698214 },
+  CLARKE_1880: { a: 6378249.145, f: 1 / 293.465 },
+  INTERNATIONAL_1924: { a: 6378388, f: 1 / 297 },
+  AIRY_1830: { a: 6377563.396, f: 1 / 299.3249646 },
+  AIRY_MODIFIED: { a: 6377340.189, f: 1 / 299.3249646 },
+  BESSEL_1841: { a: 6377397.155, f: 1 / 299.1528128 },
+  KRASSOVSKY_1940: { a: 6378245, f: 1 / 298.3 },
+};
+
+// Each datum's ellipsoid and its Helmert shift to WGS84 in the position-vector
+// convention (translations in metres, rotations in arcseconds, scale in ppm).
+// Shifts are the EPSG published values; NAD27, ED50 and Tokyo are regional
+// means good to a few metres. NAD83, ETRS89 and GDA94 are taken as equal to
+// WGS84, which holds to about a metre.
+const NO_SHIFT = { tx: 0, ty: 0, tz: 0, rx: 0, ry: 0, rz: 0, s: 0 };
+
+export const DATUMS: Record<Datum, DatumDefinition> = {
+  [Datum.WGS84]: { ellipsoid: WGS84, toWGS84: NO_SHIFT },
+  [Datum.WGS72]: {
+    ellipsoid: ELLIPSOIDS.WGS72,
+    toWGS84: { tx: 0, ty: 0, tz: 4.5, rx: 0, ry: 0, rz: 0.554, s: 0.2263 },
+  },
+  [Datum.NAD83]: { ellipsoid: ELLIPSOIDS.GRS80, toWGS84: NO_SHIFT },
+  [Datum.ETRS89]: { ellipsoid: ELLIPSOIDS.GRS80, toWGS84: NO_SHIFT },
+  [Datum.GDA94]: { ellipsoid: ELLIPSOIDS.GRS80, toWGS84: NO_SHIFT },
+  [Datum.NAD27]: {
+    ellipsoid: ELLIPSOIDS.CLARKE_1866,
+    toWGS84: { tx: -8, ty: 160, tz: 176, rx: 0, ry: 0, rz: 0, s: 0 },
+  },
+  [Datum.ED50]: {
+    ellipsoid: ELLIPSOIDS.INTERNATIONAL_1924,
+    toWGS84: { tx: -87, ty: -98, tz: -121, rx: 0, ry: 0, rz: 0, s: 0 },
+  },
+  [Datum.OSGB36]: {
+    ellipsoid: ELLIPSOIDS.AIRY_1830,
+    toWGS84: {
+      tx: 446.448,
+      ty: -125.157,
+      tz: 542.06,
+      rx: 0.1502,
+      ry: 0.247,
+      rz: 0.8421,
+      s: -20.4894,
+    },
+  },
+  [Datum.IRELAND_1965]: {
+    ellipsoid: ELLIPSOIDS.AIRY_MODIFIED,
+    toWGS84: {
+      tx: 482.53,
+      ty: -130.596,
+      tz: 564.557,
+      rx: -1.042,
+      ry: -0.214,
+      rz: -0.631,
+      s: 8.15,
+    },
+  },
+  [Datum.TOKYO]: {
+    ellipsoid: ELLIPSOIDS.BESSEL_1841,
+    toWGS84: { tx: -146.414, ty: 507.337, tz: 680.507, rx: 0, ry: 0, rz: 0, s: 0 },
+  },
+};
+
+export const GEODESIC_CONSTANTS = {
+  // IUGG mean radius (2a + b) / 3 of WGS84, used by the spherical formulas
+  MEAN_EARTH_RADIUS: 6371008.8,
+  // Upper bound on the points densify will build
+  MAX_DENSIFY_POINTS: 10000,
+};
+
+// Metres in one of each distance unit
+export const DISTANCE_UNIT_METERS: Record<DistanceUnit, number> = {
+  [DistanceUnit.METERS]: 1,
+  [DistanceUnit.KILOMETERS]: 1000,
+  [DistanceUnit.NAUTICAL_MILES]: 1852,
+  [DistanceUnit.STATUTE_MILES]: 1609.344,
+};
+
+// Metres in one of each height unit (international foot)
+export const HEIGHT_UNIT_METERS: Record<HeightUnit, number> = {
+  [HeightUnit.METERS]: 1,
+  [HeightUnit.FEET]: 0.3048,
+};
+
+export const UTM_CONSTANTS = {
+  SCALE_FACTOR: 0.9996,
+  FALSE_EASTING: 500000,
+  FALSE_NORTHING_SOUTH: 10000000,
+  ZONE_WIDTH: 6,
+  ZONE_COUNT: 60,
+  MIN_LAT: -80,
+  MAX_LAT: 84,
+  // Latitude bands C..X (I and O omitted), 8° each; X is stretched to 84°N
+  BANDS: "CDEFGHJKLMNPQRSTUVWXX",
+};
+
+export const MGRS_CONSTANTS = {
+  SQUARE_SIZE: 100000,
+  // 100 km column letters repeat every three zones, row letters every two
+  COLUMN_LETTERS: ["ABCDEFGH", "JKLMNPQR", "STUVWXYZ"],
+  ROW_LETTERS: ["ABCDEFGHJKLMNPQRSTUV", "FGHJKLMNPQRSTUVABCDE"],
+  ROW_CYCLE: 2000000,
+  PRECISIONS: [1, 10, 100, 1000, 10000, 100000],
+};
+
+export const UPS_CONSTANTS = {
+  SCALE_FACTOR: 0.994,
+  FALSE_EASTING: 2000000,
+  FALSE_NORTHING: 2000000,
+  // UPS overlaps UTM by half a degree at each boundary
+  NORTH_MIN_LAT: 83.5,
+  SOUTH_MAX_LAT: -79.5,
+};
+
+// Predefined projections. Web Mercator (EPSG:3857) projects WGS84 positions
+// onto a sphere with the WGS84 semi-major axis, as web map tiles do; it is
+// cut off at the latitude where the map becomes square.
+export const PROJECTIONS: Record<string, ProjectionDefinition> = {
+  WEB_MERCATOR: {
+    method: ProjectionMethod.WEB_MERCATOR,
+    ellipsoid: WGS84,
+    datum: Datum.WGS84,
+    originLat: 0,
+    originLon: 0,
+    falseEasting: 0,
+    falseNorthing: 0,
+  },
+};
+
+export const WEB_MERCATOR_CONSTANTS = {
+  MAX_LAT: 85.0511287798066,
+};
+
+// Ordnance Survey National Grid: transverse Mercator on the Airy 1830
+// ellipsoid (OSGB36), true origin 49°N 2°W
+export const OSGB_CONSTANTS = {
+  SCALE_FACTOR: 0.9996012717,
+  ORIGIN_LAT: 49,
+  ORIGIN_LON: -2,
+  FALSE_EASTING: 400000,
+  FALSE_NORTHING: -100000,
+  // 100 km squares, lettered from a 5 × 5 grid of 500 km squares (I omitted)
+  SQUARE_SIZE: 100000,
+  LETTERS: "ABCDEFGHJKLMNOPQRSTUVWXYZ",
+  MAX_EASTING: 700000,
+  MAX_NORTHING: 1300000,
+  MAX_DIGITS: 10,
+};
+
+export const GEOHASH_CONSTANTS = {
+  BASE32: "0123456789bcdefghjkmnpqrstuvwxyz",
+  MAX_PRECISION: 12,
+  // Upper bound on cells returned by a bounding-box cover
+  MAX_COVER_CELLS: 10000,
+};
+
+export const MAIDENHEAD_CONSTANTS = {
+  // Per character pair: field (A–R), square (0–9), subsquare (a–x),
+  // extended square (0–9), extended subsquare (a–x)
+  LON_UNITS: [20, 2, 1 / 12, 1 / 120, 1 / 2880],
+  LAT_UNITS: [10, 1, 1 / 24, 1 / 240, 1 / 5760],
+  BASES: [18, 10, 24, 10, 24],
+  LENGTHS: [2, 4, 6, 8, 10],
+};
+
+export const PLUS_CODE_CONSTANTS = {
+  ALPHABET: "23456789CFGHJMPQRVWX",
+  SEPARATOR: "+",
+  SEPARATOR_POSITION: 8,
+  PADDING: "0",
+  ENCODING_BASE: 20,
+  PAIR_CODE_LENGTH: 10,
+  MAX_CODE_LENGTH: 15,
+  // Pair section: 1/8000° resolution after five pairs
+  PAIR_PRECISION: 8000,
+  PAIR_FIRST_PLACE_VALUE: 160000,
+  PAIR_RESOLUTIONS: [20, 1, 0.05, 0.0025, 0.000125],
+  // Grid section beyond ten digits: 5 rows × 4 columns per digit
+  GRID_ROWS: 5,
+  GRID_COLUMNS: 4,
+  GRID_CODE_LENGTH: 5,
+  FINAL_LAT_PRECISION: 8000 * 5 ** 5,
+  FINAL_LON_PRECISION: 8000 * 4 ** 5,
+};
+
+// Hemisphere letters used when formatting, and the words (letters included)
+// accepted when parsing, by language subtag. English words are always accepted.
+export const HEMISPHERE_LOCALES: Record<
+  string,
+  { letters: Record<Hemisphere, string>; words: Record<Hemisphere, string[]> }
+> = {
+  en: {
+    letters: { N: "N", S: "S", E: "E", W: "W" },
+    words: {
+      N: ["N", "North"],
+      S: ["S", "South"],
+      E: ["E", "East"],
+      W: ["W", "West"],
+    },
+  },
+  fr: {
+    letters: { N: "N", S: "S", E: "E", W: "O" },
+    words: { N: ["Nord"], S: ["Sud"], E: ["Est"], W: ["O", "Ouest"] },
+  },
+  es: {
+    letters: { N: "N", S: "S", E: "E", W: "O" },
+    words: { N: ["Norte"], S: ["Sur"], E: ["Este"], W: ["O", "Oeste"] },
+  },
+  it: {
+    letters: { N: "N", S: "S", E: "E", W: "O" },
+    words: { N: ["Nord"], S: ["Sud"], E: ["Est"], W: ["O", "Ovest"] },
+  },
+  pt: {
+    letters: { N: "N", S: "S", E: "L", W: "O" },
+    words: { N: ["Norte"], S: ["Sul"], E: ["L", "Leste"], W: ["O", "Oeste"] },
+  },
+  de: {
+    letters: { N: "N", S: "S", E: "O", W: "W" },
+    words: { N: ["Nord"], S: ["Süd"], E: ["O", "Ost"], W: ["West"] },
+  },
+  nl: {
+    letters: { N: "N", S: "Z", E: "O", W: "W" },
+    words: { N: ["Noord"], S: ["Z", "Zuid"], E: ["O", "Oost"], W: ["West"] },
+  },
+};
@@ -0,0 +1,135 @@
+import { commonDatum, toDegrees, toRadians } from "./helpers";
+import { toPair, validatePoint } from "./distance";
+import { geocentricToGeodetic, geodeticToGeocentric } from "./ecef";
+import { UnsupportedInputError } from "./errors";
+import { DD, Datum, DatumTransformMethod, Height, HelmertParameters } from "../types";
+import { DATUMS } from "../data";
+
+// Datum shifts. Each datum in DATUMS carries a Helmert shift to WGS84, so a
+// Helmert transformation goes through WGS84: into geocentric coordinates on
+// the source ellipsoid, shifted to WGS84, shifted on to the target, and back
+// to latitude and longitude on the target ellipsoid. The Molodensky method
+// works on latitude and longitude directly and uses only the translations.
+
+type Vector = [number, number, number];
+
+const ARCSECONDS_TO_RADIANS = Math.PI / (180 * 3600);
+
+/**
+ * Transforms a coordinate pair from one geodetic datum to another.
+ *
+ * The same latitude and longitude name different places on different
+ * datums: an OSGB36 position read as WGS84 is out by about 100 m, and NAD27
+ * by up to a few hundred. This function moves a pair onto the target datum
+ * and tags both coordinates with it. Heights are taken as zero on the source
+ * ellipsoid and are not returned.
+ *
+ * The default 7-parameter Helmert method is as accurate as the published
+ * shifts in DATUMS, to a few metres or better. The Molodensky method skips
+ * the round trip through geocentric coordinates and ignores rotation and
+ * scale, so for datums with rotations such as OSGB36 it can be off by ten
+ * metres or more.
+ *
+ * @param pair - The [latitude, longitude] DD pair to transform
+ * @param from - The datum the pair is on
+ * @param to - The datum to transform to
+ * @param opts - Optional settings
+ * @param opts.method - The transformation to use (default: DatumTransformMethod.HELMERT)
+ * @returns The pair on the target datum, with `datum` set on both coordinates
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the pair is tagged with a datum other than `from`
+ *
+ * @example
+ * ```typescript
+ * // Greenwich, as read from an OSGB36 map
+ * transformDatum(parsePairToDD(51.4778, 0.0016), Datum.OSGB36, Datum.WGS84);
+ * // [{ kind: "lat", degrees: 51.47832, datum: "WGS84" }, { kind: "lon", degrees: -0.00002, datum: "WGS84" }]
+ *
+ * transformDatum(parsePairToDD(40, -100), Datum.NAD27, Datum.WGS84, {
+ *   method: DatumTransformMethod.MOLODENSKY,
+ * });
+ * ```
+ */
+function transformDatum(
+  pair: [DD, DD, Height?],
+  from: Datum,
+  to: Datum,
+  opts?: { method?: DatumTransformMethod }
+): [DD, DD] {
+  const tagged = commonDatum(pair);
+  if (tagged !== undefined && tagged !== from)
+    throw new UnsupportedInputError(`Coordinates are on ${tagged}, not ${from}`, {
+      value: tagged,
+    });
+  const [lat, lon] = validatePoint(pair);
+  if (from === to) return toPair(lat, lon, to);
+
+  if (opts?.method === DatumTransformMethod.MOLODENSKY)
+    return toPair(...molodensky(lat, lon, from, to), to);
+
+  const source = DATUMS[from];
+  const target = DATUMS[to];
+  const wgs84 = helmert(geodeticToGeocentric(lat, lon, 0, source.ellipsoid), source.toWGS84);
+  const shifted = helmert(wgs84, invert(target.toWGS84));
+  const [lat2, lon2] = geocentricToGeodetic(shifted, target.ellipsoid);
+  return toPair(lat2, lon2, to);
+}
+
+// Position-vector Helmert transformation, linearised for small rotations
+function helmert([x, y, z]: Vector, t: HelmertParameters): Vector {
+  const rx = t.rx * ARCSECONDS_TO_RADIANS;
+  const ry = t.ry * ARCSECONDS_TO_RADIANS;
+  const rz = t.rz * ARCSECONDS_TO_RADIANS;
+  const m = 1 + t.s * 1e-6;
+  return [
+    t.tx + m * x - rz * y + ry * z,
+    t.ty + rz * x + m * y - rx * z,
+    t.tz - ry * x + rx * y + m * z,
+  ];
+}
+
+// The reverse shift, to first order in the (small) parameters
+function invert(t: HelmertParameters): HelmertParameters {
+  return { tx: -t.tx, ty: -t.ty, tz: -t.tz, rx: -t.rx, ry: -t.ry, rz: -t.rz, s: -t.s };
+}
+
+// Standard Molodensky shift for a point at zero height on the source ellipsoid
+function molodensky(lat: number, lon: number, from: Datum, to: Datum): [number, number] {
+  const source = DATUMS[from];
+  const target = DATUMS[to];
+  const { a, f } = source.ellipsoid;
+  const dx = source.toWGS84.tx - target.toWGS84.tx;
+  const dy = source.toWGS84.ty - target.toWGS84.ty;
+  const dz = source.toWGS84.tz - target.toWGS84.tz;
+  const da = target.ellipsoid.a - a;
+  const df = target.ellipsoid.f - f;
+
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const sinLambda = Math.sin(lambda);
+  const cosLambda = Math.cos(lambda);
+  const e2 = f * (2 - f);
+  const b = a * (1 - f);
+  const w = Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  const rn = a / w;
+  const rm = (a * (1 - e2)) / w ** 3;
+
+  const dPhi =
+    (-dx * sinPhi * cosLambda -
+      dy * sinPhi * sinLambda +
+      dz * cosPhi +
+      (da * rn * e2 * sinPhi * cosPhi) / a +
+      df * (rm * (a / b) + rn * (b / a)) * sinPhi * cosPhi) /
+    rm;
+  // Longitude is undefined at the poles, so leave it alone there
+  const dLambda =
+    Math.abs(lat) === 90 ? 0 : (-dx * sinLambda + dy * cosLambda) / (rn * cosPhi);
+  const lat2 = Math.max(-90, Math.min(90, toDegrees(phi + dPhi)));
+  return [lat2, toDegrees(lambda + dLambda)];
+}
+
+export { transformDatum };
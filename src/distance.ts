@@ -0,0 +1,488 @@
+import {
+  commonDatum,
+  ensureFinite,
+  normalizeLongitude,
+  toDegrees,
+  toRadians,
+  validateRange,
+} from "./helpers";
+import {
+  karneyInverse,
+  vincentyInverse,
+  karneyDirect,
+  vincentyDirect,
+  InverseResult,
+  DirectResult,
+} from "./geodesic";
+import { splitSexagesimal, toDecimal } from "./fixedPoint";
+import { InvalidNumberError, OutOfRangeError } from "./errors";
+import {
+  CoordinateType,
+  DD,
+  DMS,
+  Datum,
+  DistanceMethod,
+  DistanceUnit,
+  Height,
+  RoundingMode,
+} from "../types";
+import {
+  DISTANCE_UNIT_METERS,
+  GEODESIC_CONSTANTS,
+  PRECISION_DEFAULTS,
+  WGS84,
+} from "../data";
+
+/**
+ * Returns the distance between two points.
+ *
+ * The default Karney method measures the shortest path on the WGS84
+ * ellipsoid to a few nanometres and works for every pair of points.
+ * Vincenty's method gives the same answer where it converges and falls back
+ * to Karney for nearly antipodal points, where it does not. Haversine treats
+ * the Earth as a sphere of mean radius: faster, but up to about 0.5% off.
+ *
+ * @param a - The first point as a [latitude, longitude] DD pair
+ * @param b - The second point as a [latitude, longitude] DD pair
+ * @param opts - Optional settings
+ * @param opts.method - The formula to use (default: DistanceMethod.KARNEY)
+ * @param opts.unit - The unit of the result (default: DistanceUnit.METERS)
+ * @returns The distance in the requested unit
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums
+ *
+ * @example
+ * ```typescript
+ * const jfk: [DD, DD] = [
+ *   { kind: CoordinateType.LAT, degrees: 40.6 },
+ *   { kind: CoordinateType.LON, degrees: -73.8 },
+ * ];
+ * const cdg: [DD, DD] = [
+ *   { kind: CoordinateType.LAT, degrees: 49.01666667 },
+ *   { kind: CoordinateType.LON, degrees: 2.55 },
+ * ];
+ * distance(jfk, cdg);                                       // 5853226.26
+ * distance(jfk, cdg, { unit: DistanceUnit.NAUTICAL_MILES });  // 3160.49
+ * distance(jfk, cdg, { method: DistanceMethod.HAVERSINE });   // 5837565.11
+ * ```
+ */
+function distance(
+  a: [DD, DD, Height?],
+  b: [DD, DD, Height?],
+  opts?: { method?: DistanceMethod; unit?: DistanceUnit }
+): number {
+  const meters = solveInverse(a, b, opts?.method).distance;
+  return meters / DISTANCE_UNIT_METERS[opts?.unit ?? DistanceUnit.METERS];
+}
+
+/**
+ * Returns the bearing to set off on from the first point to reach the second.
+ *
+ * Bearings are in degrees clockwise from true north, in [0, 360). On the
+ * shortest path the bearing changes along the way, so this differs from
+ * {@link finalBearing} except along a meridian or the equator. Coincident
+ * points give 0. Use {@link formatBearing} to show the result as DMS.
+ *
+ * @param a - The starting point as a [latitude, longitude] DD pair
+ * @param b - The destination as a [latitude, longitude] DD pair
+ * @param opts - Optional settings
+ * @param opts.method - The formula to use; see {@link distance} (default: DistanceMethod.KARNEY)
+ * @returns The initial bearing in degrees
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums
+ *
+ * @example
+ * ```typescript
+ * initialBearing(jfk, cdg);                 // 53.47022
+ * formatBearing(initialBearing(jfk, cdg));  // "053° 28' 12.79\""
+ * ```
+ */
+function initialBearing(
+  a: [DD, DD, Height?],
+  b: [DD, DD, Height?],
+  opts?: { method?: DistanceMethod }
+): number {
+  const result = solveInverse(a, b, opts?.method);
+  return result.distance === 0 ? 0 : normalizeBearing(result.azimuth1);
+}
+
+/**
+ * Returns the bearing on arrival at the second point when travelling from the first.
+ *
+ * This is the direction of travel at `b`, not the bearing back to `a`,
+ * which is this value ± 180°.
+ *
+ * @param a - The starting point as a [latitude, longitude] DD pair
+ * @param b - The destination as a [latitude, longitude] DD pair
+ * @param opts - Optional settings
+ * @param opts.method - The formula to use; see {@link distance} (default: DistanceMethod.KARNEY)
+ * @returns The final bearing in degrees, in [0, 360)
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums
+ *
+ * @example
+ * ```typescript
+ * finalBearing(jfk, cdg);  // 111.59367
+ * ```
+ */
+function finalBearing(
+  a: [DD, DD, Height?],
+  b: [DD, DD, Height?],
+  opts?: { method?: DistanceMethod }
+): number {
+  const result = solveInverse(a, b, opts?.method);
+  return result.distance === 0 ? 0 : normalizeBearing(result.azimuth2);
+}
+
+/**
+ * Returns the point reached by travelling a distance from a start point on an initial bearing.
+ *
+ * The path is the geodesic (with the default Karney or Vincenty method) or
+ * the great circle (with haversine), so the bearing changes along the way.
+ * A negative distance travels backwards. The longitude of the result is
+ * normalised to [-180, 180), so paths may cross the antimeridian.
+ *
+ * @param start - The start point as a [latitude, longitude] DD pair
+ * @param bearing - The initial bearing in degrees clockwise from true north
+ * @param dist - The distance to travel
+ * @param opts - Optional settings
+ * @param opts.method - The formula to use; see {@link distance} (default: DistanceMethod.KARNEY)
+ * @param opts.unit - The unit of `dist` (default: DistanceUnit.METERS)
+ * @returns The destination as a [latitude, longitude] DD pair
+ *
+ * @throws {InvalidNumberError} When a coordinate, the bearing or the distance is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ *
+ * @example
+ * ```typescript
+ * destination(jfk, 53.47022, 5853.226, { unit: DistanceUnit.KILOMETERS });
+ * // [{ kind: "lat", degrees: 49.01667 }, { kind: "lon", degrees: 2.55 }]
+ * destination(parsePairToDD(0, 179), 90, 222639);
+ * // [{ kind: "lat", degrees: 0 }, { kind: "lon", degrees: -178.9999998 }]
+ * ```
+ */
+function destination(
+  start: [DD, DD, Height?],
+  bearing: number,
+  dist: number,
+  opts?: { method?: DistanceMethod; unit?: DistanceUnit }
+): [DD, DD] {
+  const [lat, lon] = validatePoint(start);
+  ensureFinite(bearing, "bearing");
+  ensureFinite(dist, "distance");
+  const meters = dist * DISTANCE_UNIT_METERS[opts?.unit ?? DistanceUnit.METERS];
+  const result = solveDirect(lat, lon, bearing, meters, opts?.method);
+  return toPair(result.lat, result.lon, commonDatum(start));
+}
+
+/**
+ * Returns the point halfway between two points along the shortest path.
+ *
+ * @param a - The first point as a [latitude, longitude] DD pair
+ * @param b - The second point as a [latitude, longitude] DD pair
+ * @param opts - Optional settings
+ * @param opts.method - The formula to use; see {@link distance} (default: DistanceMethod.KARNEY)
+ * @returns The midpoint as a [latitude, longitude] DD pair
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums
+ *
+ * @example
+ * ```typescript
+ * midpoint(parsePairToDD(0, 170), parsePairToDD(0, -170));
+ * // [{ kind: "lat", degrees: 0 }, { kind: "lon", degrees: -180 }]
+ * ```
+ */
+function midpoint(
+  a: [DD, DD, Height?],
+  b: [DD, DD, Height?],
+  opts?: { method?: DistanceMethod }
+): [DD, DD] {
+  return interpolate(a, b, 0.5, opts);
+}
+
+/**
+ * Returns the point a given fraction of the way from one point to another along the shortest path.
+ *
+ * Points are evenly spaced by distance: a fraction of 0.25 is a quarter of
+ * the distance from `a`. Fractions outside [0, 1] extend the path beyond
+ * either end.
+ *
+ * @param a - The first point as a [latitude, longitude] DD pair
+ * @param b - The second point as a [latitude, longitude] DD pair
+ * @param fraction - How far along the path, where 0 is `a` and 1 is `b`
+ * @param opts - Optional settings
+ * @param opts.method - The formula to use; see {@link distance} (default: DistanceMethod.KARNEY)
+ * @returns The interpolated point as a [latitude, longitude] DD pair
+ *
+ * @throws {InvalidNumberError} When a coordinate or the fraction is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums
+ *
+ * @example
+ * ```typescript
+ * interpolate(parsePairToDD(0, 0), parsePairToDD(0, 10), 0.25);
+ * // [{ kind: "lat", degrees: 0 }, { kind: "lon", degrees: 2.5 }]
+ * ```
+ */
+function interpolate(
+  a: [DD, DD, Height?],
+  b: [DD, DD, Height?],
+  fraction: number,
+  opts?: { method?: DistanceMethod }
+): [DD, DD] {
+  ensureFinite(fraction, "fraction");
+  return densifyBy(a, b, [fraction], opts?.method)[0];
+}
+
+/**
+ * Returns evenly spaced points along the shortest path between two points, including both ends.
+ *
+ * Useful for drawing a flight path as a polyline: straight segments between
+ * the points follow the curve of the path. Longitudes are normalised to
+ * [-180, 180), so a path across the antimeridian jumps from about 180 to
+ * about -180.
+ *
+ * @param a - The first point as a [latitude, longitude] DD pair
+ * @param b - The second point as a [latitude, longitude] DD pair
+ * @param count - The number of points to return, from 2 to GEODESIC_CONSTANTS.MAX_DENSIFY_POINTS
+ * @param opts - Optional settings
+ * @param opts.method - The formula to use; see {@link distance} (default: DistanceMethod.KARNEY)
+ * @returns The points as [latitude, longitude] DD pairs, starting at `a` and ending at `b`
+ *
+ * @throws {InvalidNumberError} When `count` is not an integer, or a coordinate is not a finite number
+ * @throws {OutOfRangeError} When `count` is below 2 or above GEODESIC_CONSTANTS.MAX_DENSIFY_POINTS, or a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums
+ *
+ * @example
+ * ```typescript
+ * densify(parsePairToDD(60, 170), parsePairToDD(60, -170), 5).map(([lat, lon]) => [lat.degrees, lon.degrees]);
+ * // [[60, 170], [60.28378, 174.97111], [60.37898, -180], [60.28378, -174.97111], [60, -170]]
+ * ```
+ */
+function densify(
+  a: [DD, DD, Height?],
+  b: [DD, DD, Height?],
+  count: number,
+  opts?: { method?: DistanceMethod }
+): [DD, DD][] {
+  const max = GEODESIC_CONSTANTS.MAX_DENSIFY_POINTS;
+  if (!Number.isInteger(count))
+    throw new InvalidNumberError(`Point count must be an integer of at least 2 (got ${count})`, {
+      value: count,
+    });
+  if (count < 2 || count > max)
+    throw new OutOfRangeError(`Point count must be at least 2 and at most ${max} (got ${count})`, {
+      value: count,
+    });
+  const fractions = Array.from({ length: count - 2 }, (_, i) => (i + 1) / (count - 1));
+  const datum = commonDatum(a, b);
+  return [
+    toPair(...validatePoint(a), datum),
+    ...densifyBy(a, b, fractions, opts?.method),
+    toPair(...validatePoint(b), datum),
+  ];
+}
+
+// Points at fractions of the distance from a to b, from one inverse solution
+function densifyBy(
+  a: [DD, DD, Height?],
+  b: [DD, DD, Height?],
+  fractions: number[],
+  method?: DistanceMethod
+): [DD, DD][] {
+  const [lat, lon] = validatePoint(a);
+  const { distance: meters, azimuth1 } = solveInverse(a, b, method);
+  const datum = commonDatum(a, b);
+  return fractions.map((fraction) => {
+    const result = solveDirect(lat, lon, azimuth1, fraction * meters, method);
+    return toPair(result.lat, result.lon, datum);
+  });
+}
+
+/**
+ * Converts a bearing to a Degrees-Minutes-Seconds (DMS) object.
+ *
+ * The bearing is reduced to [0, 360) and split like {@link ddToDMS}, with a
+ * value that rounds up to 360° given as 0°. The result has kind LON only so
+ * it fits the DMS type; it is not a longitude. Pass `{ hemisphere: false }`
+ * to formatDMS, which otherwise appends an E/W letter (`"270° 0' 0\" E"`),
+ * or use {@link formatBearing} for the zero-padded compass form. dmsToDD
+ * rejects bearings over 180°.
+ *
+ * @param bearing - The bearing in degrees clockwise from north
+ * @param opts - Optional conversion options
+ * @param opts.decimals - Number of decimal places for seconds (default: PRECISION_DEFAULTS.DMS_DECIMALS)
+ * @param opts.rounding - How to round the last decimal place of seconds (default: RoundingMode.HALF_UP)
+ * @returns A DMS object of kind CoordinateType.LON, to be formatted with `{ hemisphere: false }`
+ *
+ * @throws {InvalidNumberError} When the bearing is not a finite number
+ *
+ * @example
+ * ```typescript
+ * bearingToDMS(77.76838);
+ * // { kind: "lon", degrees: 77, minutes: 46, seconds: 6.168 }
+ * bearingToDMS(-0.5, { decimals: 0 });
+ * // { kind: "lon", degrees: 359, minutes: 30, seconds: 0 }
+ * formatDMS(bearingToDMS(250.5), 0, { hemisphere: false });
+ * // "250° 30' 0\""
+ * ```
+ */
+function bearingToDMS(
+  bearing: number,
+  opts?: { decimals?: number; rounding?: RoundingMode }
+): DMS {
+  ensureFinite(bearing, "bearing");
+  const [degrees, minutes, seconds] = splitSexagesimal(
+    toDecimal(normalizeBearing(bearing)),
+    2,
+    opts?.decimals ?? PRECISION_DEFAULTS.DMS_DECIMALS,
+    opts?.rounding ?? RoundingMode.HALF_UP
+  );
+  return { kind: CoordinateType.LON, degrees: degrees % 360, minutes, seconds };
+}
+
+// Validates both points and dispatches to the chosen formula; distances in metres
+function solveInverse(
+  a: [DD, DD, Height?],
+  b: [DD, DD, Height?],
+  method = DistanceMethod.KARNEY
+): InverseResult {
+  commonDatum(a, b);
+  const [lat1, lon1] = validatePoint(a);
+  const [lat2, lon2] = validatePoint(b);
+  switch (method) {
+    case DistanceMethod.HAVERSINE:
+      return haversineInverse(lat1, lon1, lat2, lon2);
+    case DistanceMethod.VINCENTY:
+      return (
+        vincentyInverse(lat1, lon1, lat2, lon2, WGS84) ??
+        karneyInverse(lat1, lon1, lat2, lon2, WGS84)
+      );
+    default:
+      return karneyInverse(lat1, lon1, lat2, lon2, WGS84);
+  }
+}
+
+function solveDirect(
+  lat: number,
+  lon: number,
+  azimuth: number,
+  meters: number,
+  method = DistanceMethod.KARNEY
+): DirectResult {
+  switch (method) {
+    case DistanceMethod.HAVERSINE:
+      return sphericalDirect(lat, lon, azimuth, meters);
+    case DistanceMethod.VINCENTY:
+      return vincentyDirect(lat, lon, azimuth, meters, WGS84);
+    default:
+      return karneyDirect(lat, lon, azimuth, meters, WGS84);
+  }
+}
+
+function validatePoint(point: [DD, DD, Height?]): [number, number] {
+  const lat = ensureFinite(point[0].degrees, "latitude", { kind: CoordinateType.LAT });
+  const lon = ensureFinite(point[1].degrees, "longitude", { kind: CoordinateType.LON });
+  validateRange(CoordinateType.LAT, lat);
+  validateRange(CoordinateType.LON, lon);
+  return [lat, lon];
+}
+
+// Great-circle distance and azimuths on a sphere of mean radius
+function haversineInverse(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): InverseResult {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLambda = toRadians(lon2 - lon1);
+  const h =
+    Math.sin((phi2 - phi1) / 2) ** 2 +
+    Math.cos(phi1) * Math.cos(phi2) * Math.sin(dLambda / 2) ** 2;
+  const sigma = 2 * Math.asin(Math.min(1, Math.sqrt(h)));
+
+  const sinDLambda = Math.sin(dLambda);
+  const cosDLambda = Math.cos(dLambda);
+  return {
+    distance: GEODESIC_CONSTANTS.MEAN_EARTH_RADIUS * sigma,
+    azimuth1: toDegrees(
+      Math.atan2(
+        sinDLambda * Math.cos(phi2),
+        Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * cosDLambda
+      )
+    ),
+    azimuth2: toDegrees(
+      Math.atan2(
+        sinDLambda * Math.cos(phi1),
+        Math.cos(phi1) * Math.sin(phi2) * cosDLambda - Math.sin(phi1) * Math.cos(phi2)
+      )
+    ),
+  };
+}
+
+// Point along a great circle on a sphere of mean radius
+function sphericalDirect(
+  lat: number,
+  lon: number,
+  azimuth: number,
+  meters: number
+): DirectResult {
+  const phi1 = toRadians(lat);
+  const theta = toRadians(azimuth);
+  const delta = meters / GEODESIC_CONSTANTS.MEAN_EARTH_RADIUS;
+  const sinPhi2 =
+    Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta);
+  const phi2 = Math.asin(Math.max(-1, Math.min(1, sinPhi2)));
+  const dLambda = Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+    Math.cos(delta) - Math.sin(phi1) * sinPhi2
+  );
+  return {
+    lat: toDegrees(phi2),
+    lon: lon + toDegrees(dLambda),
+    azimuth: toDegrees(
+      Math.atan2(
+        Math.sin(theta) * Math.cos(phi1),
+        Math.cos(delta) * Math.cos(phi1) * Math.cos(theta) - Math.sin(phi1) * Math.sin(delta)
+      )
+    ),
+  };
+}
+
+// Builds a result pair, carrying the datum of the inputs when they name one
+function toPair(lat: number, lon: number, datum?: Datum): [DD, DD] {
+  const tag = datum === undefined ? {} : { datum };
+  return [
+    { kind: CoordinateType.LAT, degrees: lat === 0 ? 0 : lat, ...tag },
+    { kind: CoordinateType.LON, degrees: normalizeLongitude(lon), ...tag },
+  ];
+}
+
+// Maps an azimuth in (-180, 180] to [0, 360), without -0
+function normalizeBearing(azimuth: number): number {
+  return ((azimuth % 360) + 360) % 360 || 0;
+}
+
+export {
+  distance,
+  initialBearing,
+  finalBearing,
+  destination,
+  midpoint,
+  interpolate,
+  densify,
+  bearingToDMS,
+  validatePoint,
+  toPair,
+  normalizeBearing,
+};
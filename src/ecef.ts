@@ -0,0 +1,339 @@
+import { commonDatum, ensureFinite, toDegrees, toRadians } from "./helpers";
+import { toPair, validatePoint } from "./distance";
+import { convertHeight } from "./height";
+import { UnsupportedInputError } from "./errors";
+import {
+  DD,
+  Datum,
+  ECEF,
+  ENU,
+  NED,
+  Ellipsoid,
+  GeodeticPoint,
+  Height,
+  HeightReference,
+  HeightUnit,
+} from "../types";
+import { DATUMS, WGS84 } from "../data";
+
+// Earth-centred, Earth-fixed (ECEF) coordinates have their origin at the
+// centre of the ellipsoid, z towards the north pole and x towards 0°N 0°E.
+// Local East-North-Up (ENU) and North-East-Down (NED) frames are ECEF offsets
+// rotated to the horizon of a reference point. Heights are ellipsoidal, in
+// metres; a pair's own height is used when no number is given, and must not
+// be MSL or AGL. The ellipsoid is that of the coordinates' datum, WGS84 by
+// default.
+
+type Vector = [number, number, number];
+
+// Bowring's iteration converges to full precision in two or three steps
+const BOWRING_MAX_ITERATIONS = 5;
+
+/**
+ * Converts a coordinate pair and height to Earth-centred, Earth-fixed (ECEF) coordinates.
+ *
+ * @param pair - The position as a [latitude, longitude] DD pair, optionally with its height
+ * @param height - The height above the ellipsoid in metres (default: the pair's height, or 0)
+ * @returns The ECEF coordinates in metres
+ *
+ * @throws {InvalidNumberError} When a coordinate or the height is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the pair's height is measured from mean sea level or the ground
+ *
+ * @example
+ * ```typescript
+ * ddToECEF(parsePairToDD(0, 0));  // { x: 6378137, y: 0, z: 0 }
+ * ddToECEF(parsePairToDD(48.8584, 2.2945), 330);
+ * // { x: 4201152.76, y: 168331.79, z: 4780461.56 }
+ * ddToECEF(parsePairString("48.8584, 2.2945, 330 m HAE"));  // the same
+ * ```
+ */
+function ddToECEF(pair: [DD, DD, Height?], height?: number): ECEF {
+  const [x, y, z] = toVector(pair, height, ellipsoidOf(commonDatum(pair)));
+  return { x, y, z };
+}
+
+/**
+ * Converts Earth-centred, Earth-fixed (ECEF) coordinates to a coordinate pair and height.
+ *
+ * Accurate to well under a millimetre anywhere from the deep interior of the
+ * Earth out to satellite orbits.
+ *
+ * @param ecef - The ECEF coordinates in metres
+ * @param opts - Optional settings
+ * @param opts.datum - The datum whose ellipsoid to use, recorded on the result (default: WGS84, unrecorded)
+ * @returns A GeodeticPoint with the [latitude, longitude] `point` and the ellipsoidal `height` in metres
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ *
+ * @example
+ * ```typescript
+ * ecefToDD({ x: 4201152.76, y: 168331.79, z: 4780461.56 });
+ * // { point: [{ kind: "lat", degrees: 48.8584 }, { kind: "lon", degrees: 2.2945 }], height: 330 }
+ * ```
+ */
+function ecefToDD(ecef: ECEF, opts?: { datum?: Datum }): GeodeticPoint {
+  const vector: Vector = [
+    ensureFinite(ecef.x, "x"),
+    ensureFinite(ecef.y, "y"),
+    ensureFinite(ecef.z, "z"),
+  ];
+  const [lat, lon, height] = geocentricToGeodetic(vector, ellipsoidOf(opts?.datum));
+  return { point: toPair(lat, lon, opts?.datum), height };
+}
+
+/**
+ * Converts a coordinate pair to East-North-Up (ENU) offsets from a reference point.
+ *
+ * The offsets are straight-line distances in metres along the reference
+ * point's local east, north and up axes, as used for drone and robot
+ * navigation. Far from the reference point the up axis no longer matches the
+ * local vertical, so a point 10 km away on the ellipsoid has an up offset of
+ * about -7.8 m.
+ *
+ * @param pair - The position as a [latitude, longitude] DD pair, optionally with its height
+ * @param origin - The reference point as a [latitude, longitude] DD pair, optionally with its height
+ * @param opts - Optional settings
+ * @param opts.height - The height of the position above the ellipsoid in metres (default: the pair's height, or 0)
+ * @param opts.originHeight - The height of the reference point above the ellipsoid in metres (default: the origin's height, or 0)
+ * @returns The ENU offsets in metres
+ *
+ * @throws {InvalidNumberError} When a coordinate or height is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums, or a pair's height is not ellipsoidal
+ *
+ * @example
+ * ```typescript
+ * const home = parsePairToDD(47.3977, 8.5456);
+ * ddToENU(parsePairToDD(47.3986, 8.5469), home, { height: 520, originHeight: 488 });
+ * // { east: 98.14, north: 100.07, up: 32 }
+ * ```
+ */
+function ddToENU(
+  pair: [DD, DD, Height?],
+  origin: [DD, DD, Height?],
+  opts?: { height?: number; originHeight?: number }
+): ENU {
+  const ellipsoid = ellipsoidOf(commonDatum(pair, origin));
+  const [x, y, z] = toVector(pair, opts?.height, ellipsoid);
+  const [x0, y0, z0] = toVector(origin, opts?.originHeight, ellipsoid);
+  const [east, north, up] = toLocal([x - x0, y - y0, z - z0], ...validatePoint(origin));
+  return { east, north, up };
+}
+
+/**
+ * Converts East-North-Up (ENU) offsets from a reference point back to a coordinate pair and height.
+ *
+ * The result is on the datum of the reference point.
+ *
+ * @param enu - The ENU offsets in metres
+ * @param origin - The reference point as a [latitude, longitude] DD pair, optionally with its height
+ * @param opts - Optional settings
+ * @param opts.originHeight - The height of the reference point above the ellipsoid in metres (default: the origin's height, or 0)
+ * @returns A GeodeticPoint with the [latitude, longitude] `point` and the ellipsoidal `height` in metres
+ *
+ * @throws {InvalidNumberError} When an offset, coordinate or height is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ *
+ * @example
+ * ```typescript
+ * enuToDD({ east: 98.14, north: 100.07, up: 32 }, home, { originHeight: 488 });
+ * // { point: [{ kind: "lat", degrees: 47.3986 }, { kind: "lon", degrees: 8.5469 }], height: 520 }
+ * ```
+ */
+function enuToDD(
+  enu: ENU,
+  origin: [DD, DD, Height?],
+  opts?: { originHeight?: number }
+): GeodeticPoint {
+  const offset = toGlobal(
+    [
+      ensureFinite(enu.east, "east"),
+      ensureFinite(enu.north, "north"),
+      ensureFinite(enu.up, "up"),
+    ],
+    ...validatePoint(origin)
+  );
+  const reference = ddToECEF(origin, opts?.originHeight);
+  return ecefToDD(
+    { x: reference.x + offset[0], y: reference.y + offset[1], z: reference.z + offset[2] },
+    { datum: commonDatum(origin) }
+  );
+}
+
+/**
+ * Converts a coordinate pair to North-East-Down (NED) offsets from a reference point.
+ *
+ * The same as {@link ddToENU} with the axes reordered and the vertical
+ * flipped, the usual frame for aircraft.
+ *
+ * @param pair - The position as a [latitude, longitude] DD pair, optionally with its height
+ * @param origin - The reference point as a [latitude, longitude] DD pair, optionally with its height
+ * @param opts - Optional settings
+ * @param opts.height - The height of the position above the ellipsoid in metres (default: the pair's height, or 0)
+ * @param opts.originHeight - The height of the reference point above the ellipsoid in metres (default: the origin's height, or 0)
+ * @returns The NED offsets in metres
+ *
+ * @throws {InvalidNumberError} When a coordinate or height is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums, or a pair's height is not ellipsoidal
+ *
+ * @example
+ * ```typescript
+ * ddToNED(parsePairToDD(47.3986, 8.5469), home, { height: 520, originHeight: 488 });
+ * // { north: 100.07, east: 98.14, down: -32 }
+ * ```
+ */
+function ddToNED(
+  pair: [DD, DD, Height?],
+  origin: [DD, DD, Height?],
+  opts?: { height?: number; originHeight?: number }
+): NED {
+  const { east, north, up } = ddToENU(pair, origin, opts);
+  return { north, east, down: -up || 0 };
+}
+
+/**
+ * Converts North-East-Down (NED) offsets from a reference point back to a coordinate pair and height.
+ *
+ * @param ned - The NED offsets in metres
+ * @param origin - The reference point as a [latitude, longitude] DD pair, optionally with its height
+ * @param opts - Optional settings
+ * @param opts.originHeight - The height of the reference point above the ellipsoid in metres (default: the origin's height, or 0)
+ * @returns A GeodeticPoint with the [latitude, longitude] `point` and the ellipsoidal `height` in metres
+ *
+ * @throws {InvalidNumberError} When an offset, coordinate or height is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ *
+ * @example
+ * ```typescript
+ * nedToDD({ north: 100.07, east: 98.14, down: -32 }, home, { originHeight: 488 });
+ * // { point: [{ kind: "lat", degrees: 47.3986 }, { kind: "lon", degrees: 8.5469 }], height: 520 }
+ * ```
+ */
+function nedToDD(
+  ned: NED,
+  origin: [DD, DD, Height?],
+  opts?: { originHeight?: number }
+): GeodeticPoint {
+  return enuToDD({ east: ned.east, north: ned.north, up: -ned.down }, origin, opts);
+}
+
+// Validates a pair and height and converts them to ECEF
+function toVector(
+  pair: [DD, DD, Height?],
+  height: number | undefined,
+  ellipsoid: Ellipsoid
+): Vector {
+  const [lat, lon] = validatePoint(pair);
+  const h = ensureFinite(height ?? ellipsoidalHeight(pair[2]), "height");
+  return geodeticToGeocentric(lat, lon, h, ellipsoid);
+}
+
+// A pair's own height in metres above the ellipsoid, 0 when it has none
+function ellipsoidalHeight(height: Height | undefined): number {
+  if (height === undefined) return 0;
+  if (height.reference !== undefined && height.reference !== HeightReference.ELLIPSOIDAL)
+    throw new UnsupportedInputError(
+      `Expected a height above the ellipsoid, not ${height.reference.toUpperCase()}`,
+      { value: height.reference }
+    );
+  return convertHeight(height, HeightUnit.METERS).value;
+}
+
+function ellipsoidOf(datum: Datum | undefined): Ellipsoid {
+  return datum === undefined ? WGS84 : DATUMS[datum].ellipsoid;
+}
+
+// Rotates an ECEF offset into the east, north and up axes at lat, lon
+function toLocal([dx, dy, dz]: Vector, lat: number, lon: number): Vector {
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const sinLambda = Math.sin(lambda);
+  const cosLambda = Math.cos(lambda);
+  const t = cosLambda * dx + sinLambda * dy;
+  return [
+    -sinLambda * dx + cosLambda * dy,
+    -sinPhi * t + cosPhi * dz,
+    cosPhi * t + sinPhi * dz,
+  ];
+}
+
+// The inverse of toLocal
+function toGlobal([east, north, up]: Vector, lat: number, lon: number): Vector {
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const sinLambda = Math.sin(lambda);
+  const cosLambda = Math.cos(lambda);
+  const t = -sinPhi * north + cosPhi * up;
+  return [
+    -sinLambda * east + cosLambda * t,
+    cosLambda * east + sinLambda * t,
+    cosPhi * north + sinPhi * up,
+  ];
+}
+
+function geodeticToGeocentric(
+  lat: number,
+  lon: number,
+  h: number,
+  ellipsoid: Ellipsoid
+): Vector {
+  const { a, f } = ellipsoid;
+  const e2 = f * (2 - f);
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const n = a / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  return [
+    (n + h) * cosPhi * Math.cos(lambda),
+    (n + h) * cosPhi * Math.sin(lambda),
+    (n * (1 - e2) + h) * sinPhi,
+  ];
+}
+
+// Bowring's method, iterated on the parametric latitude β. Within about 43 km
+// of the centre the latitude is not unique; the absolute value picks one in
+// range.
+function geocentricToGeodetic(
+  [x, y, z]: Vector,
+  ellipsoid: Ellipsoid
+): [number, number, number] {
+  const { a, f } = ellipsoid;
+  const b = a * (1 - f);
+  const e2 = f * (2 - f);
+  const ep2 = e2 / (1 - e2);
+  const p = Math.hypot(x, y);
+
+  let beta = Math.atan2(a * z, b * p);
+  let phi = 0;
+  for (let i = 0; i < BOWRING_MAX_ITERATIONS; i++) {
+    phi = Math.atan2(
+      z + ep2 * b * Math.sin(beta) ** 3,
+      Math.abs(p - e2 * a * Math.cos(beta) ** 3)
+    );
+    const next = Math.atan2((1 - f) * Math.sin(phi), Math.cos(phi));
+    if (next === beta) break;
+    beta = next;
+  }
+
+  const sinPhi = Math.sin(phi);
+  const h = p * Math.cos(phi) + z * sinPhi - a * Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  return [toDegrees(phi), toDegrees(Math.atan2(y, x)), h];
+}
+
+export {
+  ddToECEF,
+  ecefToDD,
+  ddToENU,
+  enuToDD,
+  ddToNED,
+  nedToDD,
+  geodeticToGeocentric,
+  geocentricToGeodetic,
+};
@@ -0,0 +1,142 @@
+import {
+  CoordinateErrorCode,
+  CoordinateErrorDetails,
+  CoordinateType,
+  InputSpan,
+  ParseWarningCode,
+} from "../types";
+
+/**
+ * Base class for every error raised while parsing, validating or converting coordinates.
+ *
+ * The `code` is stable across releases, so callers can branch on it instead
+ * of matching message text. Where known, the error also carries the offending
+ * `value`, the coordinate `kind`, and the `span` of the offending characters
+ * in the original input string (`end` is exclusive).
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   parseToDD("45° 75' N", CoordinateType.LAT);
+ * } catch (err) {
+ *   if (err instanceof CoordinateError) {
+ *     err.code;   // "MINUTES_OVERFLOW"
+ *     err.value;  // 75
+ *     err.span;   // { start: 4, end: 6 }
+ *   }
+ * }
+ * ```
+ */
+class CoordinateError extends Error {
+  readonly code: CoordinateErrorCode;
+  readonly value?: unknown;
+  readonly kind?: CoordinateType;
+  readonly span?: InputSpan;
+
+  constructor(
+    code: CoordinateErrorCode,
+    message: string,
+    details: CoordinateErrorDetails = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.value = details.value;
+    this.kind = details.kind;
+    this.span = details.span;
+  }
+}
+
+/**
+ * Raised when degrees fall outside [-90, 90] for latitude or [-180, 180] for longitude.
+ */
+class OutOfRangeError extends CoordinateError {
+  constructor(message: string, details?: CoordinateErrorDetails) {
+    super(CoordinateErrorCode.OUT_OF_RANGE, message, details);
+  }
+}
+
+/**
+ * Raised when a minutes component is not in [0, 60).
+ */
+class MinutesOverflowError extends CoordinateError {
+  constructor(message: string, details?: CoordinateErrorDetails) {
+    super(CoordinateErrorCode.MINUTES_OVERFLOW, message, details);
+  }
+}
+
+/**
+ * Raised when a seconds component is not in [0, 60).
+ */
+class SecondsOverflowError extends CoordinateError {
+  constructor(message: string, details?: CoordinateErrorDetails) {
+    super(CoordinateErrorCode.SECONDS_OVERFLOW, message, details);
+  }
+}
+
+/**
+ * Raised when an input cannot be recognised as a coordinate at all.
+ */
+class UnrecognizedFormatError extends CoordinateError {
+  constructor(message: string, details?: CoordinateErrorDetails) {
+    super(CoordinateErrorCode.UNRECOGNIZED_FORMAT, message, details);
+  }
+}
+
+/**
+ * Raised when a numeric value is NaN, infinite, or not a number at all.
+ */
+class InvalidNumberError extends CoordinateError {
+  constructor(message: string, details?: CoordinateErrorDetails) {
+    super(CoordinateErrorCode.INVALID_NUMBER, message, details);
+  }
+}
+
+/**
+ * Raised when well-formed input cannot be used as given, such as coordinates on conflicting datums.
+ */
+class UnsupportedInputError extends CoordinateError {
+  constructor(message: string, details?: CoordinateErrorDetails) {
+    super(CoordinateErrorCode.UNSUPPORTED_INPUT, message, details);
+  }
+}
+
+/**
+ * Raised when a projection definition cannot describe a map projection, such as a non-positive scale factor.
+ */
+class InvalidProjectionError extends CoordinateError {
+  constructor(message: string, details?: CoordinateErrorDetails) {
+    super(CoordinateErrorCode.INVALID_PROJECTION, message, details);
+  }
+}
+
+/**
+ * Raised in strict mode for input the lenient parser would accept with a warning.
+ *
+ * `reason` is the warning code the lenient parser would have reported, such
+ * as `EXTRA_NUMBERS` or `MULTIPLE_HEMISPHERES`.
+ */
+class StrictParseError extends CoordinateError {
+  readonly reason: ParseWarningCode;
+
+  constructor(
+    message: string,
+    reason: ParseWarningCode,
+    details?: CoordinateErrorDetails
+  ) {
+    super(CoordinateErrorCode.STRICT_VIOLATION, message, details);
+    this.reason = reason;
+  }
+}
+
+export {
+  CoordinateError,
+  OutOfRangeError,
+  MinutesOverflowError,
+  SecondsOverflowError,
+  UnrecognizedFormatError,
+  InvalidNumberError,
+  UnsupportedInputError,
+  InvalidProjectionError,
+  StrictParseError,
+};
@@ -0,0 +1,161 @@
+import { RoundingMode } from "../types";
+
+// An exact decimal: units / 10^scale
+interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+/**
+ * Converts a finite number to the exact decimal it prints as.
+ *
+ * Uses the shortest string that round-trips (`String(value)`), so `45.123`
+ * becomes 45123 / 10^3 rather than the nearest binary fraction. This is what
+ * makes rounding at `.5` boundaries match the digits the caller sees.
+ *
+ * @param value - A finite number
+ * @returns The decimal representation
+ */
+function toDecimal(value: number): Decimal {
+  const [mantissa, exponent = "0"] = String(value).toLowerCase().split("e");
+  const [whole, fraction = ""] = mantissa.split(".");
+  const scale = fraction.length - Number(exponent);
+  const units = BigInt(whole + fraction);
+  if (scale >= 0) return { units, scale };
+  return { units: units * 10n ** BigInt(-scale), scale: 0 };
+}
+
+/**
+ * Adds two decimals exactly.
+ */
+function addDecimal(a: Decimal, b: Decimal): Decimal {
+  const scale = Math.max(a.scale, b.scale);
+  return {
+    units:
+      a.units * 10n ** BigInt(scale - a.scale) +
+      b.units * 10n ** BigInt(scale - b.scale),
+    scale,
+  };
+}
+
+/**
+ * Multiplies a decimal by an integer factor exactly.
+ */
+function scaleDecimal(value: Decimal, factor: number): Decimal {
+  return { units: value.units * BigInt(factor), scale: value.scale };
+}
+
+/**
+ * Rounds `value / divisor` to a number of decimal places.
+ *
+ * @param value - The decimal to round
+ * @param places - Number of decimal places to keep
+ * @param mode - How to round the last place
+ * @param divisor - Optional integer divisor applied before rounding (default: 1)
+ * @returns The rounded result as a count of 10^-places units
+ */
+function roundDecimal(
+  value: Decimal,
+  places: number,
+  mode: RoundingMode,
+  divisor = 1
+): bigint {
+  return roundRatio(
+    value.units * 10n ** BigInt(places),
+    10n ** BigInt(value.scale) * BigInt(divisor),
+    mode
+  );
+}
+
+// Integer division of numer by a positive denom, rounded in the given mode
+function roundRatio(numer: bigint, denom: bigint, mode: RoundingMode): bigint {
+  const quotient = numer / denom;
+  const remainder = numer % denom;
+  if (remainder === 0n) return quotient;
+
+  const negative = numer < 0n;
+  const away = negative ? quotient - 1n : quotient + 1n;
+  switch (mode) {
+    case RoundingMode.TRUNCATE:
+      return quotient;
+    case RoundingMode.FLOOR:
+      return negative ? away : quotient;
+    case RoundingMode.CEIL:
+      return negative ? quotient : away;
+    default: {
+      const twice = (negative ? -remainder : remainder) * 2n;
+      if (twice !== denom) return twice > denom ? away : quotient;
+      if (mode === RoundingMode.HALF_EVEN && quotient % 2n === 0n) return quotient;
+      return away;
+    }
+  }
+}
+
+/**
+ * Converts a count of 10^-places units back to a number.
+ *
+ * Goes through the decimal string, so the result is the double nearest to
+ * the exact decimal: 2280n with 2 places gives exactly `22.8`.
+ *
+ * @param units - The scaled integer
+ * @param places - Number of decimal places the integer carries
+ * @returns The number
+ */
+function fromScaled(units: bigint, places: number): number {
+  const sign = units < 0n ? "-" : "";
+  const digits = (units < 0n ? -units : units).toString().padStart(places + 1, "0");
+  if (places === 0) return Number(sign + digits);
+  const point = digits.length - places;
+  return Number(`${sign}${digits.slice(0, point)}.${digits.slice(point)}`);
+}
+
+/**
+ * Splits a value into whole sexagesimal units with a rounded remainder.
+ *
+ * The value is rounded once, in its smallest unit, and then divided down,
+ * so a remainder that rounds up to 60 carries into the unit above it
+ * exactly. `depth` is the number of base-60 steps: 1 gives `[whole, sixtieths]`
+ * (degrees and minutes), 2 gives `[whole, sixtieths, 3600ths]`.
+ *
+ * @param value - The signed value; the sign only matters for floor and ceil
+ * @param depth - Number of base-60 units below the whole unit (1 or 2)
+ * @param places - Decimal places for the smallest unit
+ * @param mode - How to round the smallest unit
+ * @returns The magnitudes of each unit, largest first
+ *
+ * @example
+ * ```typescript
+ * splitSexagesimal(toDecimal(45.123), 2, 2, RoundingMode.HALF_UP);  // [45, 7, 22.8]
+ * splitSexagesimal(toDecimal(-45.9999999), 1, 3, RoundingMode.HALF_UP);  // [46, 0]
+ * ```
+ */
+function splitSexagesimal(
+  value: Decimal,
+  depth: 1 | 2,
+  places: number,
+  mode: RoundingMode
+): number[] {
+  let total = roundDecimal(scaleDecimal(value, 60 ** depth), places, mode);
+  if (total < 0n) total = -total;
+
+  const unit = 10n ** BigInt(places);
+  const smallest = fromScaled(total % (60n * unit), places);
+  let rest = total / (60n * unit);
+  const parts: number[] = [smallest];
+  for (let i = 1; i < depth; i++) {
+    parts.unshift(Number(rest % 60n));
+    rest /= 60n;
+  }
+  parts.unshift(Number(rest));
+  return parts;
+}
+
+export {
+  toDecimal,
+  addDecimal,
+  scaleDecimal,
+  roundDecimal,
+  fromScaled,
+  splitSexagesimal,
+  Decimal,
+};
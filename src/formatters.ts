@@ -1,12 +1,35 @@
-import { DM, DMS, DD } from "../types";
-import { dirFromSign } from "./helpers";
-import { PRECISION_DEFAULTS } from "../data";
+import {
+  DM,
+  DMS,
+  DD,
+  UTM,
+  MGRS,
+  UPS,
+  OSGridRef,
+  CoordinateLocale,
+  Hemisphere,
+  AngleUnit,
+  CoordinateType,
+  Height,
+  HeightReference,
+  PairWithHeight,
+} from "../types";
+import { dirFromSign, ensureFinite, withHeight } from "./helpers";
+import { OutOfRangeError, UnrecognizedFormatError } from "./errors";
+import { resolveLocale, formatNumber } from "./locale";
+import { decimalsIn } from "./precision";
+import { isMaidenhead } from "./maidenhead";
+import { squareLetters } from "./osgrid";
+import { PRECISION_DEFAULTS, FORMAT_PRESETS, OSGB_CONSTANTS } from "../data";
 
 /**
  * Formats a Degrees-Minutes (DM) object as a human-readable string.
  *
  * @param dm - The DM object to format
  * @param decimals - Number of decimal places for minutes (default: PRECISION_DEFAULTS.DM_DECIMALS)
+ * @param opts - Optional formatting options
+ * @param opts.locale - Language tag or CoordinateLocale for the decimal separator and hemisphere letters (default: English with ".")
+ * @param opts.matchPrecision - Use decimals that keep the value's source `precision` when it has one, instead of `decimals` (default: false)
  * @returns A formatted string like "45° 7.38' N"
  *
  * @example
@@ -14,11 +37,24 @@ import { PRECISION_DEFAULTS } from "../data";
  * const dm = { kind: CoordinateType.LAT, degrees: 45, minutes: 7.38, hemi: Hemisphere.N };
  * formatDM(dm);        // "45° 7.38' N"
  * formatDM(dm, 4);     // "45° 7.3800' N"
+ * formatDM(dm, 2, { locale: "fr" });  // "45° 7,38' N"
  * ```
  */
-export function formatDM(dm: DM, decimals = PRECISION_DEFAULTS.DM_DECIMALS): string {
+export function formatDM(
+  dm: DM,
+  decimals = PRECISION_DEFAULTS.DM_DECIMALS,
+  opts?: { locale?: string | CoordinateLocale; matchPrecision?: boolean }
+): string {
+  if (opts?.matchPrecision && dm.precision)
+    decimals = decimalsIn(dm.precision, AngleUnit.MINUTES);
+  const pattern = compilePattern(withDecimals(FORMAT_PRESETS.DM, decimals));
   const hemi = dm.hemi ?? dirFromSign(dm.kind, dm.degrees);
-  return `${Math.abs(dm.degrees)}° ${dm.minutes.toFixed(decimals)}' ${hemi}`;
+  return renderPattern(
+    pattern,
+    { degrees: Math.abs(dm.degrees), minutes: dm.minutes },
+    hemi,
+    resolveOptionalLocale(opts?.locale)
+  );
 }
 
 /**
@@ -26,6 +62,10 @@ export function formatDM(dm: DM, decimals = PRECISION_DEFAULTS.DM_DECIMALS): str
  *
  * @param dms - The DMS object to format
  * @param decimals - Number of decimal places for seconds (default: PRECISION_DEFAULTS.DMS_DECIMALS)
+ * @param opts - Optional formatting options
+ * @param opts.locale - Language tag or CoordinateLocale for the decimal separator and hemisphere letters (default: English with ".")
+ * @param opts.matchPrecision - Use decimals that keep the value's source `precision` when it has one, instead of `decimals` (default: false)
+ * @param opts.hemisphere - Show the hemisphere letter; with `false` a negative value gets a "-" instead, as for a bearing from bearingToDMS (default: true)
  * @returns A formatted string like "45° 7' 22.80\" N"
  *
  * @example
@@ -33,13 +73,28 @@ export function formatDM(dm: DM, decimals = PRECISION_DEFAULTS.DM_DECIMALS): str
  * const dms = { kind: CoordinateType.LAT, degrees: 45, minutes: 7, seconds: 22.8, hemi: Hemisphere.N };
  * formatDMS(dms);      // "45° 7' 22.80\" N"
  * formatDMS(dms, 3);   // "45° 7' 22.800\" N"
+ * formatDMS({ ...dms, kind: CoordinateType.LON, hemi: Hemisphere.E }, 2, { locale: "de" });
+ * // "45° 7' 22,80\" O"
+ * formatDMS(bearingToDMS(250.5), 0, { hemisphere: false });  // "250° 30' 0\""
  * ```
  */
-export function formatDMS(dms: DMS, decimals = PRECISION_DEFAULTS.DMS_DECIMALS): string {
+export function formatDMS(
+  dms: DMS,
+  decimals = PRECISION_DEFAULTS.DMS_DECIMALS,
+  opts?: { locale?: string | CoordinateLocale; matchPrecision?: boolean; hemisphere?: boolean }
+): string {
+  if (opts?.matchPrecision && dms.precision)
+    decimals = decimalsIn(dms.precision, AngleUnit.SECONDS);
+  const preset =
+    opts?.hemisphere === false ? `-${FORMAT_PRESETS.DMS.replace(/ H$/, "")}` : FORMAT_PRESETS.DMS;
+  const pattern = compilePattern(withDecimals(preset, decimals));
   const hemi = dms.hemi ?? dirFromSign(dms.kind, dms.degrees);
-  return `${Math.abs(dms.degrees)}° ${dms.minutes}' ${dms.seconds.toFixed(
-    decimals
-  )}" ${hemi}`;
+  return renderPattern(
+    pattern,
+    { degrees: Math.abs(dms.degrees), minutes: dms.minutes, seconds: dms.seconds },
+    hemi,
+    resolveOptionalLocale(opts?.locale)
+  );
 }
 
 /**
@@ -47,6 +102,9 @@ export function formatDMS(dms: DMS, decimals = PRECISION_DEFAULTS.DMS_DECIMALS):
  *
  * @param dd - The DD object to format
  * @param decimals - Number of decimal places for degrees (default: PRECISION_DEFAULTS.DD_DECIMALS)
+ * @param opts - Optional formatting options
+ * @param opts.locale - Language tag or CoordinateLocale for the decimal separator and hemisphere letters (default: English with ".")
+ * @param opts.matchPrecision - Use decimals that keep the value's source `precision` when it has one, instead of `decimals` (default: false)
  * @returns A formatted string like "45.12300° N"
  *
  * @example
@@ -54,11 +112,17 @@ export function formatDMS(dms: DMS, decimals = PRECISION_DEFAULTS.DMS_DECIMALS):
  * const dd = { kind: CoordinateType.LAT, degrees: 45.123 };
  * formatDD(dd);        // "45.12300° N"
  * formatDD(dd, 3);    // "45.123° N"
+ * formatDD({ kind: CoordinateType.LON, degrees: -45.123 }, 3, { locale: "fr" });  // "45,123° O"
  * ```
  */
-export function formatDD(dd: DD, decimals = PRECISION_DEFAULTS.DD_DECIMALS): string {
-  const hemi = dirFromSign(dd.kind, dd.degrees);
-  return `${Math.abs(dd.degrees).toFixed(decimals)}° ${hemi}`;
+export function formatDD(
+  dd: DD,
+  decimals = PRECISION_DEFAULTS.DD_DECIMALS,
+  opts?: { locale?: string | CoordinateLocale; matchPrecision?: boolean }
+): string {
+  if (opts?.matchPrecision && dd.precision)
+    decimals = decimalsIn(dd.precision, AngleUnit.DEGREES);
+  return formatCoordinate(dd, withDecimals(FORMAT_PRESETS.DD, decimals), opts);
 }
 
 /**
@@ -67,7 +131,10 @@ export function formatDD(dd: DD, decimals = PRECISION_DEFAULTS.DD_DECIMALS): str
  * @param latDM - The latitude DM object
  * @param lonDM - The longitude DM object
  * @param decimals - Number of decimal places for minutes (default: PRECISION_DEFAULTS.DM_DECIMALS)
- * @returns A tuple of formatted strings [latitude, longitude]
+ * @param opts - Optional formatting options; see {@link formatDM}
+ * @param opts.height - A height to format as a third string (default: none)
+ * @param opts.heightDecimals - Number of decimal places for the height (default: PRECISION_DEFAULTS.HEIGHT_DECIMALS)
+ * @returns A tuple of formatted strings [latitude, longitude], with the height third when `opts.height` is given
  *
  * @example
  * ```typescript
@@ -78,12 +145,24 @@ export function formatDD(dd: DD, decimals = PRECISION_DEFAULTS.DD_DECIMALS): str
  * // lonStr: "123° 30.03' W"
  * ```
  */
-export function formatDMPair(
+export function formatDMPair<H extends Height | undefined = undefined>(
   latDM: DM,
   lonDM: DM,
-  decimals = PRECISION_DEFAULTS.DM_DECIMALS
-): [string, string] {
-  return [formatDM(latDM, decimals), formatDM(lonDM, decimals)];
+  decimals = PRECISION_DEFAULTS.DM_DECIMALS,
+  opts?: {
+    locale?: string | CoordinateLocale;
+    matchPrecision?: boolean;
+    height?: H;
+    heightDecimals?: number;
+  }
+): PairWithHeight<string, H, string> {
+  const pair: [string, string] = [
+    formatDM(latDM, decimals, opts),
+    formatDM(lonDM, decimals, opts),
+  ];
+  const height =
+    opts?.height && formatHeight(opts.height, opts.heightDecimals, { locale: opts.locale });
+  return withHeight(pair, height) as PairWithHeight<string, H, string>;
 }
 
 /**
@@ -92,7 +171,10 @@ export function formatDMPair(
  * @param latDMS - The latitude DMS object
  * @param lonDMS - The longitude DMS object
  * @param decimals - Number of decimal places for seconds (default: PRECISION_DEFAULTS.DMS_DECIMALS)
- * @returns A tuple of formatted strings [latitude, longitude]
+ * @param opts - Optional formatting options; see {@link formatDMS}
+ * @param opts.height - A height to format as a third string (default: none)
+ * @param opts.heightDecimals - Number of decimal places for the height (default: PRECISION_DEFAULTS.HEIGHT_DECIMALS)
+ * @returns A tuple of formatted strings [latitude, longitude], with the height third when `opts.height` is given
  *
  * @example
  * ```typescript
@@ -103,12 +185,24 @@ export function formatDMPair(
  * // lonStr: "123° 30' 1.80" W"
  * ```
  */
-export function formatDMSPair(
+export function formatDMSPair<H extends Height | undefined = undefined>(
   latDMS: DMS,
   lonDMS: DMS,
-  decimals = PRECISION_DEFAULTS.DMS_DECIMALS
-): [string, string] {
-  return [formatDMS(latDMS, decimals), formatDMS(lonDMS, decimals)];
+  decimals = PRECISION_DEFAULTS.DMS_DECIMALS,
+  opts?: {
+    locale?: string | CoordinateLocale;
+    matchPrecision?: boolean;
+    height?: H;
+    heightDecimals?: number;
+  }
+): PairWithHeight<string, H, string> {
+  const pair: [string, string] = [
+    formatDMS(latDMS, decimals, opts),
+    formatDMS(lonDMS, decimals, opts),
+  ];
+  const height =
+    opts?.height && formatHeight(opts.height, opts.heightDecimals, { locale: opts.locale });
+  return withHeight(pair, height) as PairWithHeight<string, H, string>;
 }
 
 /**
@@ -117,7 +211,10 @@ export function formatDMSPair(
  * @param latDD - The latitude DD object
  * @param lonDD - The longitude DD object
  * @param decimals - Number of decimal places for degrees (default: PRECISION_DEFAULTS.DD_DECIMALS)
- * @returns A tuple of formatted strings [latitude, longitude]
+ * @param opts - Optional formatting options; see {@link formatDD}
+ * @param opts.height - A height to format as a third string (default: none)
+ * @param opts.heightDecimals - Number of decimal places for the height (default: PRECISION_DEFAULTS.HEIGHT_DECIMALS)
+ * @returns A tuple of formatted strings [latitude, longitude], with the height third when `opts.height` is given
  *
  * @example
  * ```typescript
@@ -126,12 +223,419 @@ export function formatDMSPair(
  * const [latStr, lonStr] = formatDDPair(latDD, lonDD);
  * // latStr: "48.85440° N"
  * // lonStr: "123.50050° W"
+ *
+ * const [lat, lon, height] = parsePairString("48.8544, -123.5005, 120 m MSL");
+ * formatDDPair(lat, lon, 4, { height });
+ * // ["48.8544° N", "123.5005° W", "120 m MSL"]
  * ```
  */
-export function formatDDPair(
+export function formatDDPair<H extends Height | undefined = undefined>(
   latDD: DD,
   lonDD: DD,
-  decimals = PRECISION_DEFAULTS.DD_DECIMALS
-): [string, string] {
-  return [formatDD(latDD, decimals), formatDD(lonDD, decimals)];
+  decimals = PRECISION_DEFAULTS.DD_DECIMALS,
+  opts?: {
+    locale?: string | CoordinateLocale;
+    matchPrecision?: boolean;
+    height?: H;
+    heightDecimals?: number;
+  }
+): PairWithHeight<string, H, string> {
+  const pair: [string, string] = [
+    formatDD(latDD, decimals, opts),
+    formatDD(lonDD, decimals, opts),
+  ];
+  const height =
+    opts?.height && formatHeight(opts.height, opts.heightDecimals, { locale: opts.locale });
+  return withHeight(pair, height) as PairWithHeight<string, H, string>;
+}
+
+/**
+ * Formats a height with its unit and, when it has one, its reference.
+ *
+ * References print as `HAE` (height above the ellipsoid), `MSL` and `AGL`,
+ * which {@link parseHeight} reads back.
+ *
+ * @param height - The height to format
+ * @param decimals - Number of decimal places (default: PRECISION_DEFAULTS.HEIGHT_DECIMALS)
+ * @param opts - Optional formatting options
+ * @param opts.locale - Language tag or CoordinateLocale for the decimal separator (default: ".")
+ * @returns A formatted string like "120 m MSL"
+ *
+ * @example
+ * ```typescript
+ * formatHeight({ value: 120, unit: HeightUnit.METERS, reference: HeightReference.MSL });  // "120 m MSL"
+ * formatHeight({ value: 393.7, unit: HeightUnit.FEET }, 1);                               // "393.7 ft"
+ * formatHeight({ value: -12.5, unit: HeightUnit.METERS }, 1, { locale: "fr" });          // "-12,5 m"
+ * ```
+ */
+export function formatHeight(
+  height: Height,
+  decimals = PRECISION_DEFAULTS.HEIGHT_DECIMALS,
+  opts?: { locale?: string | CoordinateLocale }
+): string {
+  const value = formatNumber(height.value, decimals, resolveOptionalLocale(opts?.locale));
+  const reference = height.reference && REFERENCE_LABELS[height.reference];
+  return reference ? `${value} ${height.unit} ${reference}` : `${value} ${height.unit}`;
+}
+
+/**
+ * Formats Decimal Degrees (DD) with a pattern of degree, minute, second and hemisphere tokens.
+ *
+ * | Token              | Output                                                        |
+ * | ------------------ | ------------------------------------------------------------- |
+ * | `D`, `DD`, `DDD`   | Whole degrees, zero-padded to the number of letters           |
+ * | `M`, `MM`          | Whole minutes, zero-padded                                    |
+ * | `S`, `SS`          | Whole seconds, zero-padded                                    |
+ * | `.d`, `.m`, `.s`   | Decimals of the preceding unit, one letter per place          |
+ * | `H`                | Hemisphere letter (N, S, E, W)                                |
+ * | `-`                | `-` for negative values, nothing otherwise                    |
+ * | `+`                | `+` or `-`                                                    |
+ * | `[text]`           | Literal text, for letters that would otherwise be tokens      |
+ *
+ * Everything else is copied as-is. Degrees are required, units cannot skip
+ * a level (`D S` is invalid), and only the smallest unit may have decimals.
+ * The value is rounded in the smallest unit before it is split, so minutes
+ * and seconds never show as 60. {@link FORMAT_PRESETS} holds the patterns
+ * behind formatDD, formatDM and formatDMS.
+ *
+ * @param dd - The DD object to format
+ * @param pattern - The format pattern
+ * @param opts - Optional formatting options
+ * @param opts.locale - Language tag or CoordinateLocale for the decimal separator and hemisphere letters; with `spaceBeforeHemisphere: false` a space directly before `H` is dropped (default: English with ".")
+ * @returns The formatted coordinate
+ *
+ * @throws {UnrecognizedFormatError} When the pattern has no degrees, repeats or skips a unit, or puts decimals on a larger unit
+ *
+ * @example
+ * ```typescript
+ * const lon = { kind: CoordinateType.LON, degrees: 45.12300 };
+ * formatCoordinate(lon, "DDD°MM'SS.s\"H");   // "045°07'22.8\"E"
+ * formatCoordinate(lon, "HDD MM.mmm");        // "E45 07.380"
+ * formatCoordinate({ ...lon, degrees: -45.123 }, "-D.ddddd");  // "-45.12300"
+ * formatCoordinate(lon, "D[d] M[m] H");       // "45d 7m E"
+ * formatCoordinate(lon, FORMAT_PRESETS.DM);   // "45° 7.38000' E"
+ * ```
+ */
+export function formatCoordinate(
+  dd: DD,
+  pattern: string,
+  opts?: { locale?: string | CoordinateLocale }
+): string {
+  const compiled = compilePattern(pattern);
+  const scale = UNIT_SCALE[compiled.smallest];
+  let remaining = +(Math.abs(dd.degrees) * scale).toFixed(compiled.decimals);
+
+  // Split the rounded total from the largest unit down
+  const parts: PatternParts = { degrees: 0 };
+  for (let unit = 0; unit < compiled.smallest; unit++) {
+    const size = scale / UNIT_SCALE[unit];
+    const whole = Math.floor(remaining / size);
+    parts[UNIT_ORDER[unit]] = whole;
+    remaining -= whole * size;
+  }
+  parts[UNIT_ORDER[compiled.smallest]] = remaining;
+
+  return renderPattern(
+    compiled,
+    parts,
+    dirFromSign(dd.kind, dd.degrees),
+    resolveOptionalLocale(opts?.locale)
+  );
+}
+
+/**
+ * Formats a bearing as zero-padded degrees, minutes and seconds.
+ *
+ * The bearing is reduced to [0, 360) first, and a value that rounds up to
+ * 360° is shown as 000°.
+ *
+ * @param bearing - The bearing in degrees clockwise from north
+ * @param decimals - Number of decimal places for seconds (default: PRECISION_DEFAULTS.BEARING_DECIMALS)
+ * @param opts - Optional formatting options
+ * @param opts.locale - Language tag or CoordinateLocale for the decimal separator (default: English with ".")
+ * @returns A formatted string like "053° 28' 12.79\""
+ *
+ * @throws {InvalidNumberError} When the bearing is not a finite number
+ *
+ * @example
+ * ```typescript
+ * formatBearing(53.47022);           // "053° 28' 12.79\""
+ * formatBearing(-90, 0);             // "270° 00' 00\""
+ * formatBearing(359.9999999);        // "000° 00' 00.00\""
+ * formatBearing(5.5, 1, { locale: "fr" });  // "005° 30' 00,0\""
+ * ```
+ */
+export function formatBearing(
+  bearing: number,
+  decimals = PRECISION_DEFAULTS.BEARING_DECIMALS,
+  opts?: { locale?: string | CoordinateLocale }
+): string {
+  let degrees = ((ensureFinite(bearing, "bearing") % 360) + 360) % 360;
+  const seconds = +(degrees * UNIT_SCALE[2]).toFixed(decimals);
+  if (seconds >= 360 * UNIT_SCALE[2]) degrees = 0;
+  return formatCoordinate(
+    { kind: CoordinateType.LON, degrees },
+    withDecimals(FORMAT_PRESETS.BEARING, decimals),
+    opts
+  );
+}
+
+/**
+ * Formats a Universal Transverse Mercator (UTM) object as a human-readable string.
+ *
+ * @param utm - The UTM object to format
+ * @param decimals - Number of decimal places for easting and northing (default: PRECISION_DEFAULTS.UTM_DECIMALS)
+ * @returns A formatted string like "31U 448251 5411932"
+ *
+ * @example
+ * ```typescript
+ * const utm = { zone: 31, band: "U", easting: 448251.8, northing: 5411932.7, hemisphere: Hemisphere.N };
+ * formatUTM(utm);      // "31U 448252 5411933"
+ * formatUTM(utm, 1);   // "31U 448251.8 5411932.7"
+ * ```
+ */
+export function formatUTM(utm: UTM, decimals = PRECISION_DEFAULTS.UTM_DECIMALS): string {
+  return `${utm.zone}${utm.band} ${utm.easting.toFixed(decimals)} ${utm.northing.toFixed(decimals)}`;
+}
+
+/**
+ * Formats a Military Grid Reference System (MGRS) object as a human-readable string.
+ *
+ * The number of digits follows `mgrs.precision` (5 per axis at 1 m, none at 100 km).
+ *
+ * @param mgrs - The MGRS object to format
+ * @param opts - Optional formatting options
+ * @param opts.spaced - Separate zone/band, square letters, easting and northing with spaces (default: true)
+ * @returns A formatted string like "31U DQ 48251 11932"
+ *
+ * @example
+ * ```typescript
+ * const mgrs = { zone: 31, band: "U", column: "D", row: "Q", easting: 48251, northing: 11932, precision: 1 };
+ * formatMGRS(mgrs);                     // "31U DQ 48251 11932"
+ * formatMGRS(mgrs, { spaced: false });  // "31UDQ4825111932"
+ * formatMGRS({ ...mgrs, precision: 1000 }); // "31U DQ 48 11"
+ * ```
+ */
+export function formatMGRS(mgrs: MGRS, opts?: { spaced?: boolean }): string {
+  const digits = 5 - Math.round(Math.log10(mgrs.precision));
+  const axis = (value: number) =>
+    String(Math.floor(value / mgrs.precision)).padStart(digits, "0");
+  const parts = [`${mgrs.zone}${mgrs.band}`, `${mgrs.column}${mgrs.row}`];
+  if (digits > 0) parts.push(axis(mgrs.easting), axis(mgrs.northing));
+  return parts.join(opts?.spaced === false ? "" : " ");
+}
+
+/**
+ * Formats a Universal Polar Stereographic (UPS) object as a human-readable string.
+ *
+ * @param ups - The UPS object to format
+ * @param decimals - Number of decimal places for easting and northing (default: PRECISION_DEFAULTS.UTM_DECIMALS)
+ * @returns A formatted string like "Z 2000000 2000000"
+ *
+ * @example
+ * ```typescript
+ * const ups = { zone: "B", easting: 2078507.6, northing: 2078507.6, hemisphere: Hemisphere.S };
+ * formatUPS(ups);      // "B 2078508 2078508"
+ * formatUPS(ups, 1);   // "B 2078507.6 2078507.6"
+ * ```
+ */
+export function formatUPS(ups: UPS, decimals = PRECISION_DEFAULTS.UTM_DECIMALS): string {
+  return `${ups.zone} ${ups.easting.toFixed(decimals)} ${ups.northing.toFixed(decimals)}`;
+}
+
+/**
+ * Formats an Ordnance Survey National Grid position as a lettered grid reference.
+ *
+ * The easting and northing within the 100 km square are truncated (not
+ * rounded), as OS references are. Without `opts.digits`, a reference read by
+ * `parseOSGrid` keeps the digits it was written with.
+ *
+ * @param grid - The OSGridRef to format
+ * @param opts - Optional formatting options
+ * @param opts.digits - Total digits, an even number from 0 to 10 (default: from `grid.precision`, else PRECISION_DEFAULTS.OSGRID_DIGITS)
+ * @param opts.spaced - Separate letters, easting and northing with spaces (default: true)
+ * @returns A formatted string like "TQ 30076 80687"
+ *
+ * @throws {OutOfRangeError} When the digits are unsupported or the position is outside the National Grid
+ *
+ * @example
+ * ```typescript
+ * const grid = { easting: 530076.4, northing: 180687.9 };
+ * formatOSGrid(grid);                     // "TQ 30076 80687"
+ * formatOSGrid(grid, { digits: 6 });      // "TQ 300 806"
+ * formatOSGrid(grid, { spaced: false });  // "TQ3007680687"
+ * ```
+ */
+export function formatOSGrid(
+  grid: OSGridRef,
+  opts?: { digits?: number; spaced?: boolean }
+): string {
+  const digits =
+    opts?.digits ??
+    (grid.precision ? 10 - 2 * Math.round(Math.log10(grid.precision)) : undefined) ??
+    PRECISION_DEFAULTS.OSGRID_DIGITS;
+  if (!Number.isInteger(digits) || digits < 0 || digits > 10 || digits % 2 !== 0)
+    throw new OutOfRangeError(
+      `OS grid digits must be an even number from 0 to 10 (got ${digits})`,
+      { value: digits }
+    );
+
+  // Round to the nanometre first so float noise never drops a metre on truncation
+  const easting = Number(grid.easting.toFixed(6));
+  const northing = Number(grid.northing.toFixed(6));
+  const half = digits / 2;
+  const axis = (value: number) =>
+    String(Math.floor((value % OSGB_CONSTANTS.SQUARE_SIZE) / 10 ** (5 - half))).padStart(half, "0");
+  const parts = [squareLetters(easting, northing)];
+  if (half > 0) parts.push(axis(easting), axis(northing));
+  return parts.join(opts?.spaced === false ? "" : " ");
+}
+
+/**
+ * Formats a Maidenhead grid locator with conventional casing.
+ *
+ * Fields are upper case and subsquares lower case (`"CN88xt"`), or the whole
+ * locator is upper case with `opts.uppercase`.
+ *
+ * @param locator - The Maidenhead locator (2, 4, 6, 8 or 10 characters, any case)
+ * @param opts - Optional formatting options
+ * @param opts.uppercase - Render every letter in upper case (default: false)
+ * @returns The normalised locator string
+ *
+ * @throws {UnrecognizedFormatError} When the locator is malformed
+ *
+ * @example
+ * ```typescript
+ * formatMaidenhead("cn88XT");                        // "CN88xt"
+ * formatMaidenhead("cn88xt", { uppercase: true });   // "CN88XT"
+ * ```
+ */
+export function formatMaidenhead(
+  locator: string,
+  opts?: { uppercase?: boolean }
+): string {
+  if (!isMaidenhead(locator))
+    throw new UnrecognizedFormatError(
+      `Unrecognized Maidenhead locator: ${JSON.stringify(locator)}`,
+      { value: locator }
+    );
+  const upper = locator.toUpperCase();
+  if (opts?.uppercase) return upper;
+  return upper.slice(0, 2) + upper.slice(2).toLowerCase();
+}
+
+// ============================================================================
+// FORMAT PATTERNS
+// ============================================================================
+
+type PatternUnit = "degrees" | "minutes" | "seconds";
+
+type PatternParts = Partial<Record<PatternUnit, number>> & { degrees: number };
+
+type PatternToken =
+  | { type: "unit"; unit: number; width: number }
+  | { type: "hemisphere" }
+  | { type: "sign"; always: boolean }
+  | { type: "literal"; text: string };
+
+interface CompiledPattern {
+  tokens: PatternToken[];
+  smallest: number;
+  decimals: number;
+}
+
+const REFERENCE_LABELS: Record<HeightReference, string> = {
+  [HeightReference.ELLIPSOIDAL]: "HAE",
+  [HeightReference.MSL]: "MSL",
+  [HeightReference.AGL]: "AGL",
+};
+
+const UNIT_ORDER: PatternUnit[] = ["degrees", "minutes", "seconds"];
+const UNIT_SCALE = [1, 60, 3600];
+
+// Literal | degrees | minutes | seconds | hemisphere | sign | run of other text
+const PATTERN_TOKEN =
+  /\[([^\]]*)\]|(D+)(?:\.(d+))?|(M+)(?:\.(m+))?|(S+)(?:\.(s+))?|(H)|([+-])|([^[DMSH+-]+|\[)/gy;
+
+const compiledPatterns = new Map<string, CompiledPattern>();
+
+function compilePattern(pattern: string): CompiledPattern {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) return cached;
+
+  const invalid = (reason: string) =>
+    new UnrecognizedFormatError(
+      `Invalid coordinate pattern ${JSON.stringify(pattern)}: ${reason}`,
+      { value: pattern }
+    );
+  const tokens: PatternToken[] = [];
+  const decimals: (number | undefined)[] = [];
+  PATTERN_TOKEN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = PATTERN_TOKEN.exec(pattern)) !== null) {
+    const [, quoted, deg, degDec, min, minDec, sec, secDec, hemi, sign, text] = match;
+    if (quoted !== undefined) tokens.push({ type: "literal", text: quoted });
+    else if (hemi) tokens.push({ type: "hemisphere" });
+    else if (sign) tokens.push({ type: "sign", always: sign === "+" });
+    else if (text) tokens.push({ type: "literal", text });
+    else {
+      const unit = deg ? 0 : min ? 1 : 2;
+      if (decimals[unit] !== undefined)
+        throw invalid(`${UNIT_ORDER[unit]} appear more than once`);
+      decimals[unit] = (degDec ?? minDec ?? secDec ?? "").length;
+      tokens.push({ type: "unit", unit, width: (deg ?? min ?? sec).length });
+    }
+  }
+
+  const smallest = decimals.length - 1;
+  if (decimals[0] === undefined) throw invalid("degrees (D) are required");
+  if (decimals.includes(undefined))
+    throw invalid("minutes (M) are required with seconds (S)");
+  if (decimals.slice(0, -1).some((places) => places! > 0))
+    throw invalid("only the smallest unit can have decimals");
+
+  const compiled = { tokens, smallest, decimals: decimals[smallest]! };
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+}
+
+function renderPattern(
+  pattern: CompiledPattern,
+  parts: PatternParts,
+  hemi: Hemisphere,
+  locale: CoordinateLocale | undefined
+): string {
+  const negative = hemi === Hemisphere.S || hemi === Hemisphere.W;
+  let out = "";
+  for (const token of pattern.tokens) {
+    if (token.type === "literal") out += token.text;
+    else if (token.type === "sign") out += negative ? "-" : token.always ? "+" : "";
+    else if (token.type === "hemisphere") {
+      if (locale?.spaceBeforeHemisphere === false) out = out.replace(/ $/, "");
+      out += locale ? locale.hemispheres[hemi] : hemi;
+    } else {
+      const value = parts[UNIT_ORDER[token.unit]] ?? 0;
+      if (token.unit < pattern.smallest) out += String(value).padStart(token.width, "0");
+      else {
+        const places = pattern.decimals;
+        const width = token.width + (places > 0 ? places + 1 : 0);
+        out += formatNumber(value, places, locale).padStart(width, "0");
+      }
+    }
+  }
+  return out;
+}
+
+// Replaces the decimal places in a preset pattern, e.g. "D.ddddd° H" with 2 gives "D.dd° H"
+function withDecimals(pattern: string, decimals: number): string {
+  return pattern.replace(/\.([dms])\1*/, (_, letter: string) =>
+    decimals > 0 ? `.${letter.repeat(decimals)}` : ""
+  );
+}
+
+function resolveOptionalLocale(
+  locale: string | CoordinateLocale | undefined
+): CoordinateLocale | undefined {
+  return locale === undefined ? undefined : resolveLocale(locale);
 }
@@ -0,0 +1,913 @@
+// Geodesics on the ellipsoid. The inverse problem (distance and azimuths
+// between two points) and the direct problem (the point at a distance and
+// azimuth from another) are solved with Karney's algorithms ("Algorithms for
+// geodesics", 2013), ported from GeographicLib with series to sixth order in
+// the flattening: accurate to a few nanometres and convergent everywhere,
+// including nearly antipodal points. Vincenty's formulae (1975) are kept for
+// callers who want to match other software; his inverse returns null where it
+// fails to converge. Oblate ellipsoids (f >= 0) only. Internal to the library.
+
+import { toRadians, toDegrees } from "./helpers";
+import { Ellipsoid } from "../types";
+
+interface InverseResult {
+  distance: number;
+  azimuth1: number;
+  azimuth2: number;
+}
+
+interface DirectResult {
+  lat: number;
+  lon: number;
+  azimuth: number;
+}
+
+interface GeodesicSeries {
+  a: number;
+  f: number;
+  f1: number;
+  ep2: number;
+  n: number;
+  b: number;
+  etol2: number;
+  A3x: number[];
+  C3x: number[];
+}
+
+const ORDER = 6;
+const TINY = Math.sqrt(Number.MIN_VALUE);
+const TOL0 = Number.EPSILON;
+const TOL1 = 200 * TOL0;
+const TOL2 = Math.sqrt(TOL0);
+const TOLB = TOL0 * TOL2;
+const XTHRESH = 1000 * TOL2;
+const MAXIT1 = 20;
+const MAXIT2 = MAXIT1 + 53 + 10;
+
+const VINCENTY_MAX_ITERATIONS = 200;
+const VINCENTY_DIRECT_MAX_ITERATIONS = 100;
+const VINCENTY_TOLERANCE = 1e-12;
+
+// Coefficients of A3 and C3 as polynomials in n, highest power of eps first;
+// each run is the numerator coefficients followed by the denominator
+const A3_COEFFS = [-3, 128, -2, -3, 64, -1, -3, -1, 16, 3, -1, -2, 8, 1, -1, 2, 1, 1];
+const C3_COEFFS = [
+  3, 128, 2, 5, 128, -1, 3, 3, 64, -1, 0, 1, 8, -1, 1, 4,
+  5, 256, 1, 3, 128, -3, -2, 3, 64, 1, -3, 2, 32,
+  7, 512, -10, 9, 384, 5, -9, 5, 192,
+  7, 512, -14, 7, 512,
+  21, 2560,
+];
+const A1_COEFFS = [1, 4, 64, 0, 256];
+const C1_COEFFS = [
+  -1, 6, -16, 32, -9, 64, -128, 2048, 9, -16, 768, 3, -5, 512, -7, 1280, -7, 2048,
+];
+const C1P_COEFFS = [
+  205, -432, 768, 1536, 4005, -4736, 3840, 12288, -225, 116, 384, -7173, 2695, 7680,
+  3467, 7680, 38081, 61440,
+];
+const A2_COEFFS = [-11, -28, -192, 0, 256];
+const C2_COEFFS = [
+  1, 2, 16, 32, 35, 64, 384, 2048, 15, 80, 768, 7, 35, 512, 63, 1280, 77, 2048,
+];
+
+const seriesCache = new Map<string, GeodesicSeries>();
+
+function seriesFor(ellipsoid: Ellipsoid): GeodesicSeries {
+  const key = `${ellipsoid.a}/${ellipsoid.f}`;
+  const cached = seriesCache.get(key);
+  if (cached) return cached;
+
+  const { a, f } = ellipsoid;
+  const f1 = 1 - f;
+  const e2 = f * (2 - f);
+  const n = f / (2 - f);
+
+  const A3x: number[] = [];
+  for (let j = ORDER - 1, o = 0; j >= 0; j--) {
+    const m = Math.min(ORDER - j - 1, j);
+    A3x.push(polyval(m, A3_COEFFS, o, n) / A3_COEFFS[o + m + 1]);
+    o += m + 2;
+  }
+
+  const C3x: number[] = [];
+  for (let l = 1, o = 0; l < ORDER; l++) {
+    for (let j = ORDER - 1; j >= l; j--) {
+      const m = Math.min(ORDER - j - 1, j);
+      C3x.push(polyval(m, C3_COEFFS, o, n) / C3_COEFFS[o + m + 1]);
+      o += m + 2;
+    }
+  }
+
+  const series: GeodesicSeries = {
+    a,
+    f,
+    f1,
+    ep2: e2 / (f1 * f1),
+    n,
+    b: a * f1,
+    etol2: (0.1 * TOL2) / Math.sqrt((Math.max(0.001, Math.abs(f)) * Math.min(1, 1 - f / 2)) / 2),
+    A3x,
+    C3x,
+  };
+  seriesCache.set(key, series);
+  return series;
+}
+
+/**
+ * Solves the inverse geodesic problem with Karney's algorithm.
+ *
+ * Azimuths are in degrees clockwise from north in (-180, 180]; `azimuth2` is
+ * the forward azimuth on arrival at the second point.
+ *
+ * @param lat1 - Latitude of the first point in degrees
+ * @param lon1 - Longitude of the first point in degrees
+ * @param lat2 - Latitude of the second point in degrees
+ * @param lon2 - Longitude of the second point in degrees
+ * @param ellipsoid - Semi-major axis and flattening of the ellipsoid
+ */
+function karneyInverse(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+  ellipsoid: Ellipsoid
+): InverseResult {
+  const g = seriesFor(ellipsoid);
+
+  lat1 = angRound(lat1);
+  lat2 = angRound(lat2);
+
+  // Bring the points to the canonical form 0 <= lon12 <= 180,
+  // lat1 <= -0 and lat1 <= lat2 <= -lat1, recording each reflection
+  let lon12 = angDiff(lon1, lon2);
+  let lonsign = Math.sign(lon12) || (Object.is(lon12, -0) ? -1 : 1);
+  lon12 *= lonsign;
+  const lam12 = toRadians(lon12);
+  const { s: slam12, c: clam12 } = sincosd(lon12);
+  const lon12s = 180 - lon12;
+
+  const swapp = Math.abs(lat1) < Math.abs(lat2) ? -1 : 1;
+  if (swapp < 0) {
+    lonsign *= -1;
+    [lat1, lat2] = [lat2, lat1];
+  }
+  const latsign = lat1 > 0 || Object.is(lat1, 0) ? -1 : 1;
+  lat1 *= latsign;
+  lat2 *= latsign;
+
+  let t = sincosd(lat1);
+  t = norm(g.f1 * t.s, t.c);
+  let sbet1 = t.s;
+  const cbet1 = Math.max(TINY, t.c);
+
+  t = sincosd(lat2);
+  t = norm(g.f1 * t.s, t.c);
+  let sbet2 = t.s;
+  let cbet2 = Math.max(TINY, t.c);
+
+  // Force bet2 = ±bet1 exactly when the difference vanishes
+  if (cbet1 < -sbet1) {
+    if (cbet2 === cbet1) sbet2 = sbet2 < 0 ? sbet1 : -sbet1;
+  } else if (Math.abs(sbet2) === -sbet1) {
+    cbet2 = cbet1;
+  }
+
+  const dn1 = Math.sqrt(1 + g.ep2 * sbet1 * sbet1);
+  const dn2 = Math.sqrt(1 + g.ep2 * sbet2 * sbet2);
+
+  let s12x = 0;
+  let salp1 = 0;
+  let calp1 = 0;
+  let salp2 = 0;
+  let calp2 = 0;
+
+  let meridian = lat1 === -90 || slam12 === 0;
+  if (meridian) {
+    // Both points on one full meridian: head straight for the target longitude
+    calp1 = clam12;
+    salp1 = slam12;
+    calp2 = 1;
+    salp2 = 0;
+
+    const ssig1 = sbet1;
+    const csig1 = calp1 * cbet1;
+    const ssig2 = sbet2;
+    const csig2 = calp2 * cbet2;
+
+    const sig12 = Math.atan2(
+      Math.max(0, csig1 * ssig2 - ssig1 * csig2),
+      csig1 * csig2 + ssig1 * ssig2
+    );
+    const { s12b, m12b } = lengthsFor(g.n, sig12, ssig1, csig1, dn1, ssig2, csig2, dn2);
+
+    // sig12 > pi/2 with m12 < 0 means the meridian is not the shortest path
+    if (sig12 < 1 || m12b >= 0) {
+      const vanishing = sig12 < 3 * TINY || (sig12 < TOL0 && (s12b < 0 || m12b < 0));
+      s12x = vanishing ? 0 : s12b * g.b;
+    } else {
+      meridian = false;
+    }
+  }
+
+  if (!meridian && sbet1 === 0 && (g.f <= 0 || lon12s >= g.f * 180)) {
+    // Geodesic runs along the equator
+    calp1 = calp2 = 0;
+    salp1 = salp2 = 1;
+    s12x = g.a * lam12;
+  } else if (!meridian) {
+    const start = inverseStart(g, sbet1, cbet1, sbet2, cbet2, lam12, slam12, clam12);
+    salp1 = start.salp1;
+    calp1 = start.calp1;
+
+    if (start.sig12 >= 0) {
+      // Short line, solved directly
+      salp2 = start.salp2;
+      calp2 = start.calp2;
+      s12x = start.sig12 * g.b * start.dnm;
+    } else {
+      // Newton's method on lambda12(alp1) - lam12 = 0, falling back to
+      // bisection of the bracket (alp1a, alp1b) when a step goes astray
+      let salp1a = TINY;
+      let calp1a = 1;
+      let salp1b = TINY;
+      let calp1b = -1;
+      let tripn = false;
+      let tripb = false;
+      const solve = (diffp: boolean) =>
+        lambda12(g, sbet1, cbet1, dn1, sbet2, cbet2, dn2, salp1, calp1, slam12, clam12, diffp);
+      let result = solve(true);
+      for (let numit = 0; numit < MAXIT2; numit++) {
+        if (numit > 0) result = solve(numit < MAXIT1);
+        const v = result.lam12;
+        salp2 = result.salp2;
+        calp2 = result.calp2;
+
+        // Reversed test lets NaN escape
+        if (tripb || !(Math.abs(v) >= (tripn ? 8 : 1) * TOL0)) break;
+
+        if (v > 0 && (numit < MAXIT1 || calp1 / salp1 > calp1b / salp1b)) {
+          salp1b = salp1;
+          calp1b = calp1;
+        } else if (v < 0 && (numit < MAXIT1 || calp1 / salp1 < calp1a / salp1a)) {
+          salp1a = salp1;
+          calp1a = calp1;
+        }
+
+        if (numit < MAXIT1 && result.dlam12 > 0) {
+          const dalp1 = -v / result.dlam12;
+          if (Math.abs(dalp1) < Math.PI) {
+            const sdalp1 = Math.sin(dalp1);
+            const cdalp1 = Math.cos(dalp1);
+            const nsalp1 = salp1 * cdalp1 + calp1 * sdalp1;
+            if (nsalp1 > 0) {
+              t = norm(nsalp1, calp1 * cdalp1 - salp1 * sdalp1);
+              salp1 = t.s;
+              calp1 = t.c;
+              // Convergence can be linear where the slope vanishes
+              tripn = Math.abs(v) <= 16 * TOL0;
+              continue;
+            }
+          }
+        }
+
+        t = norm((salp1a + salp1b) / 2, (calp1a + calp1b) / 2);
+        salp1 = t.s;
+        calp1 = t.c;
+        tripn = false;
+        tripb =
+          Math.abs(salp1a - salp1) + (calp1a - calp1) < TOLB ||
+          Math.abs(salp1 - salp1b) + (calp1 - calp1b) < TOLB;
+      }
+
+      const lengths = lengthsFor(
+        result.eps,
+        result.sig12,
+        result.ssig1,
+        result.csig1,
+        dn1,
+        result.ssig2,
+        result.csig2,
+        dn2
+      );
+      s12x = lengths.s12b * g.b;
+    }
+  }
+
+  // Undo the reflections; the leading signs keep the solution reversible
+  if (swapp < 0) {
+    [salp1, salp2] = [salp2, salp1];
+    [calp1, calp2] = [calp2, calp1];
+  }
+  salp1 *= swapp * lonsign;
+  calp1 *= swapp * latsign;
+  salp2 *= swapp * lonsign;
+  calp2 *= swapp * latsign;
+
+  return {
+    distance: 0 + s12x,
+    azimuth1: atan2d(salp1, calp1),
+    azimuth2: atan2d(salp2, calp2),
+  };
+}
+
+/**
+ * Solves the inverse geodesic problem with Vincenty's iteration.
+ *
+ * Agrees with {@link karneyInverse} to well under a millimetre where it
+ * converges, but fails for nearly antipodal points.
+ *
+ * @param lat1 - Latitude of the first point in degrees
+ * @param lon1 - Longitude of the first point in degrees
+ * @param lat2 - Latitude of the second point in degrees
+ * @param lon2 - Longitude of the second point in degrees
+ * @param ellipsoid - Semi-major axis and flattening of the ellipsoid
+ * @returns The solution, or null when the iteration does not converge
+ */
+function vincentyInverse(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+  ellipsoid: Ellipsoid
+): InverseResult | null {
+  const { a, f } = ellipsoid;
+  const b = a * (1 - f);
+  const L = toRadians(angDiff(lon1, lon2));
+  const tanU1 = (1 - f) * Math.tan(toRadians(lat1));
+  const tanU2 = (1 - f) * Math.tan(toRadians(lat2));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const cosU2 = 1 / Math.sqrt(1 + tanU2 * tanU2);
+  const sinU2 = tanU2 * cosU2;
+
+  let lambda = L;
+  let sinLambda = 0;
+  let cosLambda = 1;
+  let sinSigma = 0;
+  let cosSigma = 1;
+  let sigma = 0;
+  let cosSqAlpha = 1;
+  let cos2SigmaM = 0;
+
+  for (let i = 0; ; i++) {
+    if (i === VINCENTY_MAX_ITERATIONS) return null;
+    sinLambda = Math.sin(lambda);
+    cosLambda = Math.cos(lambda);
+    const x = cosU2 * sinLambda;
+    const y = cosU1 * sinU2 - sinU1 * cosU2 * cosLambda;
+    sinSigma = Math.sqrt(x * x + y * y);
+    if (sinSigma === 0) return { distance: 0, azimuth1: 0, azimuth2: 0 };
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    // Equatorial lines have cosSqAlpha = 0
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0;
+    const C = (f / 16) * cosSqAlpha * (4 + f * (4 - 3 * cosSqAlpha));
+    const previous = lambda;
+    lambda =
+      L +
+      (1 - C) *
+        f *
+        sinAlpha *
+        (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+    if (Math.abs(lambda) > Math.PI) return null;
+    if (Math.abs(lambda - previous) <= VINCENTY_TOLERANCE) break;
+  }
+
+  const uSq = (cosSqAlpha * (a * a - b * b)) / (b * b);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma =
+    B *
+    sinSigma *
+    (cos2SigmaM +
+      (B / 4) *
+        (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+          (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+
+  return {
+    distance: b * A * (sigma - deltaSigma),
+    azimuth1: toDegrees(Math.atan2(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda)),
+    azimuth2: toDegrees(Math.atan2(cosU1 * sinLambda, -sinU1 * cosU2 + cosU1 * sinU2 * cosLambda)),
+  };
+}
+
+/**
+ * Solves the direct geodesic problem with Karney's algorithm.
+ *
+ * @param lat1 - Latitude of the start point in degrees
+ * @param lon1 - Longitude of the start point in degrees
+ * @param azi1 - Azimuth at the start point in degrees clockwise from north
+ * @param s12 - Distance to travel in metres; negative goes backwards
+ * @param ellipsoid - Semi-major axis and flattening of the ellipsoid
+ * @returns The end point, its longitude not yet normalised, and the forward azimuth there
+ */
+function karneyDirect(
+  lat1: number,
+  lon1: number,
+  azi1: number,
+  s12: number,
+  ellipsoid: Ellipsoid
+): DirectResult {
+  const g = seriesFor(ellipsoid);
+  const { s: salp1, c: calp1 } = sincosd(angRound(azi1));
+
+  let t = sincosd(angRound(lat1));
+  t = norm(g.f1 * t.s, t.c);
+  const sbet1 = t.s;
+  const cbet1 = Math.max(TINY, t.c);
+
+  // alp0 is the azimuth where the geodesic crosses the equator northwards,
+  // sig1 and omg1 the arc lengths from there on the auxiliary sphere
+  const salp0 = salp1 * cbet1;
+  const calp0 = Math.hypot(calp1, salp1 * sbet1);
+  const somg1 = salp0 * sbet1;
+  const comg1 = sbet1 !== 0 || calp1 !== 0 ? cbet1 * calp1 : 1;
+  t = norm(sbet1, comg1);
+  const ssig1 = t.s;
+  const csig1 = t.c;
+
+  const k2 = calp0 * calp0 * g.ep2;
+  const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+  const eps2 = eps * eps;
+  const A1m1 = (polyval(3, A1_COEFFS, 0, eps2) / A1_COEFFS[4] + eps) / (1 - eps);
+  const C1a = seriesCoefficients(C1_COEFFS, eps);
+  const C1pa = seriesCoefficients(C1P_COEFFS, eps);
+  const C3a = c3f(g, eps);
+  const A3c = -g.f * salp0 * polyval(ORDER - 1, g.A3x, 0, eps);
+
+  const B11 = sinCosSeries(ssig1, csig1, C1a);
+  const stau1 = ssig1 * Math.cos(B11) + csig1 * Math.sin(B11);
+  const ctau1 = csig1 * Math.cos(B11) - ssig1 * Math.sin(B11);
+
+  // Invert the distance series to find the arc length sig12
+  const tau12 = s12 / (g.b * (1 + A1m1));
+  const s = Math.sin(tau12);
+  const c = Math.cos(tau12);
+  const B12 = -sinCosSeries(stau1 * c + ctau1 * s, ctau1 * c - stau1 * s, C1pa);
+  let sig12 = tau12 - (B12 - B11);
+  let ssig12 = Math.sin(sig12);
+  let csig12 = Math.cos(sig12);
+  if (Math.abs(g.f) > 0.01) {
+    // The reverted series loses accuracy here; one Newton step restores it
+    const ssig2 = ssig1 * csig12 + csig1 * ssig12;
+    const csig2 = csig1 * csig12 - ssig1 * ssig12;
+    const serr =
+      (1 + A1m1) * (sig12 + (sinCosSeries(ssig2, csig2, C1a) - B11)) - s12 / g.b;
+    sig12 -= serr / Math.sqrt(1 + k2 * ssig2 * ssig2);
+    ssig12 = Math.sin(sig12);
+    csig12 = Math.cos(sig12);
+  }
+
+  const ssig2 = ssig1 * csig12 + csig1 * ssig12;
+  let csig2 = csig1 * csig12 - ssig1 * ssig12;
+  const sbet2 = calp0 * ssig2;
+  let cbet2 = Math.hypot(salp0, calp0 * csig2);
+  // Meridional line through a pole
+  if (cbet2 === 0) cbet2 = csig2 = TINY;
+
+  const somg2 = salp0 * ssig2;
+  const comg2 = csig2;
+  const omg12 = Math.atan2(somg2 * comg1 - comg2 * somg1, comg2 * comg1 + somg2 * somg1);
+  const lam12 =
+    omg12 + A3c * (sig12 + (sinCosSeries(ssig2, csig2, C3a) - sinCosSeries(ssig1, csig1, C3a)));
+
+  return {
+    lat: atan2d(sbet2, g.f1 * cbet2),
+    lon: lon1 + toDegrees(lam12),
+    azimuth: atan2d(salp0, calp0 * csig2),
+  };
+}
+
+/**
+ * Solves the direct geodesic problem with Vincenty's iteration.
+ *
+ * Unlike his inverse formula this always converges, and agrees with
+ * {@link karneyDirect} to well under a millimetre for terrestrial distances.
+ *
+ * @param lat1 - Latitude of the start point in degrees
+ * @param lon1 - Longitude of the start point in degrees
+ * @param azi1 - Azimuth at the start point in degrees clockwise from north
+ * @param s12 - Distance to travel in metres; negative goes backwards
+ * @param ellipsoid - Semi-major axis and flattening of the ellipsoid
+ * @returns The end point, its longitude not yet normalised, and the forward azimuth there
+ */
+function vincentyDirect(
+  lat1: number,
+  lon1: number,
+  azi1: number,
+  s12: number,
+  ellipsoid: Ellipsoid
+): DirectResult {
+  const { a, f } = ellipsoid;
+  const b = a * (1 - f);
+  const sinAlpha1 = Math.sin(toRadians(azi1));
+  const cosAlpha1 = Math.cos(toRadians(azi1));
+  const tanU1 = (1 - f) * Math.tan(toRadians(lat1));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+
+  const sigma1 = Math.atan2(tanU1, cosAlpha1);
+  const sinAlpha = cosU1 * sinAlpha1;
+  const cosSqAlpha = 1 - sinAlpha * sinAlpha;
+  const uSq = (cosSqAlpha * (a * a - b * b)) / (b * b);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+
+  let sigma = s12 / (b * A);
+  let sinSigma = 0;
+  let cosSigma = 1;
+  let cos2SigmaM = 0;
+  for (let i = 0; i < VINCENTY_DIRECT_MAX_ITERATIONS; i++) {
+    cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+    sinSigma = Math.sin(sigma);
+    cosSigma = Math.cos(sigma);
+    const deltaSigma =
+      B *
+      sinSigma *
+      (cos2SigmaM +
+        (B / 4) *
+          (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+            (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+    const previous = sigma;
+    sigma = s12 / (b * A) + deltaSigma;
+    if (Math.abs(sigma - previous) <= VINCENTY_TOLERANCE) break;
+  }
+  sinSigma = Math.sin(sigma);
+  cosSigma = Math.cos(sigma);
+  cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+
+  const x = sinU1 * sinSigma - cosU1 * cosSigma * cosAlpha1;
+  const lat2 = Math.atan2(
+    sinU1 * cosSigma + cosU1 * sinSigma * cosAlpha1,
+    (1 - f) * Math.sqrt(sinAlpha * sinAlpha + x * x)
+  );
+  const lambda = Math.atan2(sinSigma * sinAlpha1, cosU1 * cosSigma - sinU1 * sinSigma * cosAlpha1);
+  const C = (f / 16) * cosSqAlpha * (4 + f * (4 - 3 * cosSqAlpha));
+  const L =
+    lambda -
+    (1 - C) *
+      f *
+      sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+  return {
+    lat: toDegrees(lat2),
+    lon: lon1 + toDegrees(L),
+    azimuth: toDegrees(Math.atan2(sinAlpha, -x)),
+  };
+}
+
+// ============================================================================
+// Karney's auxiliary routines
+// ============================================================================
+
+// Starting guess for alp1; also solves short lines outright (sig12 >= 0)
+function inverseStart(
+  g: GeodesicSeries,
+  sbet1: number,
+  cbet1: number,
+  sbet2: number,
+  cbet2: number,
+  lam12: number,
+  slam12: number,
+  clam12: number
+): { sig12: number; salp1: number; calp1: number; salp2: number; calp2: number; dnm: number } {
+  const sbet12 = sbet2 * cbet1 - cbet2 * sbet1;
+  const cbet12 = cbet2 * cbet1 + sbet2 * sbet1;
+  const sbet12a = sbet2 * cbet1 + cbet2 * sbet1;
+
+  let sig12 = -1;
+  let salp2 = 0;
+  let calp2 = 0;
+  let dnm = 1;
+  let somg12: number;
+  let comg12: number;
+
+  const shortline = cbet12 >= 0 && sbet12 < 0.5 && cbet2 * lam12 < 0.5;
+  if (shortline) {
+    let sbetm2 = (sbet1 + sbet2) ** 2;
+    sbetm2 /= sbetm2 + (cbet1 + cbet2) ** 2;
+    dnm = Math.sqrt(1 + g.ep2 * sbetm2);
+    const omg12 = lam12 / (g.f1 * dnm);
+    somg12 = Math.sin(omg12);
+    comg12 = Math.cos(omg12);
+  } else {
+    somg12 = slam12;
+    comg12 = clam12;
+  }
+
+  let salp1 = cbet2 * somg12;
+  let calp1 =
+    comg12 >= 0
+      ? sbet12 + (cbet2 * sbet1 * somg12 * somg12) / (1 + comg12)
+      : sbet12a - (cbet2 * sbet1 * somg12 * somg12) / (1 - comg12);
+
+  const ssig12 = Math.hypot(salp1, calp1);
+  const csig12 = sbet1 * sbet2 + cbet1 * cbet2 * comg12;
+
+  if (shortline && ssig12 < g.etol2) {
+    const t = norm(
+      cbet1 * somg12,
+      sbet12 - cbet1 * sbet2 * (comg12 >= 0 ? (somg12 * somg12) / (1 + comg12) : 1 - comg12)
+    );
+    salp2 = t.s;
+    calp2 = t.c;
+    sig12 = Math.atan2(ssig12, csig12);
+  } else if (
+    Math.abs(g.n) > 0.1 ||
+    csig12 >= 0 ||
+    ssig12 >= 6 * Math.abs(g.n) * Math.PI * cbet1 * cbet1
+  ) {
+    // The spherical estimate is good enough
+  } else {
+    // Nearly antipodal: scale to coordinates where the antipode is the
+    // origin and estimate alp1 from the astroid problem
+    const lam12x = Math.atan2(-slam12, -clam12);
+    const k2 = sbet1 * sbet1 * g.ep2;
+    const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+    const lamscale = g.f * cbet1 * polyval(ORDER - 1, g.A3x, 0, eps) * Math.PI;
+    const betscale = lamscale * cbet1;
+    const x = lam12x / lamscale;
+    const y = sbet12a / betscale;
+
+    if (y > -TOL1 && x > -1 - XTHRESH) {
+      salp1 = Math.min(1, -x);
+      calp1 = -Math.sqrt(1 - salp1 * salp1);
+    } else {
+      const k = astroid(x, y);
+      const omg12a = lamscale * ((-x * k) / (1 + k));
+      somg12 = Math.sin(omg12a);
+      comg12 = -Math.cos(omg12a);
+      salp1 = cbet2 * somg12;
+      calp1 = sbet12a - (cbet2 * sbet1 * somg12 * somg12) / (1 - comg12);
+    }
+  }
+
+  // Backwards test lets NaN through to the normalisation
+  if (!(salp1 <= 0)) {
+    const t = norm(salp1, calp1);
+    salp1 = t.s;
+    calp1 = t.c;
+  } else {
+    salp1 = 1;
+    calp1 = 0;
+  }
+  return { sig12, salp1, calp1, salp2, calp2, dnm };
+}
+
+// Longitude difference reached by starting at azimuth alp1, less lam12,
+// and (when diffp) its derivative with respect to alp1
+function lambda12(
+  g: GeodesicSeries,
+  sbet1: number,
+  cbet1: number,
+  dn1: number,
+  sbet2: number,
+  cbet2: number,
+  dn2: number,
+  salp1: number,
+  calp1: number,
+  slam120: number,
+  clam120: number,
+  diffp: boolean
+) {
+  // Break the degeneracy of equatorial lines
+  if (sbet1 === 0 && calp1 === 0) calp1 = -TINY;
+
+  const salp0 = salp1 * cbet1;
+  const calp0 = Math.hypot(calp1, salp1 * sbet1);
+
+  const somg1 = salp0 * sbet1;
+  const comg1 = calp1 * cbet1;
+  let t = norm(sbet1, comg1);
+  const ssig1 = t.s;
+  const csig1 = t.c;
+
+  // Enforce symmetries when |bet2| = -bet1
+  const salp2 = cbet2 !== cbet1 ? salp0 / cbet2 : salp1;
+  const calp2 =
+    cbet2 !== cbet1 || Math.abs(sbet2) !== -sbet1
+      ? Math.sqrt(
+          (calp1 * cbet1) ** 2 +
+            (cbet1 < -sbet1 ? (cbet2 - cbet1) * (cbet1 + cbet2) : (sbet1 - sbet2) * (sbet1 + sbet2))
+        ) / cbet2
+      : Math.abs(calp1);
+
+  const somg2 = salp0 * sbet2;
+  const comg2 = calp2 * cbet2;
+  t = norm(sbet2, comg2);
+  const ssig2 = t.s;
+  const csig2 = t.c;
+
+  const sig12 = Math.atan2(
+    Math.max(0, csig1 * ssig2 - ssig1 * csig2),
+    csig1 * csig2 + ssig1 * ssig2
+  );
+  const somg12 = Math.max(0, comg1 * somg2 - somg1 * comg2);
+  const comg12 = comg1 * comg2 + somg1 * somg2;
+  const eta = Math.atan2(
+    somg12 * clam120 - comg12 * slam120,
+    comg12 * clam120 + somg12 * slam120
+  );
+
+  const k2 = calp0 * calp0 * g.ep2;
+  const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+  const C3a = c3f(g, eps);
+  const B312 = sinCosSeries(ssig2, csig2, C3a) - sinCosSeries(ssig1, csig1, C3a);
+  const domg12 = -g.f * polyval(ORDER - 1, g.A3x, 0, eps) * salp0 * (sig12 + B312);
+
+  let dlam12 = 0;
+  if (diffp) {
+    if (calp2 === 0) {
+      dlam12 = (-2 * g.f1 * dn1) / sbet1;
+    } else {
+      const { m12b } = lengthsFor(eps, sig12, ssig1, csig1, dn1, ssig2, csig2, dn2);
+      dlam12 = (m12b * g.f1) / (calp2 * cbet2);
+    }
+  }
+
+  return { lam12: eta + domg12, dlam12, salp2, calp2, sig12, ssig1, csig1, ssig2, csig2, eps };
+}
+
+// Distance (s12b) and reduced length (m12b) along the geodesic, in units of b
+function lengthsFor(
+  eps: number,
+  sig12: number,
+  ssig1: number,
+  csig1: number,
+  dn1: number,
+  ssig2: number,
+  csig2: number,
+  dn2: number
+): { s12b: number; m12b: number } {
+  const eps2 = eps * eps;
+  const A1m1 = (polyval(3, A1_COEFFS, 0, eps2) / A1_COEFFS[4] + eps) / (1 - eps);
+  const A2m1 = (polyval(3, A2_COEFFS, 0, eps2) / A2_COEFFS[4] - eps) / (1 + eps);
+  const C1a = seriesCoefficients(C1_COEFFS, eps);
+  const C2a = seriesCoefficients(C2_COEFFS, eps);
+
+  const A1 = 1 + A1m1;
+  const A2 = 1 + A2m1;
+  const B1 = sinCosSeries(ssig2, csig2, C1a) - sinCosSeries(ssig1, csig1, C1a);
+  const B2 = sinCosSeries(ssig2, csig2, C2a) - sinCosSeries(ssig1, csig1, C2a);
+  const J12 = (A1m1 - A2m1) * sig12 + (A1 * B1 - A2 * B2);
+
+  return {
+    s12b: A1 * (sig12 + B1),
+    // Parenthesised products cancel exactly for coincident points
+    m12b: dn2 * (csig1 * ssig2) - dn1 * (ssig1 * csig2) - csig1 * csig2 * J12,
+  };
+}
+
+// C1 or C2 coefficients for a given eps; index 0 is unused
+function seriesCoefficients(coeffs: number[], eps: number): number[] {
+  const eps2 = eps * eps;
+  const c = [0];
+  let d = eps;
+  for (let l = 1, o = 0; l <= ORDER; l++) {
+    const m = Math.floor((ORDER - l) / 2);
+    c.push((d * polyval(m, coeffs, o, eps2)) / coeffs[o + m + 1]);
+    o += m + 2;
+    d *= eps;
+  }
+  return c;
+}
+
+// C3 coefficients for a given eps; index 0 is unused
+function c3f(g: GeodesicSeries, eps: number): number[] {
+  const c = [0];
+  let mult = 1;
+  for (let l = 1, o = 0; l < ORDER; l++) {
+    const m = ORDER - l - 1;
+    mult *= eps;
+    c.push(mult * polyval(m, g.C3x, o, eps));
+    o += m + 1;
+  }
+  return c;
+}
+
+// Positive root k of k^4 + 2k^3 - (x^2 + y^2 - 1)k^2 - 2y^2 k - y^2 = 0
+function astroid(x: number, y: number): number {
+  const p = x * x;
+  const q = y * y;
+  const r = (p + q - 1) / 6;
+  if (q === 0 && r <= 0) return 0;
+
+  const S = (p * q) / 4;
+  const r2 = r * r;
+  const r3 = r * r2;
+  const disc = S * (S + 2 * r3);
+  let u = r;
+  if (disc >= 0) {
+    let T3 = S + r3;
+    T3 += T3 < 0 ? -Math.sqrt(disc) : Math.sqrt(disc);
+    const T = Math.cbrt(T3);
+    u += T + (T !== 0 ? r2 / T : 0);
+  } else {
+    const ang = Math.atan2(Math.sqrt(-disc), -(S + r3));
+    u += 2 * r * Math.cos(ang / 3);
+  }
+  const v = Math.sqrt(u * u + q);
+  const uv = u < 0 ? q / (v - u) : u + v;
+  const w = (uv - q) / (2 * v);
+  return uv / (Math.sqrt(uv + w * w) + w);
+}
+
+// Clenshaw summation of sum(c[i] * sin(2i * x), i = 1..n)
+function sinCosSeries(sinx: number, cosx: number, c: number[]): number {
+  let k = c.length;
+  let n = k - 1;
+  const ar = 2 * (cosx - sinx) * (cosx + sinx);
+  let y0 = n & 1 ? c[--k] : 0;
+  let y1 = 0;
+  n = Math.floor(n / 2);
+  while (n--) {
+    y1 = ar * y0 - y1 + c[--k];
+    y0 = ar * y1 - y0 + c[--k];
+  }
+  return 2 * sinx * cosx * y0;
+}
+
+// Horner evaluation of the degree-n polynomial stored at p[s..s+n]
+function polyval(n: number, p: number[], s: number, x: number): number {
+  let y = n < 0 ? 0 : p[s++];
+  while (--n >= 0) y = y * x + p[s++];
+  return y;
+}
+
+function norm(x: number, y: number): { s: number; c: number } {
+  const r = Math.hypot(x, y);
+  return { s: x / r, c: y / r };
+}
+
+// Rounds tiny angles to zero so points very near the equator are treated as on it
+function angRound(x: number): number {
+  const z = 1 / 16;
+  const y = Math.abs(x);
+  const w = z - y;
+  return Math.sign(x) * (w > 0 ? z - w : y);
+}
+
+// lon2 - lon1 reduced to [-180, 180]
+function angDiff(lon1: number, lon2: number): number {
+  let d = (lon2 - lon1) % 360;
+  if (d > 180) d -= 360;
+  else if (d < -180) d += 360;
+  return d;
+}
+
+// Sine and cosine of an angle in degrees, exact at multiples of 90°
+function sincosd(x: number): { s: number; c: number } {
+  let d = x % 360;
+  const q = Math.round(d / 90);
+  d -= 90 * q;
+  const r = toRadians(d);
+  const s = Math.sin(r);
+  const c = Math.cos(r);
+  switch (q & 3) {
+    case 0:
+      return { s, c: c + 0 };
+    case 1:
+      return { s: c, c: 0 - s };
+    case 2:
+      return { s: -s, c: 0 - c };
+    default:
+      return { s: -c, c: s + 0 };
+  }
+}
+
+// atan2 in degrees, exact at multiples of 90°
+function atan2d(y: number, x: number): number {
+  let q = 0;
+  if (Math.abs(y) > Math.abs(x)) {
+    [x, y] = [y, x];
+    q = 2;
+  }
+  if (x < 0 || Object.is(x, -0)) {
+    x = -x;
+    q++;
+  }
+  const ang = toDegrees(Math.atan2(y, x));
+  switch (q) {
+    case 1:
+      return (y < 0 || Object.is(y, -0) ? -180 : 180) - ang;
+    case 2:
+      return 90 - ang;
+    case 3:
+      return -90 + ang;
+    default:
+      return ang;
+  }
+}
+
+export {
+  InverseResult,
+  DirectResult,
+  karneyInverse,
+  vincentyInverse,
+  karneyDirect,
+  vincentyDirect,
+};
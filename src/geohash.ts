@@ -0,0 +1,349 @@
+import { ensureFinite, validateRange } from "./helpers";
+import { OutOfRangeError, UnrecognizedFormatError } from "./errors";
+import {
+  CoordinateType,
+  DD,
+  BoundingBox,
+  GeohashCell,
+  GeohashNeighbors,
+} from "../types";
+import { GEOHASH_CONSTANTS, PRECISION_DEFAULTS } from "../data";
+
+/**
+ * Encodes a pair of Decimal Degrees (DD) as a geohash.
+ *
+ * @param latDD - The latitude DD object
+ * @param lonDD - The longitude DD object
+ * @param precision - Number of geohash characters, 1–12 (default: PRECISION_DEFAULTS.GEOHASH_PRECISION)
+ * @returns The geohash string (lowercase)
+ *
+ * @throws {InvalidNumberError} When either coordinate is not a finite number
+ * @throws {OutOfRangeError} When either coordinate is out of range or the precision is unsupported
+ *
+ * @example
+ * ```typescript
+ * const latDD = { kind: CoordinateType.LAT, degrees: 57.64911 };
+ * const lonDD = { kind: CoordinateType.LON, degrees: 10.40744 };
+ * ddPairToGeohash(latDD, lonDD, 11);  // "u4pruydqqvj"
+ * ```
+ */
+function ddPairToGeohash(
+  latDD: DD,
+  lonDD: DD,
+  precision = PRECISION_DEFAULTS.GEOHASH_PRECISION
+): string {
+  const lat = ensureFinite(latDD.degrees, "latitude", { kind: CoordinateType.LAT });
+  const lon = ensureFinite(lonDD.degrees, "longitude", { kind: CoordinateType.LON });
+  validateRange(CoordinateType.LAT, lat);
+  validateRange(CoordinateType.LON, lon);
+  validatePrecision(precision);
+  return encode(lat, lon, precision);
+}
+
+/**
+ * Decodes a geohash into the centre of its cell and the cell's half-size.
+ *
+ * The error pair gives the maximum distance from the centre to the cell edge
+ * in degrees of latitude and longitude, so the true position lies within
+ * `center ± error`.
+ *
+ * @param hash - The geohash string (case-insensitive)
+ * @returns A GeohashCell with `center` and `error` as [latitude, longitude] DD pairs
+ *
+ * @throws {UnrecognizedFormatError} When the geohash is empty or contains invalid characters
+ *
+ * @example
+ * ```typescript
+ * geohashToDDPair("u4pruydqqvj");
+ * // {
+ * //   center: [{ kind: "lat", degrees: 57.649111 }, { kind: "lon", degrees: 10.407439 }],
+ * //   error:  [{ kind: "lat", degrees: 0.0000007 }, { kind: "lon", degrees: 0.0000007 }]
+ * // }
+ * ```
+ */
+function geohashToDDPair(hash: string): GeohashCell {
+  const { latMin, latMax, lonMin, lonMax } = decodeBounds(hash);
+  return {
+    center: [
+      { kind: CoordinateType.LAT, degrees: (latMin + latMax) / 2 },
+      { kind: CoordinateType.LON, degrees: (lonMin + lonMax) / 2 },
+    ],
+    error: [
+      { kind: CoordinateType.LAT, degrees: (latMax - latMin) / 2 },
+      { kind: CoordinateType.LON, degrees: (lonMax - lonMin) / 2 },
+    ],
+  };
+}
+
+/**
+ * Returns the south-west and north-east corners of a geohash cell.
+ *
+ * @param hash - The geohash string (case-insensitive)
+ * @returns A BoundingBox with `sw` and `ne` as [latitude, longitude] DD pairs
+ *
+ * @throws {UnrecognizedFormatError} When the geohash is empty or contains invalid characters
+ *
+ * @example
+ * ```typescript
+ * geohashBounds("u4");
+ * // { sw: [{ kind: "lat", degrees: 56.25 }, { kind: "lon", degrees: 0 }],
+ * //   ne: [{ kind: "lat", degrees: 61.875 }, { kind: "lon", degrees: 11.25 }] }
+ * ```
+ */
+function geohashBounds(hash: string): BoundingBox {
+  const { latMin, latMax, lonMin, lonMax } = decodeBounds(hash);
+  return {
+    sw: [
+      { kind: CoordinateType.LAT, degrees: latMin },
+      { kind: CoordinateType.LON, degrees: lonMin },
+    ],
+    ne: [
+      { kind: CoordinateType.LAT, degrees: latMax },
+      { kind: CoordinateType.LON, degrees: lonMax },
+    ],
+  };
+}
+
+/**
+ * Returns the eight geohashes surrounding a cell, at the same precision.
+ *
+ * East and west wrap across the antimeridian. Cells on the northern or
+ * southern edge of the world have no neighbour beyond the pole, so those
+ * directions are `null`.
+ *
+ * @param hash - The geohash string (case-insensitive)
+ * @returns A GeohashNeighbors object keyed by compass direction
+ *
+ * @throws {UnrecognizedFormatError} When the geohash is empty or contains invalid characters
+ *
+ * @example
+ * ```typescript
+ * geohashNeighbors("dqcjq");
+ * // { n: "dqcjw", ne: "dqcjx", e: "dqcjr", se: "dqcjp",
+ * //   s: "dqcjn", sw: "dqcjj", w: "dqcjm", nw: "dqcjt" }
+ * ```
+ */
+function geohashNeighbors(hash: string): GeohashNeighbors {
+  const { latMin, latMax, lonMin, lonMax } = decodeBounds(hash);
+  const latSpan = latMax - latMin;
+  const lonSpan = lonMax - lonMin;
+  const latCenter = (latMin + latMax) / 2;
+  const lonCenter = (lonMin + lonMax) / 2;
+  const precision = hash.length;
+
+  // East and west always exist: longitude wraps at the antimeridian
+  const sideways = (lat: number, dLon: number): string =>
+    encode(lat, wrapLongitude(lonCenter + dLon * lonSpan), precision);
+  // North and south run out past the poles
+  const adjacent = (dLat: number, dLon: number): string | null => {
+    const lat = latCenter + dLat * latSpan;
+    if (lat > 90 || lat < -90) return null;
+    return sideways(lat, dLon);
+  };
+
+  return {
+    n: adjacent(1, 0),
+    ne: adjacent(1, 1),
+    e: sideways(latCenter, 1),
+    se: adjacent(-1, 1),
+    s: adjacent(-1, 0),
+    sw: adjacent(-1, -1),
+    w: sideways(latCenter, -1),
+    nw: adjacent(1, -1),
+  };
+}
+
+/**
+ * Lists the geohashes at a given precision that cover a bounding box.
+ *
+ * A box whose south-west longitude is greater than its north-east longitude
+ * is taken to cross the antimeridian. Useful for proximity queries against a
+ * store indexed by geohash prefix.
+ *
+ * @param bounds - The area to cover, as `sw` and `ne` [latitude, longitude] DD pairs
+ * @param precision - Number of geohash characters, 1–12 (default: PRECISION_DEFAULTS.GEOHASH_PRECISION)
+ * @returns The covering geohashes, ordered south to north then west to east
+ *
+ * @throws {InvalidNumberError} When a corner is not a finite number
+ * @throws {OutOfRangeError} When the bounds are invalid, the precision is unsupported, or the cover would exceed GEOHASH_CONSTANTS.MAX_COVER_CELLS cells
+ *
+ * @example
+ * ```typescript
+ * const bounds = geohashBounds("u4pr");
+ * geohashesInBounds(bounds, 4);  // ["u4pr"]
+ * geohashesInBounds(bounds, 5).length;  // 32
+ * ```
+ */
+function geohashesInBounds(
+  bounds: BoundingBox,
+  precision = PRECISION_DEFAULTS.GEOHASH_PRECISION
+): string[] {
+  validatePrecision(precision);
+  const lat = { kind: CoordinateType.LAT };
+  const lon = { kind: CoordinateType.LON };
+  const swLat = ensureFinite(bounds.sw[0].degrees, "latitude", lat);
+  const swLon = ensureFinite(bounds.sw[1].degrees, "longitude", lon);
+  const neLat = ensureFinite(bounds.ne[0].degrees, "latitude", lat);
+  const neLon = ensureFinite(bounds.ne[1].degrees, "longitude", lon);
+  validateRange(CoordinateType.LAT, swLat);
+  validateRange(CoordinateType.LON, swLon);
+  validateRange(CoordinateType.LAT, neLat);
+  validateRange(CoordinateType.LON, neLon);
+  if (swLat > neLat)
+    throw new OutOfRangeError(
+      `Bounding box south edge (${swLat}) must not be north of its north edge (${neLat})`,
+      { value: swLat, kind: CoordinateType.LAT }
+    );
+
+  const { latSpan, lonSpan, latCells, lonCells } = cellSize(precision);
+  const crossesAntimeridian = neLon < swLon;
+  const eastLon = crossesAntimeridian ? neLon + 360 : neLon;
+
+  // The south/west edges are inclusive and the north/east edges exclusive,
+  // so a box that exactly matches a cell is covered by that cell alone.
+  const firstCell = (edge: number, span: number, cells: number) =>
+    Math.min(Math.floor(edge / span), cells - 1);
+  const lastCell = (edge: number, span: number, first: number) =>
+    Math.max(Math.ceil(edge / span) - 1, first);
+  const latStart = firstCell(swLat + 90, latSpan, latCells);
+  const latEnd = Math.min(lastCell(neLat + 90, latSpan, latStart), latCells - 1);
+  const lonStart = firstCell(swLon + 180, lonSpan, lonCells);
+  const lonEnd = Math.min(
+    lastCell(eastLon + 180, lonSpan, lonStart),
+    crossesAntimeridian ? 2 * lonCells - 1 : lonCells - 1
+  );
+  const count = (latEnd - latStart + 1) * (lonEnd - lonStart + 1);
+  if (count > GEOHASH_CONSTANTS.MAX_COVER_CELLS)
+    throw new OutOfRangeError(
+      `Bounding box needs ${count} geohashes at precision ${precision} (limit ${GEOHASH_CONSTANTS.MAX_COVER_CELLS})`,
+      { value: count }
+    );
+
+  const hashes = new Set<string>();
+  for (let i = latStart; i <= latEnd; i++) {
+    const lat = -90 + (i + 0.5) * latSpan;
+    for (let j = lonStart; j <= lonEnd; j++) {
+      const lon = wrapLongitude(-180 + (j + 0.5) * lonSpan);
+      hashes.add(encode(lat, lon, precision));
+    }
+  }
+  return [...hashes];
+}
+
+function encode(lat: number, lon: number, precision: number): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lonMin = -180;
+  let lonMax = 180;
+  let hash = "";
+  let bits = 0;
+  let index = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lonMin + lonMax) / 2;
+      if (lon >= mid) {
+        index = index * 2 + 1;
+        lonMin = mid;
+      } else {
+        index = index * 2;
+        lonMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        index = index * 2 + 1;
+        latMin = mid;
+      } else {
+        index = index * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += GEOHASH_CONSTANTS.BASE32[index];
+      bits = 0;
+      index = 0;
+    }
+  }
+  return hash;
+}
+
+function decodeBounds(hash: string): {
+  latMin: number;
+  latMax: number;
+  lonMin: number;
+  lonMax: number;
+} {
+  if (typeof hash !== "string" || hash.length === 0)
+    throw new UnrecognizedFormatError(`Invalid geohash: ${JSON.stringify(hash)}`, {
+      value: hash,
+    });
+
+  let latMin = -90;
+  let latMax = 90;
+  let lonMin = -180;
+  let lonMax = 180;
+  let evenBit = true;
+
+  for (const char of hash.toLowerCase()) {
+    const index = GEOHASH_CONSTANTS.BASE32.indexOf(char);
+    if (index < 0)
+      throw new UnrecognizedFormatError(
+        `Invalid geohash character ${JSON.stringify(char)} in ${JSON.stringify(hash)}`,
+        { value: hash }
+      );
+    for (let n = 4; n >= 0; n--) {
+      const bit = (index >> n) & 1;
+      if (evenBit) {
+        const mid = (lonMin + lonMax) / 2;
+        if (bit === 1) lonMin = mid;
+        else lonMax = mid;
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (bit === 1) latMin = mid;
+        else latMax = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+  return { latMin, latMax, lonMin, lonMax };
+}
+
+// Longitude takes the extra bit when 5 × precision is odd
+function cellSize(precision: number): {
+  latSpan: number;
+  lonSpan: number;
+  latCells: number;
+  lonCells: number;
+} {
+  const latCells = 2 ** Math.floor((precision * 5) / 2);
+  const lonCells = 2 ** Math.ceil((precision * 5) / 2);
+  return { latSpan: 180 / latCells, lonSpan: 360 / lonCells, latCells, lonCells };
+}
+
+function wrapLongitude(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+function validatePrecision(precision: number) {
+  if (
+    !Number.isInteger(precision) ||
+    precision < 1 ||
+    precision > GEOHASH_CONSTANTS.MAX_PRECISION
+  )
+    throw new OutOfRangeError(
+      `Geohash precision must be an integer in [1, ${GEOHASH_CONSTANTS.MAX_PRECISION}] (got ${precision})`,
+      { value: precision }
+    );
+}
+
+export {
+  ddPairToGeohash,
+  geohashToDDPair,
+  geohashBounds,
+  geohashNeighbors,
+  geohashesInBounds,
+};
@@ -0,0 +1,128 @@
+import { ensureFinite } from "./helpers";
+import { UnrecognizedFormatError } from "./errors";
+import { resolveLocale } from "./locale";
+import { CoordinateLocale, Height, HeightReference, HeightUnit } from "../types";
+import { HEIGHT_UNIT_METERS } from "../data";
+
+// Heights travel as a third element next to a latitude/longitude pair. The
+// value keeps the unit it was given in, and the reference says what it is
+// measured from: the ellipsoid, mean sea level, or the ground.
+
+const UNIT_WORDS: Record<string, HeightUnit> = {
+  M: HeightUnit.METERS,
+  METER: HeightUnit.METERS,
+  METERS: HeightUnit.METERS,
+  METRE: HeightUnit.METERS,
+  METRES: HeightUnit.METERS,
+  FT: HeightUnit.FEET,
+  FOOT: HeightUnit.FEET,
+  FEET: HeightUnit.FEET,
+};
+
+const REFERENCE_WORDS: Record<string, HeightReference> = {
+  ELLIPSOIDAL: HeightReference.ELLIPSOIDAL,
+  HAE: HeightReference.ELLIPSOIDAL,
+  MSL: HeightReference.MSL,
+  AMSL: HeightReference.MSL,
+  AGL: HeightReference.AGL,
+};
+
+/**
+ * Parses a height such as "120m", "394 ft MSL" or "-12.5 m HAE".
+ *
+ * The number may be followed by a unit (`m`, `metres`, `ft`, `feet`, ...)
+ * and then a reference: `HAE` or `ellipsoidal` for height above the
+ * ellipsoid, `MSL` or `AMSL` for mean sea level, `AGL` for above ground
+ * level. Words are case-insensitive. A bare number, or a number input,
+ * takes `opts.unit` and `opts.reference`.
+ *
+ * @param input - The height (string or number)
+ * @param opts - Optional parsing options
+ * @param opts.unit - The unit when the input names none (default: HeightUnit.METERS)
+ * @param opts.reference - The reference when the input names none (default: none)
+ * @param opts.locale - Language tag or CoordinateLocale for the decimal separator (default: ".")
+ * @returns The height
+ *
+ * @throws {InvalidNumberError} When the value is not a finite number
+ * @throws {UnrecognizedFormatError} When the text is not a number followed by an optional unit and reference
+ *
+ * @example
+ * ```typescript
+ * parseHeight("120m");          // { value: 120, unit: "m" }
+ * parseHeight("394 ft MSL");    // { value: 394, unit: "ft", reference: "msl" }
+ * parseHeight(35, { reference: HeightReference.AGL });  // { value: 35, unit: "m", reference: "agl" }
+ * parseHeight("12,5 m", { locale: "fr" });              // { value: 12.5, unit: "m" }
+ * ```
+ */
+function parseHeight(
+  input: string | number,
+  opts?: {
+    unit?: HeightUnit;
+    reference?: HeightReference;
+    locale?: string | CoordinateLocale;
+  }
+): Height {
+  if (typeof input === "number") return withDefaults(ensureFinite(input, "height"), opts);
+  if (typeof input !== "string")
+    throw new UnrecognizedFormatError(`Unsupported input type: ${typeof input}`, {
+      value: input,
+    });
+
+  const separator =
+    opts?.locale === undefined ? "." : resolveLocale(opts.locale).decimalSeparator;
+  const [number, ...words] = input.trim().split(/\s+|(?<=\d)(?=[a-z])/i);
+  if (!/\d/.test(number))
+    throw new UnrecognizedFormatError(`Unrecognized height: ${JSON.stringify(input)}`, {
+      value: input,
+    });
+  const value = ensureFinite(number.replace(separator, "."), "height");
+
+  let unit = opts?.unit;
+  let reference = opts?.reference;
+  let next = words.shift();
+  if (next !== undefined && next.toUpperCase() in UNIT_WORDS) {
+    unit = UNIT_WORDS[next.toUpperCase()];
+    next = words.shift();
+  }
+  if (next !== undefined && next.toUpperCase() in REFERENCE_WORDS) {
+    reference = REFERENCE_WORDS[next.toUpperCase()];
+    next = words.shift();
+  }
+  if (next !== undefined)
+    throw new UnrecognizedFormatError(
+      `Unrecognized height unit or reference ${JSON.stringify(next)} in ${JSON.stringify(input)}`,
+      { value: input }
+    );
+  return withDefaults(value, { unit, reference });
+}
+
+// Builds a Height, leaving `reference` off when there is none
+function withDefaults(
+  value: number,
+  opts?: { unit?: HeightUnit; reference?: HeightReference }
+): Height {
+  const height: Height = { value, unit: opts?.unit ?? HeightUnit.METERS };
+  if (opts?.reference !== undefined) height.reference = opts.reference;
+  return height;
+}
+
+/**
+ * Converts a height to another unit, keeping its reference.
+ *
+ * @param height - The height to convert
+ * @param unit - The unit to convert to
+ * @returns The height in `unit`
+ *
+ * @example
+ * ```typescript
+ * convertHeight({ value: 1000, unit: HeightUnit.FEET }, HeightUnit.METERS);
+ * // { value: 304.8, unit: "m" }
+ * ```
+ */
+function convertHeight(height: Height, unit: HeightUnit): Height {
+  if (height.unit === unit) return { ...height };
+  const meters = ensureFinite(height.value, "height") * HEIGHT_UNIT_METERS[height.unit];
+  return { ...height, value: meters / HEIGHT_UNIT_METERS[unit], unit };
+}
+
+export { parseHeight, convertHeight };
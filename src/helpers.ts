@@ -1,4 +1,13 @@
-import { CoordinateType, Hemisphere } from "../types";
+import { InvalidNumberError, OutOfRangeError, UnsupportedInputError } from "./errors";
+import {
+  CoordinateType,
+  Hemisphere,
+  CoordinateErrorDetails,
+  DD,
+  Datum,
+  Height,
+  InputSpan,
+} from "../types";
 import { DEG_MAX } from "../data";
 
 /**
@@ -83,25 +92,33 @@ function clampDegrees(kind: CoordinateType, deg: number): number {
  *
  * @param n - The value to validate (string or number)
  * @param label - Optional label for error messages (default: "number")
+ * @param context - Optional coordinate kind and input span to attach to the error
  * @returns The validated finite number
  *
- * @throws {Error} When the value cannot be converted to a finite number
+ * @throws {InvalidNumberError} When the value cannot be converted to a finite number
  *
  * @example
  * ```typescript
  * ensureFinite(45.123)           // 45.123
  * ensureFinite("45.123")         // 45.123
  * ensureFinite("45.123", "lat")  // 45.123
- * ensureFinite("invalid")        // throws Error: Invalid number: "invalid"
- * ensureFinite(NaN)              // throws Error: Invalid number: NaN
- * ensureFinite(Infinity)         // throws Error: Invalid number: Infinity
+ * ensureFinite("invalid")        // throws InvalidNumberError: Invalid number: "invalid"
+ * ensureFinite(NaN)              // throws InvalidNumberError: Invalid number: NaN
+ * ensureFinite(Infinity)         // throws InvalidNumberError: Invalid number: Infinity
  * ```
  */
-function ensureFinite(n: unknown, label = "number"): number {
+function ensureFinite(
+  n: unknown,
+  label = "number",
+  context?: Omit<CoordinateErrorDetails, "value">
+): number {
   const v = typeof n === "string" ? Number(n.trim()) : (n as number);
   if (!Number.isFinite(v)) {
     const display = typeof n === "string" ? JSON.stringify(n) : String(n);
-    throw new Error(`Invalid ${label}: ${display}`);
+    throw new InvalidNumberError(`Invalid ${label}: ${display}`, {
+      ...context,
+      value: n,
+    });
   }
   return v;
 }
@@ -114,25 +131,114 @@ function ensureFinite(n: unknown, label = "number"): number {
  *
  * @param kind - The coordinate type (latitude or longitude)
  * @param deg - The degree value to validate
+ * @param span - Optional location of the value in the original input, attached to the error
  *
- * @throws {Error} When the degree value is outside the valid range for the coordinate type
+ * @throws {OutOfRangeError} When the degree value is outside the valid range for the coordinate type
  *
  * @example
  * ```typescript
  * validateRange(CoordinateType.LAT, 45)   // OK (valid latitude)
  * validateRange(CoordinateType.LON, 122)   // OK (valid longitude)
- * validateRange(CoordinateType.LAT, 95)    // throws Error: lat degrees out of range: 95 (must be in [-90, 90])
- * validateRange(CoordinateType.LON, 185)    // throws Error: lon degrees out of range: 185 (must be in [-180, 180])
+ * validateRange(CoordinateType.LAT, 95)    // throws OutOfRangeError: lat degrees out of range: 95 (must be in [-90, 90])
+ * validateRange(CoordinateType.LON, 185)    // throws OutOfRangeError: lon degrees out of range: 185 (must be in [-180, 180])
  * ```
  */
-function validateRange(kind: CoordinateType, deg: number) {
+function validateRange(kind: CoordinateType, deg: number, span?: InputSpan) {
   const max = DEG_MAX[kind];
   if (deg < -max || deg > max)
-    throw new Error(
-      `${kind} degrees out of range: ${deg} (must be in [${-max}, ${max}])`
+    throw new OutOfRangeError(
+      `${kind} degrees out of range: ${deg} (must be in [${-max}, ${max}])`,
+      { value: deg, kind, span }
     );
 }
 
+/**
+ * Converts an angle from degrees to radians.
+ *
+ * @param deg - The angle in degrees
+ * @returns The angle in radians
+ *
+ * @example
+ * ```typescript
+ * toRadians(180)  // Math.PI
+ * ```
+ */
+function toRadians(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+/**
+ * Converts an angle from radians to degrees.
+ *
+ * @param rad - The angle in radians
+ * @returns The angle in degrees
+ *
+ * @example
+ * ```typescript
+ * toDegrees(Math.PI / 2)  // 90
+ * ```
+ */
+function toDegrees(rad: number): number {
+  return (rad * 180) / Math.PI;
+}
+
+/**
+ * Wraps a longitude into [-180, 180).
+ *
+ * @param lon - The longitude in degrees, any value
+ * @returns The equivalent longitude in [-180, 180)
+ *
+ * @example
+ * ```typescript
+ * normalizeLongitude(190)   // -170
+ * normalizeLongitude(-540)  // -180
+ * ```
+ */
+function normalizeLongitude(lon: number): number {
+  let normalized = lon;
+  while (normalized < -180) normalized += 360;
+  while (normalized >= 180) normalized -= 360;
+  return normalized;
+}
+
+/**
+ * Returns the datum shared by a set of coordinate pairs.
+ *
+ * Coordinates without a datum are taken to be on whatever datum the others
+ * use, so only two different datums named explicitly are a conflict.
+ *
+ * @param pairs - The [latitude, longitude] DD pairs to check
+ * @returns The common datum, or undefined when none of the coordinates names one
+ *
+ * @throws {UnsupportedInputError} When two coordinates name different datums
+ *
+ * @example
+ * ```typescript
+ * commonDatum(parsePairToDD(51.5, -0.1, { datum: Datum.OSGB36 }), parsePairToDD(51.4, 0));  // Datum.OSGB36
+ * commonDatum(parsePairToDD(51.5, -0.1, { datum: Datum.OSGB36 }), parsePairToDD(51.4, 0, { datum: Datum.WGS84 }));
+ * // throws UnsupportedInputError: Cannot mix coordinates on OSGB36 and WGS84; convert them with transformDatum first
+ * ```
+ */
+function commonDatum(...pairs: [DD, DD, Height?][]): Datum | undefined {
+  let datum: Datum | undefined;
+  for (const [lat, lon] of pairs)
+    for (const dd of [lat, lon]) {
+      if (dd.datum === undefined || dd.datum === datum) continue;
+      if (datum !== undefined)
+        throw new UnsupportedInputError(
+          `Cannot mix coordinates on ${datum} and ${dd.datum}; convert them with transformDatum first`,
+          { value: dd.datum, kind: dd.kind }
+        );
+      datum = dd.datum;
+    }
+  return datum;
+}
+
+// Appends the third, height element to a pair when there is one
+function withHeight<T, E>(pair: [T, T], height: E | undefined): [T, T] | [T, T, E] {
+  return height === undefined ? pair : [pair[0], pair[1], height];
+}
+
 // Export helper functions for internal use by other modules
 export {
   dirFromSign,
@@ -140,4 +246,9 @@ export {
   clampDegrees,
   ensureFinite,
   validateRange,
+  toRadians,
+  toDegrees,
+  normalizeLongitude,
+  commonDatum,
+  withHeight,
 };
@@ -4,9 +4,54 @@ import {
   applyHemiToSign,
   clampDegrees,
   dirFromSign,
+  withHeight,
 } from "./helpers";
-import { DD, DM, DMS } from "../types";
-import { CoordinateType, Hemisphere } from "../types";
+import {
+  CoordinateError,
+  MinutesOverflowError,
+  SecondsOverflowError,
+  UnrecognizedFormatError,
+  StrictParseError,
+} from "./errors";
+import {
+  tokenize,
+  readCoordinate,
+  Component,
+  CoordinateTokens,
+  NumberToken,
+  HemisphereToken,
+} from "./tokenizer";
+import { resolveLocale } from "./locale";
+import {
+  toDecimal,
+  addDecimal,
+  scaleDecimal,
+  roundDecimal,
+  fromScaled,
+  splitSexagesimal,
+} from "./fixedPoint";
+import { precisionOf, targetDecimals } from "./precision";
+import { isMaidenhead, maidenheadToDDPair } from "./maidenhead";
+import { isPlusCode, plusCodeToDDPair } from "./plusCode";
+import { parseHeight } from "./height";
+import {
+  DD,
+  DM,
+  DMS,
+  Datum,
+  Height,
+  PairWithHeight,
+  ParseWarning,
+  ParseResult,
+  CoordinateLocale,
+} from "../types";
+import {
+  CoordinateType,
+  Hemisphere,
+  ParseWarningCode,
+  RoundingMode,
+  AngleUnit,
+} from "../types";
 import { CONVERSION_CONSTANTS, PRECISION_DEFAULTS } from "../data";
 
 // ============================================================================
@@ -20,13 +65,44 @@ import { CONVERSION_CONSTANTS, PRECISION_DEFAULTS } from "../data";
  * - Decimal degrees: `"45.123"`, `45.123`
  * - Degrees-minutes: `"45° 7.38'"`, `"45 7.38 N"`
  * - Degrees-minutes-seconds: `"45° 7' 22.8\" N"`, `"45 7 22.8"`
- * - With hemisphere indicators: `"N"`, `"S"`, `"E"`, `"W"`
+ * - With hemisphere indicators: `"N"`, `"S"`, `"E"`, `"W"`, as prefix or suffix
+ * - Unicode primes, typographic quotes and unit words: `"45°07′22.8″N"`, `"45d 7m 22.8s"`, `"45 deg 7 min"`
+ * - Compact aviation forms with a hemisphere letter: `"4507.38N"`, `"1223015W"`
+ * - Maidenhead locators of 4+ characters: `"CN88xt"` (centre of the square)
+ * - Full Plus Codes: `"84VVJM6C+Q6"` (centre of the code area)
+ *
+ * Each number is assigned to degrees, minutes or seconds by the unit marker
+ * after it; unmarked numbers take the next component after the previous
+ * number, so plain `"45 7 22.8"` still reads as degrees, minutes, seconds.
+ *
+ * By default the parser is lenient: it uses the first hemisphere letter,
+ * lets the hemisphere override a contradicting sign, ignores minute/second
+ * signs and numbers past the seconds, and truncates fractional degrees that
+ * are followed by minutes. With `opts.strict` each of these is rejected
+ * with a StrictParseError whose `reason` names the quirk.
+ *
+ * String input also records the precision it was written with on the
+ * result: the least significant component given and its decimal places, so
+ * `"45° 7' N"` is `{ unit: "minutes", decimals: 0 }`. Pass `matchPrecision`
+ * to the conversions and formatters to keep it.
+ *
+ * Coordinates carry no datum unless `opts.datum` names one; see
+ * {@link transformDatum} for moving between datums.
  *
  * @param input - The coordinate string or number to parse
  * @param kind - The coordinate type (latitude or longitude) for validation
- * @returns A DD object with the parsed decimal degrees
+ * @param opts - Optional parsing options
+ * @param opts.strict - Reject input the lenient parser would reinterpret (default: false)
+ * @param opts.locale - Language tag or CoordinateLocale for the decimal separator and hemisphere words (default: English with ".")
+ * @param opts.datum - The datum the input is on, recorded on the result (default: none)
+ * @returns A DD object with the parsed decimal degrees, and its `precision` for string input
  *
- * @throws {Error} When the input format is unrecognized or values are out of range
+ * @throws {UnrecognizedFormatError} When the input format is unrecognized or a unit is given twice
+ * @throws {OutOfRangeError} When the degrees are out of range for `kind`
+ * @throws {MinutesOverflowError} When the minutes are not below 60
+ * @throws {SecondsOverflowError} When the seconds are not below 60
+ * @throws {InvalidNumberError} When a number overflows to Infinity
+ * @throws {StrictParseError} In strict mode, when the input relies on a lenient-parser quirk
  *
  * @example
  * ```typescript
@@ -34,47 +110,188 @@ import { CONVERSION_CONSTANTS, PRECISION_DEFAULTS } from "../data";
  * parseToDD("45° 7.38' N", CoordinateType.LAT)      // { kind: "lat", degrees: 45.123 }
  * parseToDD("45° 7' 22.8\" N", CoordinateType.LAT)  // { kind: "lat", degrees: 45.123 }
  * parseToDD("-122.4194", CoordinateType.LON)         // { kind: "lon", degrees: -122.4194 }
+ * parseToDD("CN88xt", CoordinateType.LAT)            // { kind: "lat", degrees: 48.8125 }
+ * parseToDD("7FG49Q00+", CoordinateType.LON)         // { kind: "lon", degrees: 2.775 }
+ *
+ * parseToDD("-45 N", CoordinateType.LAT)                    // { kind: "lat", degrees: 45 }
+ * parseToDD("-45 N", CoordinateType.LAT, { strict: true })  // throws StrictParseError (SIGN_CONTRADICTS_HEMISPHERE)
+ *
+ * parseToDD("122,5 O", CoordinateType.LON, { locale: "fr" })    // { kind: "lon", degrees: -122.5 }
+ * parseToDD("13° 24,5' Ost", CoordinateType.LON, { locale: "de" })  // { kind: "lon", degrees: 13.408333 }
+ *
+ * // The precision field, left out of the examples above
+ * parseToDD("45° 7' N", CoordinateType.LAT).precision  // { unit: "minutes", decimals: 0 }
  * ```
  */
-function parseToDD(input: string | number, kind: CoordinateType): DD {
+function parseToDD(
+  input: string | number,
+  kind: CoordinateType,
+  opts?: { strict?: boolean; locale?: string | CoordinateLocale; datum?: Datum }
+): DD {
+  return withDatum(parseDetailed(input, kind, opts).value, opts?.datum);
+}
+
+// parseToDD plus warnings about input it accepts but that looks suspicious;
+// safeParseToDD surfaces the warnings, parseToDD drops them, and strict
+// mode turns the first one into a StrictParseError.
+function parseDetailed(
+  input: string | number,
+  kind: CoordinateType,
+  opts?: { strict?: boolean; locale?: string | CoordinateLocale }
+): { value: DD; warnings: ParseWarning[] } {
   if (typeof input === "number") {
     const degrees = ensureFinite(input, "decimal degrees");
     validateRange(kind, degrees);
-    return { kind, degrees };
+    return { value: { kind, degrees }, warnings: [] };
   }
 
   if (typeof input !== "string")
-    throw new Error(`Unsupported input type: ${typeof input}`);
+    throw new UnrecognizedFormatError(`Unsupported input type: ${typeof input}`, {
+      value: input,
+      kind,
+    });
 
   const raw = input.trim().toUpperCase();
-  const hemiMatch = raw.match(/\b([NSEW])\b/);
-  const hemi = hemiMatch?.[1] as Hemisphere | undefined;
-  const nums = raw.match(/[+-]?\d+(?:\.\d+)?/g)?.map(Number) ?? [];
 
-  if (nums.length === 0)
-    throw new Error(`Unrecognized coordinate format: ${JSON.stringify(input)}`);
+  // Two-letter locators ("NS", "EW") are too easily confused with stray
+  // hemisphere letters, so only square-level locators and finer are detected.
+  if (raw.length >= 4 && isMaidenhead(raw)) {
+    const [lat, lon] = maidenheadToDDPair(raw);
+    return { value: kind === CoordinateType.LAT ? lat : lon, warnings: [] };
+  }
+
+  // Short codes are recognised here only so plusCodeToDDPair can report
+  // that they need a reference location.
+  if (isPlusCode(raw)) {
+    const [lat, lon] = plusCodeToDDPair(raw).center;
+    return { value: kind === CoordinateType.LAT ? lat : lon, warnings: [] };
+  }
+
+  const locale = opts?.locale === undefined ? undefined : resolveLocale(opts.locale);
+  const coord = readCoordinate(input, kind, locale);
+  const { degrees, minutes, seconds } = coord;
+  const hemi = coord.hemispheres[0]?.hemi;
+
+  if (coord.numbers.length === 0)
+    throw new UnrecognizedFormatError(
+      `Unrecognized coordinate format: ${JSON.stringify(input)}`,
+      { value: input, kind, span: { start: 0, end: input.length } }
+    );
 
-  if (nums.length === 1) {
+  const warnings = findWarnings(coord, kind);
+  if (opts?.strict && warnings.length > 0) {
+    const [first] = warnings;
+    throw new StrictParseError(
+      `${first.message} in ${JSON.stringify(input)}`,
+      first.code,
+      { value: input, kind, span: first.span }
+    );
+  }
+
+  if (degrees && !minutes && !seconds) {
     // ensureFinite preserves prior semantics for numeric strings that
     // overflow to Infinity (e.g., long all-digit inputs) — without this,
     // they'd reach validateRange and produce a misleading 'out of range'
     // error instead of the original 'Invalid decimal degrees'.
-    const value = ensureFinite(nums[0], "decimal degrees");
+    const value = ensureFinite(degrees.value, "decimal degrees", {
+      kind,
+      span: degrees.span,
+    });
     const deg = applyHemiToSign(value, hemi);
-    validateRange(kind, deg);
-    return { kind, degrees: deg };
+    validateRange(kind, deg, degrees.span);
+    const precision = precisionOf(AngleUnit.DEGREES, degrees.text, locale?.decimalSeparator);
+    return { value: { kind, degrees: deg, precision }, warnings };
   }
 
-  // nums.length >= 2: degrees + minutes (+ optional seconds)
-  const [degPart, minPart, secPart = 0] = nums;
-  if (Math.abs(minPart) >= CONVERSION_CONSTANTS.MINUTES_PER_DEGREE)
-    throw new Error(`Minutes must be < 60 (got ${minPart})`);
-  if (nums.length >= 3 && Math.abs(secPart) >= CONVERSION_CONSTANTS.SECONDS_PER_MINUTE)
-    throw new Error(`Seconds must be < 60 (got ${secPart})`);
+  // Degrees + minutes and/or seconds; a missing component counts as zero
+  if (minutes && Math.abs(minutes.value) >= CONVERSION_CONSTANTS.MINUTES_PER_DEGREE)
+    throw new MinutesOverflowError(`Minutes must be < 60 (got ${minutes.value})`, {
+      value: minutes.value,
+      kind,
+      span: minutes.span,
+    });
+  if (seconds && Math.abs(seconds.value) >= CONVERSION_CONSTANTS.SECONDS_PER_MINUTE)
+    throw new SecondsOverflowError(`Seconds must be < 60 (got ${seconds.value})`, {
+      value: seconds.value,
+      kind,
+      span: seconds.span,
+    });
 
-  const deg = composeFromParts(degPart, minPart, secPart, hemi);
-  validateRange(kind, deg);
-  return { kind, degrees: deg };
+  const deg = composeFromParts(
+    degrees?.value ?? 0,
+    minutes?.value ?? 0,
+    seconds?.value ?? 0,
+    hemi
+  );
+  const used = [degrees, minutes, seconds].filter(
+    (c): c is Component => c !== undefined
+  );
+  validateRange(kind, deg, {
+    start: Math.min(...used.map((c) => c.span.start)),
+    end: Math.max(...used.map((c) => c.span.end)),
+  });
+  // The least significant component given sets the precision
+  const precision = precisionOf(
+    seconds ? AngleUnit.SECONDS : minutes ? AngleUnit.MINUTES : AngleUnit.DEGREES,
+    used[used.length - 1].text,
+    locale?.decimalSeparator
+  );
+  return { value: { kind, degrees: deg, precision }, warnings };
+}
+
+// Each check matches a lenient-parser quirk documented in the test suite:
+// the first hemisphere letter wins, the hemisphere overrides the sign,
+// minute/second signs and numbers past the seconds are ignored, and
+// fractional degrees are truncated when minutes follow.
+function findWarnings(coord: CoordinateTokens, kind: CoordinateType): ParseWarning[] {
+  const warnings: ParseWarning[] = [];
+  const { hemispheres, degrees, minutes, seconds, extras } = coord;
+  const hemi = hemispheres[0]?.hemi;
+  if (hemispheres.length > 1) {
+    warnings.push({
+      code: ParseWarningCode.MULTIPLE_HEMISPHERES,
+      message: `Multiple hemisphere letters (${hemispheres.map((h) => h.hemi).join(", ")})`,
+      kind,
+      span: hemispheres[1].span,
+    });
+  }
+  const sign = degrees?.text[0];
+  const negativeHemi = hemi === Hemisphere.S || hemi === Hemisphere.W;
+  if (degrees && hemi && ((sign === "-" && !negativeHemi) || (sign === "+" && negativeHemi))) {
+    const { start } = degrees.span;
+    warnings.push({
+      code: ParseWarningCode.SIGN_CONTRADICTS_HEMISPHERE,
+      message: `Sign ${JSON.stringify(sign)} contradicts hemisphere ${hemi}`,
+      kind,
+      span: { start, end: start + 1 },
+    });
+  }
+  const negative = [minutes, seconds].find((c) => c?.text.startsWith("-"));
+  if (negative) {
+    warnings.push({
+      code: ParseWarningCode.NEGATIVE_MINUTES_OR_SECONDS,
+      message: `Negative minutes or seconds (${negative.text})`,
+      kind,
+      span: negative.span,
+    });
+  }
+  if (extras.length > 0) {
+    warnings.push({
+      code: ParseWarningCode.EXTRA_NUMBERS,
+      message: `Found ${coord.numbers.length} numbers where at most 3 (degrees, minutes, seconds) are expected`,
+      kind,
+      span: { start: extras[0].span.start, end: extras[extras.length - 1].span.end },
+    });
+  }
+  if (degrees && (minutes || seconds) && !Number.isInteger(degrees.value)) {
+    warnings.push({
+      code: ParseWarningCode.FRACTIONAL_DEGREES_WITH_MINUTES,
+      message: `Fractional degrees (${degrees.text}) followed by minutes`,
+      kind,
+      span: degrees.span,
+    });
+  }
+  return warnings;
 }
 
 function composeFromParts(
@@ -101,6 +318,8 @@ function composeFromParts(
  * @param opts - Optional conversion options
  * @param opts.decimals - Number of decimal places for minutes (default: PRECISION_DEFAULTS.DM_DECIMALS)
  * @param opts.clamp - Whether to clamp degrees to valid ranges (default: false)
+ * @param opts.rounding - How to round the last decimal place of minutes (default: RoundingMode.HALF_UP)
+ * @param opts.matchPrecision - Use decimals that keep the source `precision` when the value has one, instead of `decimals` (default: false)
  * @returns A DM object with degrees, minutes, and hemisphere
  *
  * @example
@@ -112,33 +331,29 @@ function composeFromParts(
  * // With custom precision
  * const dmPrecise = ddToDM(dd, { decimals: 4 });
  * // { kind: "lat", degrees: 45, minutes: 7.3800, hemi: "N" }
+ *
+ * // Truncate instead of rounding
+ * ddToDM({ kind: CoordinateType.LAT, degrees: 45.1239 }, { decimals: 2, rounding: RoundingMode.TRUNCATE });
+ * // { kind: "lat", degrees: 45, minutes: 7.43, hemi: "N" }
  * ```
  */
-function ddToDM(dd: DD, opts?: { decimals?: number; clamp?: boolean }): DM {
-  const { decimals, degVal, degInt, frac } = decomposeDD(
-    dd,
-    opts,
-    PRECISION_DEFAULTS.DM_DECIMALS
-  );
-  const minutes = +(frac * CONVERSION_CONSTANTS.MINUTES_PER_DEGREE).toFixed(
-    decimals
-  );
-
-  if (minutes >= CONVERSION_CONSTANTS.MINUTES_PER_DEGREE) {
-    const rolled = degInt >= 0 ? degInt + 1 : degInt - 1;
-    return {
-      kind: dd.kind,
-      degrees: Math.abs(rolled),
-      minutes: 0,
-      hemi: dirFromSign(dd.kind, rolled),
-    };
+function ddToDM(
+  dd: DD,
+  opts?: {
+    decimals?: number;
+    clamp?: boolean;
+    rounding?: RoundingMode;
+    matchPrecision?: boolean;
   }
-
+): DM {
+  const { degVal, parts } = decomposeDD(dd, opts, 1, PRECISION_DEFAULTS.DM_DECIMALS);
+  const [degrees, minutes] = parts;
   return {
     kind: dd.kind,
-    degrees: Math.abs(degInt),
+    degrees,
     minutes,
     hemi: dirFromSign(dd.kind, degVal),
+    ...withPrecision(dd),
   };
 }
 
@@ -149,6 +364,8 @@ function ddToDM(dd: DD, opts?: { decimals?: number; clamp?: boolean }): DM {
  * @param opts - Optional conversion options
  * @param opts.decimals - Number of decimal places for seconds (default: PRECISION_DEFAULTS.DMS_DECIMALS)
  * @param opts.clamp - Whether to clamp degrees to valid ranges (default: false)
+ * @param opts.rounding - How to round the last decimal place of seconds (default: RoundingMode.HALF_UP)
+ * @param opts.matchPrecision - Use decimals that keep the source `precision` when the value has one, instead of `decimals` (default: false)
  * @returns A DMS object with degrees, minutes, seconds, and hemisphere
  *
  * @example
@@ -162,50 +379,51 @@ function ddToDM(dd: DD, opts?: { decimals?: number; clamp?: boolean }): DM {
  * // { kind: "lat", degrees: 45, minutes: 7, seconds: 22.800, hemi: "N" }
  * ```
  */
-function ddToDMS(dd: DD, opts?: { decimals?: number; clamp?: boolean }): DMS {
-  const { decimals, degVal, degInt, frac } = decomposeDD(
-    dd,
-    opts,
-    PRECISION_DEFAULTS.DMS_DECIMALS
-  );
-  let minutes = Math.floor(frac * CONVERSION_CONSTANTS.MINUTES_PER_DEGREE);
-  let seconds = +(
-    frac * CONVERSION_CONSTANTS.SECONDS_PER_DEGREE -
-    minutes * CONVERSION_CONSTANTS.SECONDS_PER_MINUTE
-  ).toFixed(decimals);
-
-  let degreesAbs = Math.abs(degInt);
-
-  if (seconds >= CONVERSION_CONSTANTS.SECONDS_PER_MINUTE) {
-    seconds = 0;
-    minutes += 1;
-  }
-  if (minutes >= CONVERSION_CONSTANTS.MINUTES_PER_DEGREE) {
-    minutes = 0;
-    degreesAbs += 1;
+function ddToDMS(
+  dd: DD,
+  opts?: {
+    decimals?: number;
+    clamp?: boolean;
+    rounding?: RoundingMode;
+    matchPrecision?: boolean;
   }
-
+): DMS {
+  const { degVal, parts } = decomposeDD(dd, opts, 2, PRECISION_DEFAULTS.DMS_DECIMALS);
+  const [degrees, minutes, seconds] = parts;
   return {
     kind: dd.kind,
-    degrees: degreesAbs,
+    degrees,
     minutes,
     seconds,
     hemi: dirFromSign(dd.kind, degVal),
+    ...withPrecision(dd),
   };
 }
 
 // Shared prelude for ddToDM / ddToDMS — resolve precision, optionally
-// clamp, then split degVal into trunc + abs(frac).
+// clamp, then split |degVal| into whole degrees and sexagesimal parts.
+// The split runs on the exact decimal of degVal and rounds once, in the
+// smallest unit, so a minute or second that rounds up to 60 carries into
+// the unit above it and the same input always gives the same digits.
 function decomposeDD(
   dd: DD,
-  opts: { decimals?: number; clamp?: boolean } | undefined,
+  opts:
+    | { decimals?: number; clamp?: boolean; rounding?: RoundingMode; matchPrecision?: boolean }
+    | undefined,
+  depth: 1 | 2,
   defaultDecimals: number
-): { decimals: number; degVal: number; degInt: number; frac: number } {
-  const decimals = opts?.decimals ?? defaultDecimals;
+): { degVal: number; parts: number[] } {
+  const unit = depth === 1 ? AngleUnit.MINUTES : AngleUnit.SECONDS;
+  const decimals = targetDecimals(opts, dd.precision, unit, defaultDecimals);
   const degVal = opts?.clamp ? clampDegrees(dd.kind, dd.degrees) : dd.degrees;
-  const degInt = Math.trunc(degVal);
-  const frac = Math.abs(degVal - degInt);
-  return { decimals, degVal, degInt, frac };
+  ensureFinite(degVal, "degrees", { kind: dd.kind });
+  const parts = splitSexagesimal(
+    toDecimal(degVal),
+    depth,
+    decimals,
+    opts?.rounding ?? RoundingMode.HALF_UP
+  );
+  return { degVal, parts };
 }
 
 /**
@@ -214,7 +432,8 @@ function decomposeDD(
  * @param dm - The degrees-minutes object to convert
  * @returns A DD object with decimal degrees
  *
- * @throws {Error} When minutes are not in [0, 60)
+ * @throws {MinutesOverflowError} When minutes are not in [0, 60)
+ * @throws {OutOfRangeError} When the resulting degrees are out of range
  *
  * @example
  * ```typescript
@@ -225,13 +444,16 @@ function decomposeDD(
  */
 function dmToDD(dm: DM): DD {
   if (dm.minutes < 0 || dm.minutes >= CONVERSION_CONSTANTS.MINUTES_PER_DEGREE)
-    throw new Error(`Minutes must be in [0, 60) (got ${dm.minutes})`);
+    throw new MinutesOverflowError(
+      `Minutes must be in [0, 60) (got ${dm.minutes})`,
+      { value: dm.minutes, kind: dm.kind }
+    );
   const base =
     Math.abs(dm.degrees) + dm.minutes / CONVERSION_CONSTANTS.MINUTES_PER_DEGREE;
   // hemi takes precedence when present; otherwise sign comes from degrees
   const signed = dm.hemi ? applyHemiToSign(base, dm.hemi) : (dm.degrees < 0 ? -base : base);
   validateRange(dm.kind, signed);
-  return { kind: dm.kind, degrees: signed };
+  return { kind: dm.kind, degrees: signed, ...withPrecision(dm) };
 }
 
 /**
@@ -240,7 +462,9 @@ function dmToDD(dm: DM): DD {
  * @param dms - The degrees-minutes-seconds object to convert
  * @returns A DD object with decimal degrees
  *
- * @throws {Error} When minutes are not in [0, 60) or seconds are not in [0, 60)
+ * @throws {MinutesOverflowError} When minutes are not in [0, 60)
+ * @throws {SecondsOverflowError} When seconds are not in [0, 60)
+ * @throws {OutOfRangeError} When the resulting degrees are out of range
  *
  * @example
  * ```typescript
@@ -251,9 +475,15 @@ function dmToDD(dm: DM): DD {
  */
 function dmsToDD(dms: DMS): DD {
   if (dms.minutes < 0 || dms.minutes >= CONVERSION_CONSTANTS.MINUTES_PER_DEGREE)
-    throw new Error(`Minutes must be in [0, 60) (got ${dms.minutes})`);
+    throw new MinutesOverflowError(
+      `Minutes must be in [0, 60) (got ${dms.minutes})`,
+      { value: dms.minutes, kind: dms.kind }
+    );
   if (dms.seconds < 0 || dms.seconds >= CONVERSION_CONSTANTS.SECONDS_PER_MINUTE)
-    throw new Error(`Seconds must be in [0, 60) (got ${dms.seconds})`);
+    throw new SecondsOverflowError(
+      `Seconds must be in [0, 60) (got ${dms.seconds})`,
+      { value: dms.seconds, kind: dms.kind }
+    );
   const base =
     Math.abs(dms.degrees) +
     dms.minutes / CONVERSION_CONSTANTS.MINUTES_PER_DEGREE +
@@ -261,7 +491,157 @@ function dmsToDD(dms: DMS): DD {
   // hemi takes precedence when present; otherwise sign comes from degrees
   const signed = dms.hemi ? applyHemiToSign(base, dms.hemi) : (dms.degrees < 0 ? -base : base);
   validateRange(dms.kind, signed);
-  return { kind: dms.kind, degrees: signed };
+  return { kind: dms.kind, degrees: signed, ...withPrecision(dms) };
+}
+
+/**
+ * Converts Degrees-Minutes (DM) to Degrees-Minutes-Seconds (DMS) without going through decimal degrees.
+ *
+ * The fractional minutes become seconds, so 7.5' is exactly 7' 30".
+ * Seconds that round up to 60 carry into minutes, and minutes into degrees,
+ * as in {@link ddToDMS}. The sign of `degrees` and `hemi` are kept as given.
+ *
+ * @param dm - The degrees-minutes object to convert
+ * @param opts - Optional conversion options
+ * @param opts.decimals - Number of decimal places for seconds (default: PRECISION_DEFAULTS.DMS_DECIMALS)
+ * @param opts.rounding - How to round the last decimal place of seconds (default: RoundingMode.HALF_UP)
+ * @param opts.matchPrecision - Use decimals that keep the source `precision` when the value has one, instead of `decimals` (default: false)
+ * @returns A DMS object with the same degrees and hemisphere
+ *
+ * @throws {MinutesOverflowError} When minutes are not in [0, 60)
+ *
+ * @example
+ * ```typescript
+ * const dm = { kind: CoordinateType.LAT, degrees: 45, minutes: 7.5, hemi: Hemisphere.N };
+ * dmToDMS(dm);
+ * // { kind: "lat", degrees: 45, minutes: 7, seconds: 30, hemi: "N" }
+ *
+ * // Rounding carries into minutes and degrees
+ * dmToDMS({ ...dm, minutes: 59.9999999 }, { decimals: 2 });
+ * // { kind: "lat", degrees: 46, minutes: 0, seconds: 0, hemi: "N" }
+ * ```
+ */
+function dmToDMS(
+  dm: DM,
+  opts?: {
+    decimals?: number;
+    rounding?: RoundingMode;
+    matchPrecision?: boolean;
+  }
+): DMS {
+  if (dm.minutes < 0 || dm.minutes >= CONVERSION_CONSTANTS.MINUTES_PER_DEGREE)
+    throw new MinutesOverflowError(
+      `Minutes must be in [0, 60) (got ${dm.minutes})`,
+      { value: dm.minutes, kind: dm.kind }
+    );
+  const decimals = targetDecimals(
+    opts,
+    dm.precision,
+    AngleUnit.SECONDS,
+    PRECISION_DEFAULTS.DMS_DECIMALS
+  );
+  const sign = isNegativeDM(dm) ? -1 : 1;
+  let degrees = dm.degrees;
+  let [minutes, seconds] = splitSexagesimal(
+    toDecimal(sign * dm.minutes),
+    1,
+    decimals,
+    opts?.rounding ?? RoundingMode.HALF_UP
+  );
+
+  if (minutes >= CONVERSION_CONSTANTS.MINUTES_PER_DEGREE) {
+    minutes = 0;
+    degrees += degrees < 0 ? -1 : 1;
+  }
+
+  return { kind: dm.kind, degrees, minutes, seconds, hemi: dm.hemi, ...withPrecision(dm) };
+}
+
+/**
+ * Converts Degrees-Minutes-Seconds (DMS) to Degrees-Minutes (DM) without going through decimal degrees.
+ *
+ * Seconds are folded into the minutes and rounded. Minutes that round up to
+ * 60 carry into degrees, as in {@link ddToDM}. The sign of `degrees` and
+ * `hemi` are kept as given.
+ *
+ * @param dms - The degrees-minutes-seconds object to convert
+ * @param opts - Optional conversion options
+ * @param opts.decimals - Number of decimal places for minutes (default: PRECISION_DEFAULTS.DM_DECIMALS)
+ * @param opts.rounding - How to round the last decimal place of minutes (default: RoundingMode.HALF_UP)
+ * @param opts.matchPrecision - Use decimals that keep the source `precision` when the value has one, instead of `decimals` (default: false)
+ * @returns A DM object with the same degrees and hemisphere
+ *
+ * @throws {MinutesOverflowError} When minutes are not in [0, 60)
+ * @throws {SecondsOverflowError} When seconds are not in [0, 60)
+ *
+ * @example
+ * ```typescript
+ * const dms = { kind: CoordinateType.LAT, degrees: 45, minutes: 7, seconds: 22.8, hemi: Hemisphere.N };
+ * dmsToDM(dms);
+ * // { kind: "lat", degrees: 45, minutes: 7.38, hemi: "N" }
+ * ```
+ */
+function dmsToDM(
+  dms: DMS,
+  opts?: {
+    decimals?: number;
+    rounding?: RoundingMode;
+    matchPrecision?: boolean;
+  }
+): DM {
+  if (dms.minutes < 0 || dms.minutes >= CONVERSION_CONSTANTS.MINUTES_PER_DEGREE)
+    throw new MinutesOverflowError(
+      `Minutes must be in [0, 60) (got ${dms.minutes})`,
+      { value: dms.minutes, kind: dms.kind }
+    );
+  if (dms.seconds < 0 || dms.seconds >= CONVERSION_CONSTANTS.SECONDS_PER_MINUTE)
+    throw new SecondsOverflowError(
+      `Seconds must be in [0, 60) (got ${dms.seconds})`,
+      { value: dms.seconds, kind: dms.kind }
+    );
+  const decimals = targetDecimals(
+    opts,
+    dms.precision,
+    AngleUnit.MINUTES,
+    PRECISION_DEFAULTS.DM_DECIMALS
+  );
+  const sign = isNegativeDM(dms) ? -1 : 1;
+  // Total seconds, rounded after dividing by 60 so no binary fraction creeps in
+  const totalSeconds = addDecimal(
+    scaleDecimal(toDecimal(sign * dms.minutes), CONVERSION_CONSTANTS.SECONDS_PER_MINUTE),
+    toDecimal(sign * dms.seconds)
+  );
+  const rounded = roundDecimal(
+    totalSeconds,
+    decimals,
+    opts?.rounding ?? RoundingMode.HALF_UP,
+    CONVERSION_CONSTANTS.SECONDS_PER_MINUTE
+  );
+  let degrees = dms.degrees;
+  let minutes = Math.abs(fromScaled(rounded, decimals));
+
+  if (minutes >= CONVERSION_CONSTANTS.MINUTES_PER_DEGREE) {
+    minutes = 0;
+    degrees += degrees < 0 ? -1 : 1;
+  }
+
+  return { kind: dms.kind, degrees, minutes, hemi: dms.hemi, ...withPrecision(dms) };
+}
+
+// Copies the source precision onto a converted value, leaving the key out when unknown
+function withPrecision(value: DD | DM | DMS): Pick<DD, "precision"> {
+  return value.precision ? { precision: value.precision } : {};
+}
+
+// Tags a parsed value with the datum the caller says it is on
+function withDatum(dd: DD, datum: Datum | undefined): DD {
+  return datum === undefined ? dd : { ...dd, datum };
+}
+
+// Whether a DM/DMS value lies south or west, for sign-aware rounding modes
+function isNegativeDM(dm: DM | DMS): boolean {
+  if (dm.hemi) return dm.hemi === Hemisphere.S || dm.hemi === Hemisphere.W;
+  return dm.degrees < 0;
 }
 
 // ============================================================================
@@ -276,9 +656,14 @@ function dmsToDD(dms: DMS): DD {
  *
  * @param latInput - The latitude coordinate (string or number)
  * @param lonInput - The longitude coordinate (string or number)
- * @returns A tuple of DD objects [latitude, longitude]
+ * @param opts - Optional parsing options
+ * @param opts.strict - Reject input the lenient parser would reinterpret (default: false); see {@link parseToDD}
+ * @param opts.locale - Language tag or CoordinateLocale; see {@link parseToDD}
+ * @param opts.datum - The datum the input is on, recorded on both coordinates (default: none)
+ * @param opts.height - A height such as "120m" or "394 ft MSL", parsed with {@link parseHeight} and returned third (default: none)
+ * @returns A tuple of DD objects [latitude, longitude], with the height third when `opts.height` is given
  *
- * @throws {Error} When either coordinate format is unrecognized or values are out of range
+ * @throws {CoordinateError} When either coordinate format is unrecognized, values are out of range, or the height is invalid
  *
  * @example
  * ```typescript
@@ -289,16 +674,188 @@ function dmsToDD(dms: DMS): DD {
  * const [lat2, lon2] = parsePairToDD(48.8544, -123.5005);
  * // lat2: { kind: "lat", degrees: 48.8544 }
  * // lon2: { kind: "lon", degrees: -123.5005 }
+ *
+ * const [, , height] = parsePairToDD("48.85", "-123.50", { height: "120m" });
+ * // height: { value: 120, unit: "m" }
  * ```
  */
-function parsePairToDD(
+function parsePairToDD<H extends string | number | undefined = undefined>(
   latInput: string | number,
-  lonInput: string | number
-): [DD, DD] {
-  return [
-    parseToDD(latInput, CoordinateType.LAT),
-    parseToDD(lonInput, CoordinateType.LON),
+  lonInput: string | number,
+  opts?: {
+    strict?: boolean;
+    locale?: string | CoordinateLocale;
+    datum?: Datum;
+    height?: H;
+  }
+): PairWithHeight<DD, H> {
+  const pair: [DD, DD] = [
+    parseToDD(latInput, CoordinateType.LAT, opts),
+    parseToDD(lonInput, CoordinateType.LON, opts),
   ];
+  const height =
+    opts?.height === undefined ? undefined : parseHeight(opts.height, { locale: opts.locale });
+  return withHeight(pair, height) as PairWithHeight<DD, H>;
+}
+
+/**
+ * Parses a single string holding both latitude and longitude into Decimal Degrees (DD).
+ *
+ * The string is split into two coordinates at a comma or semicolon, at the
+ * hemisphere letters, at the second degree symbol, or halfway through the
+ * numbers, in that order of preference. Hemisphere letters decide which half
+ * is latitude; without them `opts.order` does. Each half is then parsed with
+ * {@link parseToDD}. Maidenhead locators and full Plus Codes are decoded to
+ * the centre of their area.
+ *
+ * A third separated part with a unit or reference is read as a height with
+ * {@link parseHeight}, as in `"48.85, -123.50, 120m"` or
+ * `"51.5; -0.1; 394 ft MSL"`, and returned as the third element of the tuple.
+ *
+ * @param input - The coordinate pair string
+ * @param opts - Optional parsing options
+ * @param opts.order - Axis order when no hemisphere letters are present (default: "latlon")
+ * @param opts.strict - Reject input the lenient parser would reinterpret (default: false); see {@link parseToDD}
+ * @param opts.locale - Language tag or CoordinateLocale; see {@link parseToDD}. With a decimal comma only `;` separates the coordinates
+ * @param opts.datum - The datum the input is on, recorded on both coordinates (default: none)
+ * @returns A tuple of DD objects [latitude, longitude], with the height third when the string has one
+ *
+ * @throws {CoordinateError} When the string cannot be split into two coordinates, both halves name the same axis, either coordinate is invalid, or the height is invalid
+ *
+ * @example
+ * ```typescript
+ * parsePairString("48°51'15.8\"N 123°30'01.8\"W");
+ * // [{ kind: "lat", degrees: 48.854389 }, { kind: "lon", degrees: -123.5005 }]
+ *
+ * parsePairString("N48 51.26 W123 30.03");
+ * // [{ kind: "lat", degrees: 48.854333 }, { kind: "lon", degrees: -123.5005 }]
+ *
+ * parsePairString("-123.5005, 48.8544", { order: "lonlat" });
+ * // [{ kind: "lat", degrees: 48.8544 }, { kind: "lon", degrees: -123.5005 }]
+ *
+ * parsePairString("48.85, -123.50, 120m MSL");
+ * // [{ kind: "lat", degrees: 48.85 }, { kind: "lon", degrees: -123.5 }, { value: 120, unit: "m", reference: "msl" }]
+ * ```
+ */
+function parsePairString(
+  input: string,
+  opts?: {
+    order?: "latlon" | "lonlat";
+    strict?: boolean;
+    locale?: string | CoordinateLocale;
+    datum?: Datum;
+  }
+): [DD, DD, Height?] {
+  if (typeof input !== "string")
+    throw new UnrecognizedFormatError(`Unsupported input type: ${typeof input}`, {
+      value: input,
+    });
+
+  const raw = input.trim();
+  const upper = raw.toUpperCase();
+  if ((upper.length >= 4 && isMaidenhead(upper)) || isPlusCode(upper)) {
+    const [lat, lon] = isPlusCode(upper)
+      ? plusCodeToDDPair(upper).center
+      : maidenheadToDDPair(upper);
+    return [withDatum(lat, opts?.datum), withDatum(lon, opts?.datum)];
+  }
+
+  const locale = opts?.locale === undefined ? undefined : resolveLocale(opts.locale);
+  const [coordinates, heightText] = splitHeight(raw, locale);
+  const height = heightText === undefined ? undefined : parseHeight(heightText, { locale });
+  const [first, second] = splitPairString(coordinates, locale);
+  const firstAxis = axisFromHemisphere(first, locale);
+  const secondAxis = axisFromHemisphere(second, locale);
+  if (firstAxis && firstAxis === secondAxis)
+    throw new UnrecognizedFormatError(
+      `Both coordinates in ${JSON.stringify(input)} are ${firstAxis === CoordinateType.LAT ? "latitudes" : "longitudes"}`,
+      { value: input, kind: firstAxis }
+    );
+
+  let firstKind: CoordinateType;
+  if (firstAxis) firstKind = firstAxis;
+  else if (secondAxis)
+    firstKind =
+      secondAxis === CoordinateType.LAT ? CoordinateType.LON : CoordinateType.LAT;
+  else
+    firstKind =
+      opts?.order === "lonlat" ? CoordinateType.LON : CoordinateType.LAT;
+
+  const [latPart, lonPart] =
+    firstKind === CoordinateType.LAT ? [first, second] : [second, first];
+  const partOpts = { strict: opts?.strict, locale, datum: opts?.datum };
+  return withHeight(
+    [
+      parseToDD(latPart, CoordinateType.LAT, partOpts),
+      parseToDD(lonPart, CoordinateType.LON, partOpts),
+    ],
+    height
+  );
+}
+
+// Splits a trailing height off "lat, lon, height" text: it is the third of
+// three separated parts and names a unit or reference, so "45d 7m, 122d 30m"
+// keeps its minutes and "1, 2, 3" is still an error.
+function splitHeight(
+  raw: string,
+  locale: CoordinateLocale | undefined
+): [string, string | undefined] {
+  const comma = locale?.decimalSeparator === ",";
+  if (raw.split(comma ? /\s*;\s*/ : /\s*[,;]\s*/).length !== 3) return [raw, undefined];
+  const match = raw.match(comma ? /^(.*?)\s*;\s*([^;]+)$/ : /^(.*?)\s*[,;]\s*([^,;]+)$/);
+  return match && /[a-z]/i.test(match[2]) ? [match[1], match[2]] : [raw, undefined];
+}
+
+// Splits "lat lon" text into its two halves; see parsePairString for the rules.
+function splitPairString(
+  raw: string,
+  locale: CoordinateLocale | undefined
+): [string, string] {
+  const separators = locale?.decimalSeparator === "," ? /\s*;\s*/ : /\s*[,;]\s*/;
+  const parts = raw.split(separators);
+  if (parts.length === 2 && parts[0] && parts[1]) return [parts[0], parts[1]];
+  if (parts.length > 2)
+    throw new UnrecognizedFormatError(
+      `Expected one separator between latitude and longitude: ${JSON.stringify(raw)}`,
+      { value: raw }
+    );
+
+  const tokens = tokenize(raw, locale);
+  const numbers = tokens.filter((t): t is NumberToken => t.type === "number");
+  const letters = tokens.filter(
+    (t): t is HemisphereToken => t.type === "hemisphere"
+  );
+  if (letters.length === 2 && numbers.length > 0) {
+    const [a, b] = letters;
+    // "N48 51.26 W123 30.03" (prefix) vs "48 51.26 N 123 30.03 W" (suffix)
+    const cut = a.span.start < numbers[0].span.start ? b.span.start : a.span.end;
+    return [raw.slice(0, cut), raw.slice(cut)];
+  }
+
+  const degreeMarked = numbers.filter((t) => t.unit === "deg");
+  let cut: number | undefined;
+  if (degreeMarked.length === 2) cut = degreeMarked[1].span.start;
+  else if (numbers.length >= 2 && numbers.length % 2 === 0)
+    cut = numbers[numbers.length / 2].span.start;
+  if (cut === undefined)
+    throw new UnrecognizedFormatError(
+      `Cannot split into latitude and longitude: ${JSON.stringify(raw)}`,
+      { value: raw }
+    );
+  return [raw.slice(0, cut), raw.slice(cut)];
+}
+
+function axisFromHemisphere(
+  part: string,
+  locale: CoordinateLocale | undefined
+): CoordinateType | undefined {
+  const letter = tokenize(part, locale).find(
+    (t): t is HemisphereToken => t.type === "hemisphere"
+  );
+  if (!letter) return undefined;
+  return letter.hemi === Hemisphere.N || letter.hemi === Hemisphere.S
+    ? CoordinateType.LAT
+    : CoordinateType.LON;
 }
 
 /**
@@ -309,7 +866,10 @@ function parsePairToDD(
  * @param opts - Optional conversion options
  * @param opts.decimals - Number of decimal places for minutes (default: PRECISION_DEFAULTS.DM_DECIMALS)
  * @param opts.clamp - Whether to clamp degrees to valid ranges (default: false)
- * @returns A tuple of DM objects [latitude, longitude]
+ * @param opts.rounding - How to round the last decimal place (default: RoundingMode.HALF_UP)
+ * @param opts.matchPrecision - Use decimals that keep the source `precision` when the value has one, instead of `decimals` (default: false)
+ * @param opts.height - A height to carry through as the third element (default: none)
+ * @returns A tuple of DM objects [latitude, longitude], with `opts.height` third when given
  *
  * @example
  * ```typescript
@@ -320,12 +880,21 @@ function parsePairToDD(
  * // lonDM: { kind: "lon", degrees: 123, minutes: 30.03, hemi: "W" }
  * ```
  */
-function ddPairToDM(
+function ddPairToDM<H extends Height | undefined = undefined>(
   latDD: DD,
   lonDD: DD,
-  opts?: { decimals?: number; clamp?: boolean }
-): [DM, DM] {
-  return [ddToDM(latDD, opts), ddToDM(lonDD, opts)];
+  opts?: {
+    decimals?: number;
+    clamp?: boolean;
+    rounding?: RoundingMode;
+    matchPrecision?: boolean;
+    height?: H;
+  }
+): PairWithHeight<DM, H> {
+  return withHeight(
+    [ddToDM(latDD, opts), ddToDM(lonDD, opts)],
+    opts?.height
+  ) as PairWithHeight<DM, H>;
 }
 
 /**
@@ -336,7 +905,10 @@ function ddPairToDM(
  * @param opts - Optional conversion options
  * @param opts.decimals - Number of decimal places for seconds (default: PRECISION_DEFAULTS.DMS_DECIMALS)
  * @param opts.clamp - Whether to clamp degrees to valid ranges (default: false)
- * @returns A tuple of DMS objects [latitude, longitude]
+ * @param opts.rounding - How to round the last decimal place (default: RoundingMode.HALF_UP)
+ * @param opts.matchPrecision - Use decimals that keep the source `precision` when the value has one, instead of `decimals` (default: false)
+ * @param opts.height - A height to carry through as the third element (default: none)
+ * @returns A tuple of DMS objects [latitude, longitude], with `opts.height` third when given
  *
  * @example
  * ```typescript
@@ -345,14 +917,27 @@ function ddPairToDM(
  * const [latDMS, lonDMS] = ddPairToDMS(latDD, lonDD);
  * // latDMS: { kind: "lat", degrees: 48, minutes: 51, seconds: 15.84, hemi: "N" }
  * // lonDMS: { kind: "lon", degrees: 123, minutes: 30, seconds: 1.8, hemi: "W" }
+ *
+ * const [lat, lon, height] = parsePairString("48.8544, -123.5005, 120 m MSL");
+ * ddPairToDMS(lat, lon, { decimals: 2, height });
+ * // [{ ..., seconds: 15.84, hemi: "N" }, { ..., seconds: 1.8, hemi: "W" }, { value: 120, unit: "m", reference: "msl" }]
  * ```
  */
-function ddPairToDMS(
+function ddPairToDMS<H extends Height | undefined = undefined>(
   latDD: DD,
   lonDD: DD,
-  opts?: { decimals?: number; clamp?: boolean }
-): [DMS, DMS] {
-  return [ddToDMS(latDD, opts), ddToDMS(lonDD, opts)];
+  opts?: {
+    decimals?: number;
+    clamp?: boolean;
+    rounding?: RoundingMode;
+    matchPrecision?: boolean;
+    height?: H;
+  }
+): PairWithHeight<DMS, H> {
+  return withHeight(
+    [ddToDMS(latDD, opts), ddToDMS(lonDD, opts)],
+    opts?.height
+  ) as PairWithHeight<DMS, H>;
 }
 
 /**
@@ -360,9 +945,11 @@ function ddPairToDMS(
  *
  * @param latDM - The latitude DM object
  * @param lonDM - The longitude DM object
- * @returns A tuple of DD objects [latitude, longitude]
+ * @param opts - Optional conversion options
+ * @param opts.height - A height to carry through as the third element (default: none)
+ * @returns A tuple of DD objects [latitude, longitude], with `opts.height` third when given
  *
- * @throws {Error} When minutes are not in [0, 60) for either coordinate
+ * @throws {MinutesOverflowError} When minutes are not in [0, 60) for either coordinate
  *
  * @example
  * ```typescript
@@ -373,8 +960,12 @@ function ddPairToDMS(
  * // lonDD: { kind: "lon", degrees: -123.5005 }
  * ```
  */
-function dmPairToDD(latDM: DM, lonDM: DM): [DD, DD] {
-  return [dmToDD(latDM), dmToDD(lonDM)];
+function dmPairToDD<H extends Height | undefined = undefined>(
+  latDM: DM,
+  lonDM: DM,
+  opts?: { height?: H }
+): PairWithHeight<DD, H> {
+  return withHeight([dmToDD(latDM), dmToDD(lonDM)], opts?.height) as PairWithHeight<DD, H>;
 }
 
 /**
@@ -382,9 +973,11 @@ function dmPairToDD(latDM: DM, lonDM: DM): [DD, DD] {
  *
  * @param latDMS - The latitude DMS object
  * @param lonDMS - The longitude DMS object
- * @returns A tuple of DD objects [latitude, longitude]
+ * @param opts - Optional conversion options
+ * @param opts.height - A height to carry through as the third element (default: none)
+ * @returns A tuple of DD objects [latitude, longitude], with `opts.height` third when given
  *
- * @throws {Error} When minutes are not in [0, 60) or seconds are not in [0, 60) for either coordinate
+ * @throws {CoordinateError} When minutes are not in [0, 60) or seconds are not in [0, 60) for either coordinate
  *
  * @example
  * ```typescript
@@ -395,8 +988,196 @@ function dmPairToDD(latDM: DM, lonDM: DM): [DD, DD] {
  * // lonDD: { kind: "lon", degrees: -123.5005 }
  * ```
  */
-function dmsPairToDD(latDMS: DMS, lonDMS: DMS): [DD, DD] {
-  return [dmsToDD(latDMS), dmsToDD(lonDMS)];
+function dmsPairToDD<H extends Height | undefined = undefined>(
+  latDMS: DMS,
+  lonDMS: DMS,
+  opts?: { height?: H }
+): PairWithHeight<DD, H> {
+  return withHeight([dmsToDD(latDMS), dmsToDD(lonDMS)], opts?.height) as PairWithHeight<DD, H>;
+}
+
+/**
+ * Converts a pair of Degrees-Minutes (DM) to Degrees-Minutes-Seconds (DMS) format.
+ *
+ * @param latDM - The latitude DM object
+ * @param lonDM - The longitude DM object
+ * @param opts - Optional conversion options
+ * @param opts.decimals - Number of decimal places for seconds (default: PRECISION_DEFAULTS.DMS_DECIMALS)
+ * @param opts.rounding - How to round the last decimal place (default: RoundingMode.HALF_UP)
+ * @param opts.matchPrecision - Use decimals that keep the source `precision` when the value has one, instead of `decimals` (default: false)
+ * @param opts.height - A height to carry through as the third element (default: none)
+ * @returns A tuple of DMS objects [latitude, longitude], with `opts.height` third when given
+ *
+ * @throws {MinutesOverflowError} When either minutes value is not in [0, 60)
+ *
+ * @example
+ * ```typescript
+ * const latDM = { kind: CoordinateType.LAT, degrees: 48, minutes: 51.264, hemi: Hemisphere.N };
+ * const lonDM = { kind: CoordinateType.LON, degrees: 123, minutes: 30.03, hemi: Hemisphere.W };
+ * const [latDMS, lonDMS] = dmPairToDMS(latDM, lonDM);
+ * // latDMS: { kind: "lat", degrees: 48, minutes: 51, seconds: 15.84, hemi: "N" }
+ * // lonDMS: { kind: "lon", degrees: 123, minutes: 30, seconds: 1.8, hemi: "W" }
+ * ```
+ */
+function dmPairToDMS<H extends Height | undefined = undefined>(
+  latDM: DM,
+  lonDM: DM,
+  opts?: {
+    decimals?: number;
+    rounding?: RoundingMode;
+    matchPrecision?: boolean;
+    height?: H;
+  }
+): PairWithHeight<DMS, H> {
+  return withHeight(
+    [dmToDMS(latDM, opts), dmToDMS(lonDM, opts)],
+    opts?.height
+  ) as PairWithHeight<DMS, H>;
+}
+
+/**
+ * Converts a pair of Degrees-Minutes-Seconds (DMS) to Degrees-Minutes (DM) format.
+ *
+ * @param latDMS - The latitude DMS object
+ * @param lonDMS - The longitude DMS object
+ * @param opts - Optional conversion options
+ * @param opts.decimals - Number of decimal places for minutes (default: PRECISION_DEFAULTS.DM_DECIMALS)
+ * @param opts.rounding - How to round the last decimal place (default: RoundingMode.HALF_UP)
+ * @param opts.matchPrecision - Use decimals that keep the source `precision` when the value has one, instead of `decimals` (default: false)
+ * @param opts.height - A height to carry through as the third element (default: none)
+ * @returns A tuple of DM objects [latitude, longitude], with `opts.height` third when given
+ *
+ * @throws {CoordinateError} When either minutes or seconds value is not in [0, 60)
+ *
+ * @example
+ * ```typescript
+ * const latDMS = { kind: CoordinateType.LAT, degrees: 48, minutes: 51, seconds: 15.84, hemi: Hemisphere.N };
+ * const lonDMS = { kind: CoordinateType.LON, degrees: 123, minutes: 30, seconds: 1.8, hemi: Hemisphere.W };
+ * const [latDM, lonDM] = dmsPairToDM(latDMS, lonDMS);
+ * // latDM: { kind: "lat", degrees: 48, minutes: 51.264, hemi: "N" }
+ * // lonDM: { kind: "lon", degrees: 123, minutes: 30.03, hemi: "W" }
+ * ```
+ */
+function dmsPairToDM<H extends Height | undefined = undefined>(
+  latDMS: DMS,
+  lonDMS: DMS,
+  opts?: {
+    decimals?: number;
+    rounding?: RoundingMode;
+    matchPrecision?: boolean;
+    height?: H;
+  }
+): PairWithHeight<DM, H> {
+  return withHeight(
+    [dmsToDM(latDMS, opts), dmsToDM(lonDMS, opts)],
+    opts?.height
+  ) as PairWithHeight<DM, H>;
+}
+
+// ============================================================================
+// SAFE PARSING - Non-throwing parsers that report warnings
+// ============================================================================
+
+/**
+ * Parses a coordinate like {@link parseToDD}, but returns a result object instead of throwing.
+ *
+ * A successful result also lists warnings for input that parses but looks
+ * suspicious:
+ * - `SIGN_CONTRADICTS_HEMISPHERE`: `"-45 N"` (the hemisphere wins)
+ * - `EXTRA_NUMBERS`: more than three numeric groups (the extras are ignored)
+ * - `FRACTIONAL_DEGREES_WITH_MINUTES`: `"45.5 30"` (the fraction is dropped)
+ * - `MULTIPLE_HEMISPHERES`: `"45 N S"` (the first letter wins)
+ * - `NEGATIVE_MINUTES_OR_SECONDS`: `"45 -7 22"` (the sign is ignored)
+ *
+ * Each warning carries the span of the offending characters in `input`.
+ *
+ * @param input - The coordinate string or number to parse
+ * @param kind - The coordinate type (latitude or longitude) for validation
+ * @param opts - Optional parsing options
+ * @param opts.strict - Fail with a StrictParseError instead of warning (default: false)
+ * @param opts.locale - Language tag or CoordinateLocale; see {@link parseToDD}
+ * @param opts.datum - The datum the input is on, recorded on the result (default: none)
+ * @returns `{ ok: true, value, warnings }` on success, or `{ ok: false, error }` with a CoordinateError
+ *
+ * @example
+ * ```typescript
+ * safeParseToDD("45.123", CoordinateType.LAT);
+ * // { ok: true, value: { kind: "lat", degrees: 45.123 }, warnings: [] }
+ *
+ * safeParseToDD("-45 N", CoordinateType.LAT);
+ * // { ok: true, value: { kind: "lat", degrees: 45 },
+ * //   warnings: [{ code: "SIGN_CONTRADICTS_HEMISPHERE", span: { start: 0, end: 1 }, ... }] }
+ *
+ * safeParseToDD("95", CoordinateType.LAT);
+ * // { ok: false, error: OutOfRangeError { code: "OUT_OF_RANGE", value: 95, ... } }
+ * ```
+ */
+function safeParseToDD(
+  input: string | number,
+  kind: CoordinateType,
+  opts?: { strict?: boolean; locale?: string | CoordinateLocale; datum?: Datum }
+): ParseResult<DD> {
+  try {
+    const { value, warnings } = parseDetailed(input, kind, opts);
+    return { ok: true, value: withDatum(value, opts?.datum), warnings };
+  } catch (err) {
+    if (err instanceof CoordinateError) return { ok: false, error: err };
+    throw err;
+  }
+}
+
+/**
+ * Parses a latitude/longitude pair like {@link parsePairToDD}, but returns a result object instead of throwing.
+ *
+ * Warnings from both coordinates are combined; each warning's `kind` says
+ * which input its span refers to. The first failing coordinate, latitude
+ * first, determines the error.
+ *
+ * @param latInput - The latitude coordinate (string or number)
+ * @param lonInput - The longitude coordinate (string or number)
+ * @param opts - Optional parsing options
+ * @param opts.strict - Fail with a StrictParseError instead of warning (default: false)
+ * @param opts.locale - Language tag or CoordinateLocale; see {@link parseToDD}
+ * @param opts.datum - The datum the input is on, recorded on both coordinates (default: none)
+ * @param opts.height - A height, parsed with {@link parseHeight} and returned third (default: none)
+ * @returns `{ ok: true, value: [lat, lon], warnings }` on success, or `{ ok: false, error }`; the value holds the height third when `opts.height` is given
+ *
+ * @example
+ * ```typescript
+ * const result = safeParsePairToDD("48.8544° N", "123.5005° W");
+ * if (result.ok) {
+ *   const [lat, lon] = result.value;
+ * } else {
+ *   console.warn(result.error.code, result.error.span);
+ * }
+ * ```
+ */
+function safeParsePairToDD<H extends string | number | undefined = undefined>(
+  latInput: string | number,
+  lonInput: string | number,
+  opts?: {
+    strict?: boolean;
+    locale?: string | CoordinateLocale;
+    datum?: Datum;
+    height?: H;
+  }
+): ParseResult<PairWithHeight<DD, H>> {
+  const lat = safeParseToDD(latInput, CoordinateType.LAT, opts);
+  if (!lat.ok) return lat;
+  const lon = safeParseToDD(lonInput, CoordinateType.LON, opts);
+  if (!lon.ok) return lon;
+  let height: Height | undefined;
+  try {
+    if (opts?.height !== undefined) height = parseHeight(opts.height, { locale: opts.locale });
+  } catch (err) {
+    if (err instanceof CoordinateError) return { ok: false, error: err };
+    throw err;
+  }
+  return {
+    ok: true,
+    value: withHeight([lat.value, lon.value], height) as PairWithHeight<DD, H>,
+    warnings: [...lat.warnings, ...lon.warnings],
+  };
 }
 
 // Export core functions
@@ -406,11 +1187,18 @@ export {
   ddToDMS,
   dmToDD,
   dmsToDD,
+  dmToDMS,
+  dmsToDM,
   parsePairToDD,
+  parsePairString,
   ddPairToDM,
   ddPairToDMS,
   dmPairToDD,
   dmsPairToDD,
+  dmPairToDMS,
+  dmsPairToDM,
+  safeParseToDD,
+  safeParsePairToDD,
 };
 
 // Re-export formatting functions from formatters module
@@ -421,7 +1209,120 @@ export {
   formatDMPair,
   formatDMSPair,
   formatDDPair,
+  formatHeight,
+  formatCoordinate,
+  formatBearing,
+  formatUTM,
+  formatMGRS,
+  formatUPS,
+  formatOSGrid,
+  formatMaidenhead,
 } from "./formatters";
+export { FORMAT_PRESETS } from "../data";
+
+// Re-export grid reference functions
+export { ddPairToUTM, utmToDDPair, parseUTM } from "./utm";
+export { ddPairToMGRS, mgrsToDDPair, parseMGRS } from "./mgrs";
+export { ddPairToUPS, upsToDDPair, parseUPS } from "./ups";
+export { ddPairToOSGrid, osGridToDDPair, parseOSGrid } from "./osgrid";
+export {
+  ddPairToGeohash,
+  geohashToDDPair,
+  geohashBounds,
+  geohashNeighbors,
+  geohashesInBounds,
+} from "./geohash";
+export {
+  ddPairToMaidenhead,
+  maidenheadToDDPair,
+  maidenheadBounds,
+  isMaidenhead,
+} from "./maidenhead";
+export {
+  ddPairToPlusCode,
+  plusCodeToDDPair,
+  shortenPlusCode,
+  recoverPlusCode,
+  isPlusCode,
+} from "./plusCode";
+export {
+  CoordinateError,
+  OutOfRangeError,
+  MinutesOverflowError,
+  SecondsOverflowError,
+  UnrecognizedFormatError,
+  InvalidNumberError,
+  UnsupportedInputError,
+  InvalidProjectionError,
+  StrictParseError,
+} from "./errors";
+export { resolveLocale } from "./locale";
+export { precisionToMeters, metersToPrecision } from "./precision";
+export {
+  distance,
+  initialBearing,
+  finalBearing,
+  destination,
+  midpoint,
+  interpolate,
+  densify,
+  bearingToDMS,
+} from "./distance";
+export { rhumbDistance, rhumbBearing, rhumbDestination, rhumbMidpoint } from "./rhumb";
+export {
+  crossTrackDistance,
+  alongTrackDistance,
+  closestPointOnSegment,
+  closestPointOnPath,
+} from "./track";
+export { transformDatum } from "./datum";
+export { ddToECEF, ecefToDD, ddToENU, enuToDD, ddToNED, nedToDD } from "./ecef";
+export { parseHeight, convertHeight } from "./height";
+export { ddPairToProjected, projectedToDDPair } from "./projection";
+export { DATUMS, ELLIPSOIDS, PROJECTIONS } from "../data";
 
 // Re-export types from types module
-export { CoordinateType, Hemisphere, DD, DM, DMS } from "../types";
+export {
+  CoordinateType,
+  Hemisphere,
+  CoordinateErrorCode,
+  ParseWarningCode,
+  RoundingMode,
+  AngleUnit,
+  DistanceMethod,
+  DistanceUnit,
+  Datum,
+  DatumTransformMethod,
+  ProjectionMethod,
+  HeightUnit,
+  HeightReference,
+  DD,
+  DM,
+  DMS,
+  Height,
+  Ellipsoid,
+  HelmertParameters,
+  DatumDefinition,
+  UTM,
+  MGRS,
+  UPS,
+  OSGridRef,
+  BoundingBox,
+  GeohashCell,
+  GeohashNeighbors,
+  PlusCodeArea,
+  TrackPosition,
+  ECEF,
+  ENU,
+  NED,
+  GeodeticPoint,
+  ProjectionDefinition,
+  ProjectedPoint,
+  InputSpan,
+  CoordinateErrorDetails,
+  ParseWarning,
+  ParseResult,
+  PairWithHeight,
+  CoordinateLocale,
+  CoordinatePrecision,
+} from "../types";
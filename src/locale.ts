@@ -0,0 +1,126 @@
+import { UnrecognizedFormatError } from "./errors";
+import { CoordinateLocale, Hemisphere } from "../types";
+import { HEMISPHERE_LOCALES } from "../data";
+
+const DEFAULT_LANGUAGE = "en";
+
+const resolved = new Map<string, CoordinateLocale>();
+
+/**
+ * Resolves a BCP 47 language tag to the settings used for parsing and formatting coordinates.
+ *
+ * The decimal separator comes from `Intl.NumberFormat` for the full tag, so
+ * `"de-DE"` gives `","` and `"de-CH"` gives `"."`. Hemisphere letters and
+ * words come from the language subtag; languages without an entry fall
+ * back to English letters. A CoordinateLocale object is returned unchanged.
+ *
+ * Resolved tags are cached and the returned object is frozen; spread it to
+ * override individual settings.
+ *
+ * @param locale - A language tag such as `"fr"` or `"es-MX"`, or a CoordinateLocale (default: "en")
+ * @returns The resolved CoordinateLocale
+ *
+ * @throws {UnrecognizedFormatError} When the language tag is not a valid BCP 47 tag
+ *
+ * @example
+ * ```typescript
+ * resolveLocale("fr");
+ * // { decimalSeparator: ",", hemispheres: { N: "N", S: "S", E: "E", W: "O" },
+ * //   hemisphereWords: { N: ["Nord"], S: ["Sud"], E: ["Est"], W: ["O", "Ouest"] },
+ * //   spaceBeforeHemisphere: true }
+ *
+ * // French letters without the space before the hemisphere
+ * const compact = { ...resolveLocale("fr"), spaceBeforeHemisphere: false };
+ * ```
+ */
+function resolveLocale(
+  locale: string | CoordinateLocale = DEFAULT_LANGUAGE
+): CoordinateLocale {
+  if (typeof locale !== "string") return locale;
+  const cached = resolved.get(locale);
+  if (cached) return cached;
+
+  let decimalSeparator: string;
+  try {
+    decimalSeparator =
+      new Intl.NumberFormat(locale)
+        .formatToParts(1.5)
+        .find((part) => part.type === "decimal")?.value ?? ".";
+  } catch {
+    throw new UnrecognizedFormatError(`Invalid locale: ${JSON.stringify(locale)}`, {
+      value: locale,
+    });
+  }
+
+  const language = locale.split(/[-_]/)[0].toLowerCase();
+  const names = HEMISPHERE_LOCALES[language] ?? HEMISPHERE_LOCALES[DEFAULT_LANGUAGE];
+  const result: CoordinateLocale = Object.freeze({
+    decimalSeparator,
+    hemispheres: Object.freeze({ ...names.letters }),
+    hemisphereWords: names.words,
+    spaceBeforeHemisphere: true,
+  });
+  resolved.set(locale, result);
+  return result;
+}
+
+/**
+ * Formats a number with a fixed number of decimals and the locale's decimal separator.
+ *
+ * @param value - The number to format
+ * @param decimals - Number of decimal places
+ * @param locale - The resolved locale, or undefined for a plain `"."`
+ * @returns The formatted number
+ */
+function formatNumber(
+  value: number,
+  decimals: number,
+  locale?: CoordinateLocale
+): string {
+  const fixed = value.toFixed(decimals);
+  return locale ? fixed.replace(".", locale.decimalSeparator) : fixed;
+}
+
+const wordTables = new WeakMap<CoordinateLocale, Map<string, Hemisphere>>();
+let defaultWordTable: Map<string, Hemisphere> | undefined;
+
+/**
+ * Returns the upper-case words the parser accepts for each hemisphere.
+ *
+ * English letters and words are always accepted; a locale adds its own
+ * letters and words, which win where they clash (German `"O"` is East,
+ * French `"O"` is West).
+ *
+ * @param locale - The resolved locale, or undefined for English only
+ * @returns A map from upper-case word to hemisphere
+ */
+function hemisphereWords(locale?: CoordinateLocale): Map<string, Hemisphere> {
+  if (!locale) {
+    if (!defaultWordTable) defaultWordTable = buildWordTable();
+    return defaultWordTable;
+  }
+  let table = wordTables.get(locale);
+  if (!table) {
+    table = buildWordTable(locale);
+    wordTables.set(locale, table);
+  }
+  return table;
+}
+
+function buildWordTable(locale?: CoordinateLocale): Map<string, Hemisphere> {
+  const table = new Map<string, Hemisphere>();
+  const add = (words: Partial<Record<Hemisphere, string[]>>) => {
+    for (const hemi of Object.values(Hemisphere))
+      for (const word of words[hemi] ?? []) table.set(word.toUpperCase(), hemi);
+  };
+  add(HEMISPHERE_LOCALES[DEFAULT_LANGUAGE].words);
+  if (locale) {
+    const letters: Partial<Record<Hemisphere, string[]>> = {};
+    for (const hemi of Object.values(Hemisphere)) letters[hemi] = [locale.hemispheres[hemi]];
+    add(letters);
+    add(locale.hemisphereWords ?? {});
+  }
+  return table;
+}
+
+export { resolveLocale, formatNumber, hemisphereWords };
@@ -0,0 +1,165 @@
+import { ensureFinite, validateRange } from "./helpers";
+import { OutOfRangeError, UnrecognizedFormatError } from "./errors";
+import { CoordinateType, DD, BoundingBox } from "../types";
+import { MAIDENHEAD_CONSTANTS, PRECISION_DEFAULTS } from "../data";
+
+const LOCATOR_PATTERN =
+  /^[A-R]{2}(?:\d{2}(?:[A-X]{2}(?:\d{2}(?:[A-X]{2})?)?)?)?$/i;
+
+/**
+ * Encodes a pair of Decimal Degrees (DD) as a Maidenhead grid locator.
+ *
+ * The locator uses the conventional casing: fields in upper case and
+ * subsquares in lower case (e.g. `"CN88xt"`).
+ *
+ * @param latDD - The latitude DD object
+ * @param lonDD - The longitude DD object
+ * @param length - Number of locator characters: 2, 4, 6, 8 or 10 (default: PRECISION_DEFAULTS.MAIDENHEAD_LENGTH)
+ * @returns The Maidenhead locator string
+ *
+ * @throws {InvalidNumberError} When either coordinate is not a finite number
+ * @throws {OutOfRangeError} When either coordinate is out of range or the length is unsupported
+ *
+ * @example
+ * ```typescript
+ * const latDD = { kind: CoordinateType.LAT, degrees: 41.714775 };
+ * const lonDD = { kind: CoordinateType.LON, degrees: -72.72726 };
+ * ddPairToMaidenhead(latDD, lonDD);      // "FN31pr"
+ * ddPairToMaidenhead(latDD, lonDD, 8);   // "FN31pr21"
+ * ```
+ */
+function ddPairToMaidenhead(
+  latDD: DD,
+  lonDD: DD,
+  length = PRECISION_DEFAULTS.MAIDENHEAD_LENGTH
+): string {
+  const lat = ensureFinite(latDD.degrees, "latitude", { kind: CoordinateType.LAT });
+  const lon = ensureFinite(lonDD.degrees, "longitude", { kind: CoordinateType.LON });
+  validateRange(CoordinateType.LAT, lat);
+  validateRange(CoordinateType.LON, lon);
+  if (!MAIDENHEAD_CONSTANTS.LENGTHS.includes(length))
+    throw new OutOfRangeError(
+      `Maidenhead locator length must be one of ${MAIDENHEAD_CONSTANTS.LENGTHS.join(", ")} (got ${length})`,
+      { value: length }
+    );
+
+  let lonRem = lon + 180;
+  let latRem = lat + 90;
+  let locator = "";
+  for (let pair = 0; pair < length / 2; pair++) {
+    const base = MAIDENHEAD_CONSTANTS.BASES[pair];
+    // Clamp so the +180 / +90 edges land in the last cell rather than past it
+    const lonIndex = Math.min(
+      Math.floor(lonRem / MAIDENHEAD_CONSTANTS.LON_UNITS[pair]),
+      base - 1
+    );
+    const latIndex = Math.min(
+      Math.floor(latRem / MAIDENHEAD_CONSTANTS.LAT_UNITS[pair]),
+      base - 1
+    );
+    lonRem -= lonIndex * MAIDENHEAD_CONSTANTS.LON_UNITS[pair];
+    latRem -= latIndex * MAIDENHEAD_CONSTANTS.LAT_UNITS[pair];
+    locator += symbol(pair, lonIndex) + symbol(pair, latIndex);
+  }
+  return locator;
+}
+
+/**
+ * Decodes a Maidenhead grid locator to the centre of its square.
+ *
+ * @param locator - The Maidenhead locator (2, 4, 6, 8 or 10 characters, case-insensitive)
+ * @returns A tuple of DD objects [latitude, longitude] at the centre of the square
+ *
+ * @throws {UnrecognizedFormatError} When the locator is malformed
+ *
+ * @example
+ * ```typescript
+ * const [lat, lon] = maidenheadToDDPair("FN31pr");
+ * // lat: { kind: "lat", degrees: 41.729167 }
+ * // lon: { kind: "lon", degrees: -72.708333 }
+ * ```
+ */
+function maidenheadToDDPair(locator: string): [DD, DD] {
+  const { sw, ne } = maidenheadBounds(locator);
+  return [
+    { kind: CoordinateType.LAT, degrees: (sw[0].degrees + ne[0].degrees) / 2 },
+    { kind: CoordinateType.LON, degrees: (sw[1].degrees + ne[1].degrees) / 2 },
+  ];
+}
+
+/**
+ * Returns the south-west and north-east corners of a Maidenhead square.
+ *
+ * @param locator - The Maidenhead locator (2, 4, 6, 8 or 10 characters, case-insensitive)
+ * @returns A BoundingBox with `sw` and `ne` as [latitude, longitude] DD pairs
+ *
+ * @throws {UnrecognizedFormatError} When the locator is malformed
+ *
+ * @example
+ * ```typescript
+ * maidenheadBounds("FN31");
+ * // { sw: [{ kind: "lat", degrees: 41 }, { kind: "lon", degrees: -74 }],
+ * //   ne: [{ kind: "lat", degrees: 42 }, { kind: "lon", degrees: -72 }] }
+ * ```
+ */
+function maidenheadBounds(locator: string): BoundingBox {
+  if (!isMaidenhead(locator))
+    throw new UnrecognizedFormatError(
+      `Unrecognized Maidenhead locator: ${JSON.stringify(locator)}`,
+      { value: locator }
+    );
+
+  const upper = locator.toUpperCase();
+  let lon = -180;
+  let lat = -90;
+  const pairs = upper.length / 2;
+  for (let pair = 0; pair < pairs; pair++) {
+    lon += index(pair, upper[pair * 2]) * MAIDENHEAD_CONSTANTS.LON_UNITS[pair];
+    lat += index(pair, upper[pair * 2 + 1]) * MAIDENHEAD_CONSTANTS.LAT_UNITS[pair];
+  }
+  return {
+    sw: [
+      { kind: CoordinateType.LAT, degrees: lat },
+      { kind: CoordinateType.LON, degrees: lon },
+    ],
+    ne: [
+      {
+        kind: CoordinateType.LAT,
+        degrees: lat + MAIDENHEAD_CONSTANTS.LAT_UNITS[pairs - 1],
+      },
+      {
+        kind: CoordinateType.LON,
+        degrees: lon + MAIDENHEAD_CONSTANTS.LON_UNITS[pairs - 1],
+      },
+    ],
+  };
+}
+
+/**
+ * Checks whether a string is a well-formed Maidenhead locator.
+ *
+ * @param input - The string to test
+ * @returns True for 2, 4, 6, 8 or 10 character locators in any case
+ *
+ * @example
+ * ```typescript
+ * isMaidenhead("CN88xt")   // true
+ * isMaidenhead("CN8")      // false
+ * ```
+ */
+function isMaidenhead(input: string): boolean {
+  return typeof input === "string" && LOCATOR_PATTERN.test(input);
+}
+
+// Even pairs (field, subsquare, extended subsquare) are letters; odd pairs are digits
+function symbol(pair: number, value: number): string {
+  if (pair % 2 === 1) return String(value);
+  const letter = String.fromCharCode(65 + value);
+  return pair === 0 ? letter : letter.toLowerCase();
+}
+
+function index(pair: number, char: string): number {
+  return pair % 2 === 1 ? Number(char) : char.charCodeAt(0) - 65;
+}
+
+export { ddPairToMaidenhead, maidenheadToDDPair, maidenheadBounds, isMaidenhead };
@@ -0,0 +1,190 @@
+import { ddPairToUTM, utmToDDPair } from "./utm";
+import { tmForward } from "./transverseMercator";
+import { OutOfRangeError, UnrecognizedFormatError } from "./errors";
+import { DD, MGRS, Hemisphere } from "../types";
+import { MGRS_CONSTANTS, UTM_CONSTANTS, WGS84 } from "../data";
+
+/**
+ * Converts a pair of Decimal Degrees (DD) to a Military Grid Reference System (MGRS) reference.
+ *
+ * MGRS and USNG are identical on WGS84, so the result serves both. The
+ * easting and northing within the 100 km square are truncated (not rounded)
+ * to the requested precision, as the MGRS standard requires.
+ *
+ * @param latDD - The latitude DD object
+ * @param lonDD - The longitude DD object
+ * @param precision - Size of the referenced square in metres: 1, 10, 100, 1000, 10000 or 100000 (default: 1)
+ * @returns An MGRS object
+ *
+ * @throws {InvalidNumberError} When either coordinate is not a finite number
+ * @throws {OutOfRangeError} When the precision is unsupported or the position is outside UTM coverage
+ *
+ * @example
+ * ```typescript
+ * const latDD = { kind: CoordinateType.LAT, degrees: 48.8582 };
+ * const lonDD = { kind: CoordinateType.LON, degrees: 2.2945 };
+ * ddPairToMGRS(latDD, lonDD);
+ * // { zone: 31, band: "U", column: "D", row: "Q", easting: 48251, northing: 11932, precision: 1 }
+ * ```
+ */
+function ddPairToMGRS(latDD: DD, lonDD: DD, precision = 1): MGRS {
+  validatePrecision(precision);
+  const utm = ddPairToUTM(latDD, lonDD);
+
+  // Round to the nanometre first so float noise never drops a metre on truncation
+  const easting = Number(utm.easting.toFixed(6));
+  const northing = Number(utm.northing.toFixed(6));
+  const size = MGRS_CONSTANTS.SQUARE_SIZE;
+
+  const colIndex = Math.floor(easting / size) - 1;
+  const rowIndex = Math.floor(northing / size) % (MGRS_CONSTANTS.ROW_CYCLE / size);
+
+  return {
+    zone: utm.zone,
+    band: utm.band,
+    column: columnLetters(utm.zone)[colIndex],
+    row: rowLetters(utm.zone)[rowIndex],
+    easting: Math.floor((easting % size) / precision) * precision,
+    northing: Math.floor((northing % size) / precision) * precision,
+    precision,
+  };
+}
+
+/**
+ * Converts a Military Grid Reference System (MGRS) reference to a pair of Decimal Degrees (DD).
+ *
+ * An MGRS reference denotes a square rather than a point; by default the
+ * south-west corner is returned, or its centre with `opts.center`.
+ *
+ * @param mgrs - The MGRS object to convert
+ * @param opts - Optional conversion options
+ * @param opts.center - Return the centre of the referenced square (default: false)
+ * @returns A tuple of DD objects [latitude, longitude]
+ *
+ * @throws {OutOfRangeError} When the precision is unsupported or the zone is not an integer in [1, 60]
+ * @throws {UnrecognizedFormatError} When the band or 100 km square letters are invalid
+ *
+ * @example
+ * ```typescript
+ * const [lat, lon] = mgrsToDDPair(parseMGRS("31U DQ 48251 11932"));
+ * // lat: { kind: "lat", degrees: 48.858196 }
+ * // lon: { kind: "lon", degrees: 2.294487 }
+ * ```
+ */
+function mgrsToDDPair(mgrs: MGRS, opts?: { center?: boolean }): [DD, DD] {
+  validatePrecision(mgrs.precision);
+  if (!Number.isInteger(mgrs.zone) || mgrs.zone < 1 || mgrs.zone > UTM_CONSTANTS.ZONE_COUNT)
+    throw new OutOfRangeError(`MGRS zone must be an integer in [1, 60] (got ${mgrs.zone})`, {
+      value: mgrs.zone,
+    });
+  const bandIndex = UTM_CONSTANTS.BANDS.indexOf(mgrs.band);
+  if (mgrs.band.length !== 1 || bandIndex < 0)
+    throw new UnrecognizedFormatError(`Invalid MGRS latitude band: ${JSON.stringify(mgrs.band)}`, {
+      value: mgrs.band,
+    });
+
+  const colIndex = columnLetters(mgrs.zone).indexOf(mgrs.column);
+  if (mgrs.column.length !== 1 || colIndex < 0)
+    throw new UnrecognizedFormatError(
+      `Invalid MGRS 100 km column ${JSON.stringify(mgrs.column)} for zone ${mgrs.zone}`,
+      { value: mgrs.column }
+    );
+  const rowIndex = rowLetters(mgrs.zone).indexOf(mgrs.row);
+  if (mgrs.row.length !== 1 || rowIndex < 0)
+    throw new UnrecognizedFormatError(
+      `Invalid MGRS 100 km row ${JSON.stringify(mgrs.row)} for zone ${mgrs.zone}`,
+      { value: mgrs.row }
+    );
+
+  const size = MGRS_CONSTANTS.SQUARE_SIZE;
+  const offset = opts?.center ? mgrs.precision / 2 : 0;
+  const easting = (colIndex + 1) * size + mgrs.easting + offset;
+  const withinCycle = rowIndex * size + mgrs.northing + offset;
+
+  // Row letters repeat every 2000 km; pick the cycle that lands inside the
+  // band by starting from the northing of the band's southern edge.
+  const hemisphere = mgrs.band >= "N" ? Hemisphere.N : Hemisphere.S;
+  const bandLat = (bandIndex - 10) * 8;
+  const bandNorthing =
+    tmForward(bandLat, 0, 0, UTM_CONSTANTS.SCALE_FACTOR, WGS84).y +
+    (hemisphere === Hemisphere.S ? UTM_CONSTANTS.FALSE_NORTHING_SOUTH : 0);
+  const bandFloor = Math.floor(bandNorthing / size) * size;
+  let northing = withinCycle;
+  while (northing < bandFloor) northing += MGRS_CONSTANTS.ROW_CYCLE;
+
+  return utmToDDPair({
+    zone: mgrs.zone,
+    band: mgrs.band,
+    easting,
+    northing,
+    hemisphere,
+  });
+}
+
+/**
+ * Parses an MGRS/USNG reference string into an MGRS object.
+ *
+ * Accepts spaced and unspaced forms with 0–10 digits (an even count):
+ * - `"18T WL 80815 05890"`
+ * - `"18TWL8081505890"`
+ * - `"18T WL 808 058"` (100 m precision)
+ *
+ * @param input - The MGRS reference string
+ * @returns An MGRS object whose precision follows from the number of digits
+ *
+ * @throws {UnrecognizedFormatError} When the input format is unrecognized
+ * @throws {OutOfRangeError} When the zone is not in [1, 60]
+ *
+ * @example
+ * ```typescript
+ * parseMGRS("18T WL 80815 05890");
+ * // { zone: 18, band: "T", column: "W", row: "L", easting: 80815, northing: 5890, precision: 1 }
+ * ```
+ */
+function parseMGRS(input: string): MGRS {
+  const compact = String(input).replace(/\s+/g, "").toUpperCase();
+  const match = compact.match(
+    /^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d{0,10})$/
+  );
+  if (!match || match[5].length % 2 !== 0)
+    throw new UnrecognizedFormatError(`Unrecognized MGRS format: ${JSON.stringify(input)}`, {
+      value: input,
+    });
+
+  const zone = Number(match[1]);
+  if (zone < 1 || zone > UTM_CONSTANTS.ZONE_COUNT)
+    throw new OutOfRangeError(`MGRS zone must be an integer in [1, 60] (got ${zone})`, {
+      value: zone,
+    });
+
+  const digits = match[5];
+  const half = digits.length / 2;
+  const precision = 10 ** (5 - half);
+  return {
+    zone,
+    band: match[2],
+    column: match[3],
+    row: match[4],
+    easting: half ? Number(digits.slice(0, half)) * precision : 0,
+    northing: half ? Number(digits.slice(half)) * precision : 0,
+    precision,
+  };
+}
+
+function columnLetters(zone: number): string {
+  return MGRS_CONSTANTS.COLUMN_LETTERS[(zone - 1) % 3];
+}
+
+function rowLetters(zone: number): string {
+  return MGRS_CONSTANTS.ROW_LETTERS[(zone - 1) % 2];
+}
+
+function validatePrecision(precision: number) {
+  if (!MGRS_CONSTANTS.PRECISIONS.includes(precision))
+    throw new OutOfRangeError(
+      `MGRS precision must be one of ${MGRS_CONSTANTS.PRECISIONS.join(", ")} metres (got ${precision})`,
+      { value: precision }
+    );
+}
+
+export { ddPairToMGRS, mgrsToDDPair, parseMGRS };
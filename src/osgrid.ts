@@ -0,0 +1,192 @@
+import { commonDatum, ensureFinite } from "./helpers";
+import { tmForward, tmInverse } from "./transverseMercator";
+import { toPair } from "./distance";
+import { transformDatum } from "./datum";
+import { OutOfRangeError, UnrecognizedFormatError } from "./errors";
+import { DD, Datum, OSGridRef } from "../types";
+import { DATUMS, OSGB_CONSTANTS } from "../data";
+
+const AIRY = DATUMS[Datum.OSGB36].ellipsoid;
+
+// Distance of the true origin from the equator, which the false northing replaces
+const ORIGIN_NORTHING = tmForward(
+  OSGB_CONSTANTS.ORIGIN_LAT,
+  OSGB_CONSTANTS.ORIGIN_LON,
+  OSGB_CONSTANTS.ORIGIN_LON,
+  OSGB_CONSTANTS.SCALE_FACTOR,
+  AIRY
+).y;
+
+/**
+ * Converts a pair of Decimal Degrees (DD) to an Ordnance Survey National Grid position.
+ *
+ * The pair is shifted onto OSGB36 with {@link transformDatum} and projected
+ * with the National Grid's transverse Mercator on the Airy 1830 ellipsoid.
+ * Pairs without a datum are taken as WGS84. The Helmert shift is good to a
+ * few metres; the OS's own OSTN15 grid shift is not applied.
+ *
+ * @param latDD - The latitude DD object
+ * @param lonDD - The longitude DD object
+ * @returns An OSGridRef with the easting and northing in metres
+ *
+ * @throws {OutOfRangeError} When either coordinate is out of range, or the position is outside the National Grid
+ * @throws {UnsupportedInputError} When the coordinates name different datums
+ *
+ * @example
+ * ```typescript
+ * ddPairToOSGrid(...parsePairToDD(51.50083, -0.12468));
+ * // { easting: 530264.0, northing: 179655.0 }
+ * ```
+ */
+function ddPairToOSGrid(latDD: DD, lonDD: DD): OSGridRef {
+  const from = commonDatum([latDD, lonDD]) ?? Datum.WGS84;
+  const [lat, lon] = transformDatum([latDD, lonDD], from, Datum.OSGB36);
+  const { x, y } = tmForward(
+    lat.degrees,
+    lon.degrees,
+    OSGB_CONSTANTS.ORIGIN_LON,
+    OSGB_CONSTANTS.SCALE_FACTOR,
+    AIRY
+  );
+
+  const easting = x + OSGB_CONSTANTS.FALSE_EASTING;
+  const northing = y - ORIGIN_NORTHING + OSGB_CONSTANTS.FALSE_NORTHING;
+  validateExtent(easting, northing);
+  return { easting, northing };
+}
+
+/**
+ * Converts an Ordnance Survey National Grid position to a pair of Decimal Degrees (DD).
+ *
+ * A reference read by {@link parseOSGrid} at less than 1 m precision names a
+ * square; its south-west corner is used unless `opts.center` is set. The
+ * result is shifted from OSGB36 to `opts.datum` and tagged with it.
+ *
+ * @param grid - The OSGridRef to convert
+ * @param opts - Optional conversion options
+ * @param opts.center - Use the centre of the referenced square instead of its south-west corner (default: false)
+ * @param opts.datum - The datum of the result (default: Datum.WGS84)
+ * @returns A tuple of DD objects [latitude, longitude]
+ *
+ * @throws {InvalidNumberError} When the easting or northing is not a finite number
+ * @throws {OutOfRangeError} When the position is outside the National Grid
+ *
+ * @example
+ * ```typescript
+ * osGridToDDPair({ easting: 530264, northing: 179655 });
+ * // [{ kind: "lat", degrees: 51.50083, datum: "WGS84" }, { kind: "lon", degrees: -0.12468, datum: "WGS84" }]
+ * osGridToDDPair(parseOSGrid("TQ 302 796"), { center: true });  // centre of a 100 m square
+ * ```
+ */
+function osGridToDDPair(grid: OSGridRef, opts?: { center?: boolean; datum?: Datum }): [DD, DD] {
+  const offset = opts?.center && grid.precision ? grid.precision / 2 : 0;
+  const easting = ensureFinite(grid.easting, "OS grid easting") + offset;
+  const northing = ensureFinite(grid.northing, "OS grid northing") + offset;
+  validateExtent(easting, northing);
+
+  const { lat, lon } = tmInverse(
+    easting - OSGB_CONSTANTS.FALSE_EASTING,
+    northing - OSGB_CONSTANTS.FALSE_NORTHING + ORIGIN_NORTHING,
+    OSGB_CONSTANTS.ORIGIN_LON,
+    OSGB_CONSTANTS.SCALE_FACTOR,
+    AIRY
+  );
+  return transformDatum(toPair(lat, lon, Datum.OSGB36), Datum.OSGB36, opts?.datum ?? Datum.WGS84);
+}
+
+/**
+ * Parses an Ordnance Survey National Grid reference.
+ *
+ * Lettered references ("TQ 30076 80687", "TQ3007680687", "tq 300 806") take
+ * 0 to 10 digits, split evenly between easting and northing, and give the
+ * south-west corner of the square they name with its size as `precision`.
+ * Numeric references ("530076, 180687", "530076E 180687N") are full
+ * eastings and northings in metres.
+ *
+ * @param input - The grid reference string
+ * @returns An OSGridRef
+ *
+ * @throws {UnrecognizedFormatError} When the input is not a grid reference
+ * @throws {OutOfRangeError} When the reference is outside the National Grid
+ *
+ * @example
+ * ```typescript
+ * parseOSGrid("TQ 30076 80687");     // { easting: 530076, northing: 180687, precision: 1 }
+ * parseOSGrid("TQ 300 806");         // { easting: 530000, northing: 180600, precision: 100 }
+ * parseOSGrid("530076mE 180687mN");  // { easting: 530076, northing: 180687 }
+ * ```
+ */
+function parseOSGrid(input: string): OSGridRef {
+  const text = String(input).trim().toUpperCase();
+  const numeric = text.match(
+    /^(\d+(?:\.\d+)?)\s*(?:M?E)?(?:\s*,\s*|\s+)(\d+(?:\.\d+)?)\s*(?:M?N)?$/
+  );
+  if (numeric) {
+    const easting = Number(numeric[1]);
+    const northing = Number(numeric[2]);
+    validateExtent(easting, northing);
+    return { easting, northing };
+  }
+
+  const lettered = text.replace(/\s+/g, "").match(/^([A-HJ-Z]{2})(\d{0,10})$/);
+  if (!lettered || lettered[2].length % 2 !== 0)
+    throw new UnrecognizedFormatError(`Unrecognized OS grid reference: ${JSON.stringify(input)}`, {
+      value: input,
+    });
+
+  const [e100k, n100k] = squareOrigin(lettered[1]);
+  const digits = lettered[2];
+  const half = digits.length / 2;
+  const precision = 10 ** (5 - half);
+  const size = OSGB_CONSTANTS.SQUARE_SIZE;
+  return {
+    easting: e100k * size + (half ? Number(digits.slice(0, half)) * precision : 0),
+    northing: n100k * size + (half ? Number(digits.slice(half)) * precision : 0),
+    precision,
+  };
+}
+
+// Letters of the 100 km square holding a position. The first letter picks a
+// 500 km square and the second a 100 km square inside it, both from a 5 × 5
+// grid lettered west to east and north to south; the false origin is in S.
+function squareLetters(easting: number, northing: number): string {
+  validateExtent(easting, northing);
+  const e100k = Math.floor(easting / OSGB_CONSTANTS.SQUARE_SIZE);
+  const n100k = Math.floor(northing / OSGB_CONSTANTS.SQUARE_SIZE);
+  const first = 19 - n100k - ((19 - n100k) % 5) + Math.floor((e100k + 10) / 5);
+  const second = (((19 - n100k) * 5) % 25) + (e100k % 5);
+  return OSGB_CONSTANTS.LETTERS[first] + OSGB_CONSTANTS.LETTERS[second];
+}
+
+// Inverse of squareLetters: the square's [easting, northing] in 100 km units
+function squareOrigin(letters: string): [number, number] {
+  const first = OSGB_CONSTANTS.LETTERS.indexOf(letters[0]);
+  const second = OSGB_CONSTANTS.LETTERS.indexOf(letters[1]);
+  const e100k = ((first - 2) % 5) * 5 + (second % 5);
+  const n100k = 19 - Math.floor(first / 5) * 5 - Math.floor(second / 5);
+  if (
+    e100k < 0 ||
+    n100k < 0 ||
+    e100k * OSGB_CONSTANTS.SQUARE_SIZE >= OSGB_CONSTANTS.MAX_EASTING ||
+    n100k * OSGB_CONSTANTS.SQUARE_SIZE >= OSGB_CONSTANTS.MAX_NORTHING
+  )
+    throw new OutOfRangeError(`OS grid square ${letters} is outside the National Grid`, {
+      value: letters,
+    });
+  return [e100k, n100k];
+}
+
+function validateExtent(easting: number, northing: number) {
+  if (
+    easting < 0 ||
+    easting >= OSGB_CONSTANTS.MAX_EASTING ||
+    northing < 0 ||
+    northing >= OSGB_CONSTANTS.MAX_NORTHING
+  )
+    throw new OutOfRangeError(
+      `Position is outside the National Grid (easting ${easting}, northing ${northing})`,
+      { value: [easting, northing] }
+    );
+}
+
+export { ddPairToOSGrid, osGridToDDPair, parseOSGrid, squareLetters };
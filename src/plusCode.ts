@@ -0,0 +1,366 @@
+import { ensureFinite, normalizeLongitude, validateRange } from "./helpers";
+import { OutOfRangeError, UnrecognizedFormatError } from "./errors";
+import { CoordinateType, DD, PlusCodeArea } from "../types";
+import { PLUS_CODE_CONSTANTS as OLC, PRECISION_DEFAULTS } from "../data";
+
+/**
+ * Encodes a pair of Decimal Degrees (DD) as a full Open Location Code (Plus Code).
+ *
+ * @param latDD - The latitude DD object
+ * @param lonDD - The longitude DD object
+ * @param codeLength - Number of significant digits: 2, 4, 6, 8, or 10–15 (default: PRECISION_DEFAULTS.PLUS_CODE_LENGTH)
+ * @returns The full Plus Code, e.g. `"84VVJM6C+Q6"`
+ *
+ * @throws {InvalidNumberError} When either coordinate is not a finite number
+ * @throws {OutOfRangeError} When either coordinate is out of range or the code length is unsupported
+ *
+ * @example
+ * ```typescript
+ * const latDD = { kind: CoordinateType.LAT, degrees: 20.3700625 };
+ * const lonDD = { kind: CoordinateType.LON, degrees: 2.7821875 };
+ * ddPairToPlusCode(latDD, lonDD);       // "7FG49QCJ+2V"
+ * ddPairToPlusCode(latDD, lonDD, 11);   // "7FG49QCJ+2VX"
+ * ddPairToPlusCode(latDD, lonDD, 6);    // "7FG49Q00+"
+ * ```
+ */
+function ddPairToPlusCode(
+  latDD: DD,
+  lonDD: DD,
+  codeLength = PRECISION_DEFAULTS.PLUS_CODE_LENGTH
+): string {
+  const lat = ensureFinite(latDD.degrees, "latitude", { kind: CoordinateType.LAT });
+  const lon = ensureFinite(lonDD.degrees, "longitude", { kind: CoordinateType.LON });
+  validateRange(CoordinateType.LAT, lat);
+  validateRange(CoordinateType.LON, lon);
+  if (
+    !Number.isInteger(codeLength) ||
+    codeLength < 2 ||
+    codeLength > OLC.MAX_CODE_LENGTH ||
+    (codeLength < OLC.PAIR_CODE_LENGTH && codeLength % 2 === 1)
+  )
+    throw new OutOfRangeError(
+      `Plus Code length must be 2, 4, 6, 8 or 10–15 (got ${codeLength})`,
+      { value: codeLength }
+    );
+  return encode(lat, lon, codeLength);
+}
+
+/**
+ * Decodes a full Open Location Code (Plus Code) into its code area.
+ *
+ * The area's `sw`/`ne` corners show how much uncertainty the code carries;
+ * `center` is the usual single point to display.
+ *
+ * @param code - The full Plus Code (case-insensitive)
+ * @returns A PlusCodeArea with corners, centre and number of significant digits
+ *
+ * @throws {UnrecognizedFormatError} When the code is not a valid full Plus Code (short codes must be recovered first)
+ *
+ * @example
+ * ```typescript
+ * const area = plusCodeToDDPair("7FG49Q00+");
+ * // area.sw:     [{ kind: "lat", degrees: 20.35 }, { kind: "lon", degrees: 2.75 }]
+ * // area.ne:     [{ kind: "lat", degrees: 20.4 },  { kind: "lon", degrees: 2.8 }]
+ * // area.center: [{ kind: "lat", degrees: 20.375 }, { kind: "lon", degrees: 2.775 }]
+ * // area.codeLength: 6
+ * ```
+ */
+function plusCodeToDDPair(code: string): PlusCodeArea {
+  if (!isFullPlusCode(code)) {
+    if (isShortPlusCode(code))
+      throw new UnrecognizedFormatError(
+        `Short Plus Code ${JSON.stringify(code)} needs a reference location; use recoverPlusCode first`,
+        { value: code }
+      );
+    throw new UnrecognizedFormatError(
+      `Unrecognized Plus Code: ${JSON.stringify(code)}`,
+      { value: code }
+    );
+  }
+
+  const digits = code
+    .toUpperCase()
+    .replace(OLC.SEPARATOR, "")
+    .replace(new RegExp(`${OLC.PADDING}+`), "")
+    .slice(0, OLC.MAX_CODE_LENGTH);
+
+  let normalLat = -90 * OLC.PAIR_PRECISION;
+  let normalLon = -180 * OLC.PAIR_PRECISION;
+  let gridLat = 0;
+  let gridLon = 0;
+
+  const pairDigits = Math.min(digits.length, OLC.PAIR_CODE_LENGTH);
+  let placeValue = OLC.PAIR_FIRST_PLACE_VALUE;
+  for (let i = 0; i < pairDigits; i += 2) {
+    normalLat += OLC.ALPHABET.indexOf(digits[i]) * placeValue;
+    normalLon += OLC.ALPHABET.indexOf(digits[i + 1]) * placeValue;
+    if (i < pairDigits - 2) placeValue /= OLC.ENCODING_BASE;
+  }
+  let latPrecision = placeValue / OLC.PAIR_PRECISION;
+  let lonPrecision = placeValue / OLC.PAIR_PRECISION;
+
+  if (digits.length > OLC.PAIR_CODE_LENGTH) {
+    let rowPlaceValue = OLC.GRID_ROWS ** (OLC.GRID_CODE_LENGTH - 1);
+    let colPlaceValue = OLC.GRID_COLUMNS ** (OLC.GRID_CODE_LENGTH - 1);
+    for (let i = OLC.PAIR_CODE_LENGTH; i < digits.length; i++) {
+      const value = OLC.ALPHABET.indexOf(digits[i]);
+      gridLat += Math.floor(value / OLC.GRID_COLUMNS) * rowPlaceValue;
+      gridLon += (value % OLC.GRID_COLUMNS) * colPlaceValue;
+      if (i < digits.length - 1) {
+        rowPlaceValue /= OLC.GRID_ROWS;
+        colPlaceValue /= OLC.GRID_COLUMNS;
+      }
+    }
+    latPrecision = rowPlaceValue / OLC.FINAL_LAT_PRECISION;
+    lonPrecision = colPlaceValue / OLC.FINAL_LON_PRECISION;
+  }
+
+  const south = normalLat / OLC.PAIR_PRECISION + gridLat / OLC.FINAL_LAT_PRECISION;
+  const west = normalLon / OLC.PAIR_PRECISION + gridLon / OLC.FINAL_LON_PRECISION;
+  // Round away float noise well below the finest grid step (~4e-8°)
+  const north = roundDegrees(south + latPrecision);
+  const east = roundDegrees(west + lonPrecision);
+
+  return {
+    sw: [
+      { kind: CoordinateType.LAT, degrees: roundDegrees(south) },
+      { kind: CoordinateType.LON, degrees: roundDegrees(west) },
+    ],
+    ne: [
+      { kind: CoordinateType.LAT, degrees: Math.min(north, 90) },
+      { kind: CoordinateType.LON, degrees: Math.min(east, 180) },
+    ],
+    center: [
+      { kind: CoordinateType.LAT, degrees: Math.min(south + latPrecision / 2, 90) },
+      { kind: CoordinateType.LON, degrees: Math.min(west + lonPrecision / 2, 180) },
+    ],
+    codeLength: digits.length,
+  };
+}
+
+/**
+ * Shortens a full Plus Code relative to a nearby reference location.
+ *
+ * Leading digits are dropped while the reference stays close enough for
+ * {@link recoverPlusCode} to restore them (at most 8 digits are removed).
+ *
+ * @param code - The full Plus Code to shorten
+ * @param latDD - The reference latitude DD object
+ * @param lonDD - The reference longitude DD object
+ * @returns The shortest safe code, or the full code if no digits can be removed
+ *
+ * @throws {UnrecognizedFormatError} When the code is not a full, unpadded Plus Code
+ * @throws {InvalidNumberError} When the reference is not a finite number
+ * @throws {OutOfRangeError} When the reference is out of range
+ *
+ * @example
+ * ```typescript
+ * const [lat, lon] = parsePairToDD(51.3701125, -1.217765625);
+ * shortenPlusCode("9C3W9QCJ+2VX", lat, lon);   // "+2VX"
+ * ```
+ */
+function shortenPlusCode(code: string, latDD: DD, lonDD: DD): string {
+  if (!isFullPlusCode(code))
+    throw new UnrecognizedFormatError(
+      `Only full Plus Codes can be shortened (got ${JSON.stringify(code)})`,
+      { value: code }
+    );
+  if (code.includes(OLC.PADDING))
+    throw new UnrecognizedFormatError(
+      `Padded Plus Codes cannot be shortened (got ${JSON.stringify(code)})`,
+      { value: code }
+    );
+  const refLat = ensureFinite(latDD.degrees, "latitude", { kind: CoordinateType.LAT });
+  const refLon = ensureFinite(lonDD.degrees, "longitude", { kind: CoordinateType.LON });
+  validateRange(CoordinateType.LAT, refLat);
+  validateRange(CoordinateType.LON, refLon);
+
+  const upper = code.toUpperCase();
+  const [centerLat, centerLon] = plusCodeToDDPair(upper).center;
+  const range = Math.max(
+    Math.abs(centerLat.degrees - refLat),
+    Math.abs(centerLon.degrees - normalizeLongitude(refLon))
+  );
+
+  // 0.3 leaves a safety margin so recovery lands in the same cell
+  for (let i = OLC.PAIR_RESOLUTIONS.length - 2; i >= 1; i--) {
+    if (range < OLC.PAIR_RESOLUTIONS[i] * 0.3) return upper.substring((i + 1) * 2);
+  }
+  return upper;
+}
+
+/**
+ * Recovers the full Plus Code nearest to a reference location from a short code.
+ *
+ * Full codes are returned unchanged (upper-cased).
+ *
+ * @param shortCode - The short (or full) Plus Code, e.g. `"JM6C+Q6"`
+ * @param latDD - The reference latitude DD object
+ * @param lonDD - The reference longitude DD object
+ * @returns The full Plus Code whose area is closest to the reference
+ *
+ * @throws {UnrecognizedFormatError} When the code is not a valid Plus Code
+ * @throws {InvalidNumberError} When the reference is not a finite number
+ * @throws {OutOfRangeError} When the reference is out of range
+ *
+ * @example
+ * ```typescript
+ * const [lat, lon] = parsePairToDD(51.3708675, -1.217765625);
+ * recoverPlusCode("9QCJ+2VX", lat, lon);   // "9C3W9QCJ+2VX"
+ * ```
+ */
+function recoverPlusCode(shortCode: string, latDD: DD, lonDD: DD): string {
+  if (!isShortPlusCode(shortCode)) {
+    if (isFullPlusCode(shortCode)) return shortCode.toUpperCase();
+    throw new UnrecognizedFormatError(`Unrecognized Plus Code: ${JSON.stringify(shortCode)}`, {
+      value: shortCode,
+    });
+  }
+  const refLat = ensureFinite(latDD.degrees, "latitude", { kind: CoordinateType.LAT });
+  const lonDegrees = ensureFinite(lonDD.degrees, "longitude", { kind: CoordinateType.LON });
+  validateRange(CoordinateType.LAT, refLat);
+  validateRange(CoordinateType.LON, lonDegrees);
+
+  const refLon = normalizeLongitude(lonDegrees);
+  const upper = shortCode.toUpperCase();
+  const paddingLength = OLC.SEPARATOR_POSITION - upper.indexOf(OLC.SEPARATOR);
+  const resolution = OLC.ENCODING_BASE ** (2 - paddingLength / 2);
+  const halfResolution = resolution / 2;
+
+  const area = plusCodeToDDPair(
+    encode(refLat, refLon, PRECISION_DEFAULTS.PLUS_CODE_LENGTH).slice(0, paddingLength) + upper
+  );
+  let lat = area.center[0].degrees;
+  let lon = area.center[1].degrees;
+
+  // The prefix came from the reference's own cell; step one cell over if
+  // that puts the result closer to the reference.
+  if (refLat + halfResolution < lat && lat - resolution >= -90) lat -= resolution;
+  else if (refLat - halfResolution > lat && lat + resolution <= 90) lat += resolution;
+  if (refLon + halfResolution < lon) lon -= resolution;
+  else if (refLon - halfResolution > lon) lon += resolution;
+
+  return encode(lat, normalizeLongitude(lon), area.codeLength);
+}
+
+/**
+ * Checks whether a string is a valid full or short Open Location Code.
+ *
+ * @param input - The string to test
+ * @returns True for well-formed full (`"84VVJM6C+Q6"`) or short (`"JM6C+Q6"`) codes
+ *
+ * @example
+ * ```typescript
+ * isPlusCode("84VVJM6C+Q6")   // true
+ * isPlusCode("JM6C+Q6")       // true
+ * isPlusCode("84VVJM6C")      // false (no separator)
+ * isPlusCode("+45")           // false (nothing before the separator)
+ * ```
+ */
+function isPlusCode(input: string): boolean {
+  return isFullPlusCode(input) || isShortPlusCode(input);
+}
+
+function isValidPlusCode(code: string): boolean {
+  if (typeof code !== "string") return false;
+  const upper = code.toUpperCase();
+  const sep = upper.indexOf(OLC.SEPARATOR);
+  if (sep < 0 || sep !== upper.lastIndexOf(OLC.SEPARATOR)) return false;
+  if (sep > OLC.SEPARATOR_POSITION || sep % 2 === 1) return false;
+  // Short codes keep at least two characters before the separator, which
+  // also keeps signed numbers such as "+45" from reading as codes
+  if (sep < 2) return false;
+  // A single character after the separator is never valid
+  if (upper.length - sep - 1 === 1) return false;
+
+  const pad = upper.indexOf(OLC.PADDING);
+  if (pad >= 0) {
+    if (sep < OLC.SEPARATOR_POSITION || pad === 0 || pad % 2 === 1) return false;
+    const padding = upper.slice(pad, sep);
+    if (!/^0+$/.test(padding) || padding.length % 2 === 1) return false;
+    if (upper.length > sep + 1) return false;
+  }
+
+  const digits = upper.replace(OLC.SEPARATOR, "").replace(/0+/, "");
+  return [...digits].every((char) => OLC.ALPHABET.includes(char));
+}
+
+function isShortPlusCode(code: string): boolean {
+  if (!isValidPlusCode(code)) return false;
+  const sep = code.indexOf(OLC.SEPARATOR);
+  return sep >= 0 && sep < OLC.SEPARATOR_POSITION;
+}
+
+function isFullPlusCode(code: string): boolean {
+  if (!isValidPlusCode(code) || isShortPlusCode(code)) return false;
+  const upper = code.toUpperCase();
+  const firstLat = OLC.ALPHABET.indexOf(upper[0]) * OLC.ENCODING_BASE;
+  if (firstLat >= 180) return false;
+  if (upper.length > 1) {
+    const firstLon = OLC.ALPHABET.indexOf(upper[1]) * OLC.ENCODING_BASE;
+    if (firstLon >= 360) return false;
+  }
+  return true;
+}
+
+// Integer encoding as in the reference implementation, so results match it
+// digit for digit rather than drifting with floating-point division.
+function encode(latitude: number, longitude: number, codeLength: number): string {
+  const latRange = 2 * 90 * OLC.FINAL_LAT_PRECISION;
+  const lonRange = 2 * 180 * OLC.FINAL_LON_PRECISION;
+
+  let latVal =
+    Math.floor(Math.round(latitude * OLC.FINAL_LAT_PRECISION * 1e6) / 1e6) +
+    90 * OLC.FINAL_LAT_PRECISION;
+  if (latVal < 0) latVal = 0;
+  else if (latVal >= latRange) latVal = latRange - 1;
+
+  let lonVal =
+    Math.floor(Math.round(longitude * OLC.FINAL_LON_PRECISION * 1e6) / 1e6) +
+    180 * OLC.FINAL_LON_PRECISION;
+  lonVal = ((lonVal % lonRange) + lonRange) % lonRange;
+
+  let code = "";
+  if (codeLength > OLC.PAIR_CODE_LENGTH) {
+    for (let i = 0; i < OLC.GRID_CODE_LENGTH; i++) {
+      const latDigit = latVal % OLC.GRID_ROWS;
+      const lonDigit = lonVal % OLC.GRID_COLUMNS;
+      code = OLC.ALPHABET[latDigit * OLC.GRID_COLUMNS + lonDigit] + code;
+      latVal = Math.floor(latVal / OLC.GRID_ROWS);
+      lonVal = Math.floor(lonVal / OLC.GRID_COLUMNS);
+    }
+  } else {
+    latVal = Math.floor(latVal / OLC.GRID_ROWS ** OLC.GRID_CODE_LENGTH);
+    lonVal = Math.floor(lonVal / OLC.GRID_COLUMNS ** OLC.GRID_CODE_LENGTH);
+  }
+
+  for (let i = 0; i < OLC.PAIR_CODE_LENGTH / 2; i++) {
+    code = OLC.ALPHABET[lonVal % OLC.ENCODING_BASE] + code;
+    code = OLC.ALPHABET[latVal % OLC.ENCODING_BASE] + code;
+    latVal = Math.floor(latVal / OLC.ENCODING_BASE);
+    lonVal = Math.floor(lonVal / OLC.ENCODING_BASE);
+  }
+
+  code =
+    code.slice(0, OLC.SEPARATOR_POSITION) +
+    OLC.SEPARATOR +
+    code.slice(OLC.SEPARATOR_POSITION);
+  if (codeLength >= OLC.SEPARATOR_POSITION) return code.slice(0, codeLength + 1);
+  return (
+    code.slice(0, codeLength) +
+    OLC.PADDING.repeat(OLC.SEPARATOR_POSITION - codeLength) +
+    OLC.SEPARATOR
+  );
+}
+
+function roundDegrees(value: number): number {
+  return Math.round(value * 1e12) / 1e12;
+}
+
+export {
+  ddPairToPlusCode,
+  plusCodeToDDPair,
+  shortenPlusCode,
+  recoverPlusCode,
+  isPlusCode,
+};
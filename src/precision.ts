@@ -0,0 +1,143 @@
+import { ensureFinite, toRadians, validateRange } from "./helpers";
+import { InvalidNumberError } from "./errors";
+import { AngleUnit, CoordinatePrecision, CoordinateType } from "../types";
+import { CONVERSION_CONSTANTS, WGS84 } from "../data";
+
+const UNITS_PER_DEGREE: Record<AngleUnit, number> = {
+  [AngleUnit.DEGREES]: 1,
+  [AngleUnit.MINUTES]: CONVERSION_CONSTANTS.MINUTES_PER_DEGREE,
+  [AngleUnit.SECONDS]: CONVERSION_CONSTANTS.SECONDS_PER_DEGREE,
+};
+
+// Guards Math.ceil against log10 landing a hair above a whole number
+const LOG_EPSILON = 1e-9;
+
+/**
+ * Returns the ground distance covered by the last digit of a coordinate written at a given precision.
+ *
+ * Uses the WGS84 ellipsoid: a degree of latitude is about 110.6 km at the
+ * equator and 111.7 km at the poles, and a degree of longitude shrinks with
+ * the cosine of the latitude.
+ *
+ * @param precision - The unit and number of decimals of the written coordinate
+ * @param latitude - The latitude in decimal degrees where the distance is measured
+ * @param kind - Whether the coordinate is a latitude or longitude (default: CoordinateType.LAT)
+ * @returns The distance in metres
+ *
+ * @throws {OutOfRangeError} When the latitude is not in [-90, 90]
+ *
+ * @example
+ * ```typescript
+ * precisionToMeters({ unit: AngleUnit.DEGREES, decimals: 5 }, 45);  // ≈ 1.11
+ * precisionToMeters({ unit: AngleUnit.SECONDS, decimals: 0 }, 60, CoordinateType.LON);  // ≈ 15.5
+ * ```
+ */
+function precisionToMeters(
+  precision: CoordinatePrecision,
+  latitude: number,
+  kind = CoordinateType.LAT
+): number {
+  const perUnit = metersPerDegree(latitude, kind) / UNITS_PER_DEGREE[precision.unit];
+  return perUnit * 10 ** -precision.decimals;
+}
+
+/**
+ * Returns the fewest decimals that resolve a given ground distance at a given latitude.
+ *
+ * The inverse of {@link precisionToMeters}: the returned precision's last
+ * digit covers at most `meters` on the ground.
+ *
+ * @param meters - The ground resolution required, in metres
+ * @param latitude - The latitude in decimal degrees where the distance is measured
+ * @param opts - Optional settings
+ * @param opts.unit - The unit the decimals apply to (default: AngleUnit.DEGREES)
+ * @param opts.kind - Whether the coordinate is a latitude or longitude (default: CoordinateType.LAT)
+ * @returns The unit and number of decimals needed
+ *
+ * @throws {InvalidNumberError} When `meters` is not a positive finite number
+ * @throws {OutOfRangeError} When the latitude is not in [-90, 90]
+ *
+ * @example
+ * ```typescript
+ * metersToPrecision(1, 45);                                // { unit: "degrees", decimals: 6 }
+ * metersToPrecision(10, 45, { unit: AngleUnit.MINUTES });  // { unit: "minutes", decimals: 3 }
+ * ```
+ */
+function metersToPrecision(
+  meters: number,
+  latitude: number,
+  opts?: { unit?: AngleUnit; kind?: CoordinateType }
+): CoordinatePrecision {
+  ensureFinite(meters, "resolution");
+  if (meters <= 0)
+    throw new InvalidNumberError(`Resolution must be positive (got ${meters})`, {
+      value: meters,
+    });
+  const unit = opts?.unit ?? AngleUnit.DEGREES;
+  const perUnit =
+    metersPerDegree(latitude, opts?.kind ?? CoordinateType.LAT) / UNITS_PER_DEGREE[unit];
+  const decimals = Math.ceil(Math.log10(perUnit / meters) - LOG_EPSILON);
+  return { unit, decimals: Math.max(0, decimals) };
+}
+
+// Metres per degree along the meridian (LAT) or the parallel (LON)
+function metersPerDegree(latitude: number, kind: CoordinateType): number {
+  validateRange(CoordinateType.LAT, latitude);
+  const e2 = WGS84.f * (2 - WGS84.f);
+  const phi = toRadians(latitude);
+  const w = Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  const radius =
+    kind === CoordinateType.LAT
+      ? (WGS84.a * (1 - e2)) / w ** 3
+      : (WGS84.a / w) * Math.cos(phi);
+  return toRadians(Math.max(radius, 0));
+}
+
+/**
+ * Reads the precision a number was written with: the unit it belongs to and its decimal places.
+ *
+ * @param unit - The unit the number was given in
+ * @param text - The number as written, with any sign and decimal separator
+ * @param decimalSeparator - The locale's decimal separator (default: ".")
+ * @returns The precision
+ */
+function precisionOf(unit: AngleUnit, text: string, decimalSeparator = "."): CoordinatePrecision {
+  const [, fraction] = text.replace(/^[+-]/, "").split(decimalSeparator);
+  return { unit, decimals: fraction ? fraction.length : 0 };
+}
+
+/**
+ * Returns the decimals needed in one unit to keep a precision given in another.
+ *
+ * `{ unit: MINUTES, decimals: 0 }` needs no decimals of seconds, and
+ * `{ unit: DEGREES, decimals: 3 }` (3.6") needs 2 decimals of minutes.
+ *
+ * @param precision - The source precision
+ * @param unit - The unit to express it in
+ * @returns The number of decimals, never negative
+ */
+function decimalsIn(precision: CoordinatePrecision, unit: AngleUnit): number {
+  const ratio = UNITS_PER_DEGREE[unit] / UNITS_PER_DEGREE[precision.unit];
+  const decimals = Math.ceil(precision.decimals - Math.log10(ratio) - LOG_EPSILON);
+  return Math.max(0, decimals);
+}
+
+// Shared by the conversions: the source precision wins when matchPrecision is
+// set and the value carries one; otherwise the explicit or default decimals
+function targetDecimals(
+  opts: { decimals?: number; matchPrecision?: boolean } | undefined,
+  precision: CoordinatePrecision | undefined,
+  unit: AngleUnit,
+  fallback: number
+): number {
+  if (opts?.matchPrecision && precision) return decimalsIn(precision, unit);
+  return opts?.decimals ?? fallback;
+}
+
+export {
+  precisionToMeters,
+  metersToPrecision,
+  precisionOf,
+  decimalsIn,
+  targetDecimals,
+};
@@ -0,0 +1,293 @@
+import {
+  commonDatum,
+  ensureFinite,
+  normalizeLongitude,
+  toDegrees,
+  toRadians,
+} from "./helpers";
+import { tmForward, tmInverse } from "./transverseMercator";
+import { toPair, validatePoint } from "./distance";
+import { transformDatum } from "./datum";
+import { InvalidProjectionError, OutOfRangeError, UnsupportedInputError } from "./errors";
+import {
+  DD,
+  Datum,
+  Ellipsoid,
+  ProjectedPoint,
+  ProjectionDefinition,
+  ProjectionMethod,
+} from "../types";
+import { DATUMS, WEB_MERCATOR_CONSTANTS, WGS84 } from "../data";
+
+/**
+ * Projects a pair of Decimal Degrees (DD) onto a map plane.
+ *
+ * The projection is described by a {@link ProjectionDefinition}: transverse
+ * Mercator (with `scaleFactor` on the central meridian), Lambert conformal
+ * conic (one or two `standardParallels`; with one, `scaleFactor` applies on
+ * it and it should equal `originLat`) or Web Mercator. See `PROJECTIONS` for
+ * predefined definitions such as Web Mercator (EPSG:3857).
+ *
+ * When both the pair and the projection name a datum, the pair is first
+ * shifted onto the projection's datum with {@link transformDatum}.
+ *
+ * @param latDD - The latitude DD object
+ * @param lonDD - The longitude DD object
+ * @param projection - The projection definition
+ * @returns The projected x (easting) and y (northing) in metres, false easting and northing included
+ *
+ * @throws {OutOfRangeError} When either coordinate is out of range, or the position cannot be shown on the projection (e.g. a pole on Web Mercator)
+ * @throws {InvalidNumberError} When a parameter of the projection is not a finite number
+ * @throws {InvalidProjectionError} When the definition is invalid
+ * @throws {UnsupportedInputError} When the coordinates name different datums
+ *
+ * @example
+ * ```typescript
+ * ddPairToProjected(...parsePairToDD(51.5074, -0.1278), PROJECTIONS.WEB_MERCATOR);
+ * // { x: -14226.63, y: 6711542.48 }
+ *
+ * const lambert: ProjectionDefinition = {
+ *   method: ProjectionMethod.LAMBERT_CONFORMAL_CONIC,
+ *   ellipsoid: ELLIPSOIDS.CLARKE_1866,
+ *   originLat: 23,
+ *   originLon: -96,
+ *   falseEasting: 0,
+ *   falseNorthing: 0,
+ *   standardParallels: [33, 45],
+ * };
+ * ddPairToProjected(...parsePairToDD(35, -75), lambert);
+ * // { x: 1894410.9, y: 1564649.5 }
+ * ```
+ */
+function ddPairToProjected(
+  latDD: DD,
+  lonDD: DD,
+  projection: ProjectionDefinition
+): ProjectedPoint {
+  const from = commonDatum([latDD, lonDD]);
+  const [lat, lon] = validatePoint(
+    from !== undefined && projection.datum !== undefined
+      ? transformDatum([latDD, lonDD], from, projection.datum)
+      : [latDD, lonDD]
+  );
+
+  const params = validateDefinition(projection);
+  const dLon = normalizeLongitude(lon - params.originLon);
+  let x: number;
+  let y: number;
+  switch (projection.method) {
+    case ProjectionMethod.TRANSVERSE_MERCATOR: {
+      const plane = tmForward(lat, dLon, 0, params.scaleFactor, params.ellipsoid);
+      x = plane.x;
+      y = plane.y - tmOriginNorthing(params);
+      break;
+    }
+    case ProjectionMethod.LAMBERT_CONFORMAL_CONIC: {
+      const cone = lccCone(params, projection.standardParallels);
+      if (Math.abs(lat) === 90 && Math.sign(lat) !== Math.sign(cone.n))
+        throw new OutOfRangeError(
+          `The ${lat > 0 ? "north" : "south"} pole is at infinity on this cone`,
+          { value: lat, kind: latDD.kind }
+        );
+      const rho = cone.scale * coneT(toRadians(lat), cone.e) ** cone.n;
+      const theta = cone.n * toRadians(dLon);
+      x = rho * Math.sin(theta);
+      y = cone.rho0 - rho * Math.cos(theta);
+      break;
+    }
+    case ProjectionMethod.WEB_MERCATOR: {
+      if (Math.abs(lat) > WEB_MERCATOR_CONSTANTS.MAX_LAT)
+        throw new OutOfRangeError(
+          `Web Mercator covers latitudes up to ±${WEB_MERCATOR_CONSTANTS.MAX_LAT}° (got ${lat})`,
+          { value: lat, kind: latDD.kind }
+        );
+      const radius = params.scaleFactor * params.ellipsoid.a;
+      x = radius * toRadians(dLon);
+      y = radius * Math.atanh(Math.sin(toRadians(lat)));
+      break;
+    }
+    default:
+      throw new InvalidProjectionError(
+        `Unsupported projection method: ${JSON.stringify(projection.method)}`,
+        { value: projection.method }
+      );
+  }
+
+  if (!Number.isFinite(x) || !Number.isFinite(y))
+    throw new OutOfRangeError(`Position ${lat}, ${lon} cannot be shown on this projection`);
+  return { x: x + params.falseEasting, y: y + params.falseNorthing };
+}
+
+/**
+ * Converts projected x/y back to a pair of Decimal Degrees (DD).
+ *
+ * The result is tagged with the projection's datum when it has one, and
+ * shifted to `opts.datum` when that is given.
+ *
+ * @param point - The projected x (easting) and y (northing) in metres
+ * @param projection - The projection definition
+ * @param opts - Optional conversion options
+ * @param opts.datum - The datum of the result (default: the projection's datum)
+ * @returns A tuple of DD objects [latitude, longitude]
+ *
+ * @throws {InvalidNumberError} When x, y or a parameter of the projection is not a finite number
+ * @throws {InvalidProjectionError} When the definition is invalid
+ * @throws {UnsupportedInputError} When `opts.datum` is given for a projection without a datum
+ *
+ * @example
+ * ```typescript
+ * const [lat, lon] = projectedToDDPair({ x: -14226.63, y: 6711542.48 }, PROJECTIONS.WEB_MERCATOR);
+ * // lat: { kind: "lat", degrees: 51.5074, datum: "WGS84" }
+ * // lon: { kind: "lon", degrees: -0.1278, datum: "WGS84" }
+ * ```
+ */
+function projectedToDDPair(
+  point: ProjectedPoint,
+  projection: ProjectionDefinition,
+  opts?: { datum?: Datum }
+): [DD, DD] {
+  const params = validateDefinition(projection);
+  const x = ensureFinite(point.x, "projected x") - params.falseEasting;
+  const y = ensureFinite(point.y, "projected y") - params.falseNorthing;
+
+  let lat: number;
+  let dLon: number;
+  switch (projection.method) {
+    case ProjectionMethod.TRANSVERSE_MERCATOR: {
+      const northing = y + tmOriginNorthing(params);
+      ({ lat, lon: dLon } = tmInverse(x, northing, 0, params.scaleFactor, params.ellipsoid));
+      break;
+    }
+    case ProjectionMethod.LAMBERT_CONFORMAL_CONIC: {
+      const cone = lccCone(params, projection.standardParallels);
+      const sign = Math.sign(cone.n);
+      const rho = sign * Math.hypot(x, cone.rho0 - y);
+      const theta = Math.atan2(sign * x, sign * (cone.rho0 - y));
+      lat = toDegrees(coneLatitude((rho / cone.scale) ** (1 / cone.n), cone.e));
+      dLon = toDegrees(theta / cone.n);
+      break;
+    }
+    case ProjectionMethod.WEB_MERCATOR: {
+      const radius = params.scaleFactor * params.ellipsoid.a;
+      lat = toDegrees(Math.asin(Math.tanh(y / radius)));
+      dLon = toDegrees(x / radius);
+      break;
+    }
+    default:
+      throw new InvalidProjectionError(
+        `Unsupported projection method: ${JSON.stringify(projection.method)}`,
+        { value: projection.method }
+      );
+  }
+
+  const pair = toPair(lat, params.originLon + dLon, projection.datum);
+  if (opts?.datum === undefined) return pair;
+  if (projection.datum === undefined)
+    throw new UnsupportedInputError("Cannot transform the result of a projection without a datum");
+  return transformDatum(pair, projection.datum, opts.datum);
+}
+
+interface ProjectionParams {
+  ellipsoid: Ellipsoid;
+  originLat: number;
+  originLon: number;
+  falseEasting: number;
+  falseNorthing: number;
+  scaleFactor: number;
+}
+
+// Checks the numeric parameters and fills in the defaults
+function validateDefinition(projection: ProjectionDefinition): ProjectionParams {
+  const ellipsoid =
+    projection.ellipsoid ??
+    (projection.datum !== undefined ? DATUMS[projection.datum].ellipsoid : WGS84);
+  const params = {
+    ellipsoid,
+    originLat: ensureFinite(projection.originLat, "projection origin latitude"),
+    originLon: ensureFinite(projection.originLon, "projection origin longitude"),
+    falseEasting: ensureFinite(projection.falseEasting, "projection false easting"),
+    falseNorthing: ensureFinite(projection.falseNorthing, "projection false northing"),
+    scaleFactor: ensureFinite(projection.scaleFactor ?? 1, "projection scale factor"),
+  };
+  if (Math.abs(params.originLat) > 90)
+    throw new InvalidProjectionError(
+      `Projection origin latitude must be in [-90, 90] (got ${params.originLat})`,
+      { value: params.originLat }
+    );
+  if (params.scaleFactor <= 0)
+    throw new InvalidProjectionError(
+      `Projection scale factor must be positive (got ${params.scaleFactor})`,
+      { value: params.scaleFactor }
+    );
+  return params;
+}
+
+// Distance of the latitude of origin from the equator on the transverse Mercator plane
+function tmOriginNorthing(params: ProjectionParams): number {
+  return tmForward(params.originLat, 0, 0, params.scaleFactor, params.ellipsoid).y;
+}
+
+interface Cone {
+  e: number;
+  n: number;
+  scale: number;
+  rho0: number;
+}
+
+// Constants of a Lambert conformal conic (Snyder, "Map Projections: A Working
+// Manual", 1987, §15). `scale` is a·k0·F, so that ρ = scale·t^n.
+function lccCone(params: ProjectionParams, parallels?: [number] | [number, number]): Cone {
+  const [lat1, lat2 = lat1] = (parallels ?? [params.originLat]).map((lat) =>
+    ensureFinite(lat, "projection standard parallel")
+  );
+  for (const lat of [lat1, lat2, params.originLat])
+    if (Math.abs(lat) >= 90)
+      throw new InvalidProjectionError(
+        `Lambert conformal conic latitudes must be in (-90, 90) (got ${lat})`,
+        { value: lat }
+      );
+
+  const { a, f } = params.ellipsoid;
+  const e = Math.sqrt(f * (2 - f));
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const m1 = coneM(phi1, e);
+  const t1 = coneT(phi1, e);
+  const n =
+    lat1 === lat2
+      ? Math.sin(phi1)
+      : (Math.log(m1) - Math.log(coneM(phi2, e))) / (Math.log(t1) - Math.log(coneT(phi2, e)));
+  if (n === 0)
+    throw new InvalidProjectionError(
+      "Lambert conformal conic standard parallels must not be symmetric about the equator",
+      { value: [lat1, lat2] }
+    );
+
+  const scale = (a * params.scaleFactor * m1) / (n * t1 ** n);
+  return { e, n, scale, rho0: scale * coneT(toRadians(params.originLat), e) ** n };
+}
+
+function coneM(phi: number, e: number): number {
+  const sinPhi = Math.sin(phi);
+  return Math.cos(phi) / Math.sqrt(1 - e * e * sinPhi * sinPhi);
+}
+
+function coneT(phi: number, e: number): number {
+  const eSinPhi = e * Math.sin(phi);
+  return Math.tan(Math.PI / 4 - phi / 2) / ((1 - eSinPhi) / (1 + eSinPhi)) ** (e / 2);
+}
+
+// Inverse of coneT by fixed-point iteration; converges in a handful of steps
+function coneLatitude(t: number, e: number): number {
+  let phi = Math.PI / 2 - 2 * Math.atan(t);
+  let delta: number;
+  do {
+    const eSinPhi = e * Math.sin(phi);
+    const next = Math.PI / 2 - 2 * Math.atan(t * ((1 - eSinPhi) / (1 + eSinPhi)) ** (e / 2));
+    delta = next - phi;
+    phi = next;
+  } while (Math.abs(delta) > 1e-12);
+  return phi;
+}
+
+export { ddPairToProjected, projectedToDDPair };
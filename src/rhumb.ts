@@ -0,0 +1,224 @@
+import { commonDatum, ensureFinite, normalizeLongitude, toDegrees, toRadians } from "./helpers";
+import { OutOfRangeError } from "./errors";
+import { normalizeBearing, toPair, validatePoint } from "./distance";
+import { CoordinateType, DD, DistanceUnit, Height } from "../types";
+import { DISTANCE_UNIT_METERS, WGS84 } from "../data";
+
+// Rhumb lines on the WGS84 ellipsoid. A rhumb line crosses every meridian at
+// the same angle, so it is straight on a Mercator chart: its bearing is
+// atan(Δλ / Δψ) in isometric latitude ψ, and its length is the meridian arc
+// it spans divided by the cosine of that bearing.
+
+const E = Math.sqrt(WGS84.f * (2 - WGS84.f));
+const N = WGS84.f / (2 - WGS84.f);
+
+// Helmert's series for the meridian arc and its inverse, to fourth order in n
+const RECTIFYING_RADIUS = (WGS84.a / (1 + N)) * (1 + N ** 2 / 4 + N ** 4 / 64);
+const ARC_COEFFS = [
+  (-3 / 2) * N + (9 / 16) * N ** 3,
+  (15 / 16) * N ** 2 - (15 / 32) * N ** 4,
+  (-35 / 48) * N ** 3,
+  (315 / 512) * N ** 4,
+];
+const LATITUDE_COEFFS = [
+  (3 / 2) * N - (27 / 32) * N ** 3,
+  (21 / 16) * N ** 2 - (55 / 32) * N ** 4,
+  (151 / 96) * N ** 3,
+  (1097 / 512) * N ** 4,
+];
+const QUARTER_MERIDIAN = RECTIFYING_RADIUS * (Math.PI / 2);
+
+// Below this |Δψ| the course is treated as due east or west
+const EAST_WEST_EPSILON = 1e-12;
+
+/**
+ * Returns the length of the rhumb line between two points.
+ *
+ * A rhumb line (loxodrome) keeps the same compass bearing all the way, so it
+ * is longer than the shortest path except along a meridian or the equator.
+ * It goes the shorter way round in longitude, across the antimeridian if
+ * need be. Measured on the WGS84 ellipsoid.
+ *
+ * @param a - The first point as a [latitude, longitude] DD pair
+ * @param b - The second point as a [latitude, longitude] DD pair
+ * @param opts - Optional settings
+ * @param opts.unit - The unit of the result (default: DistanceUnit.METERS)
+ * @returns The distance in the requested unit
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums
+ *
+ * @example
+ * ```typescript
+ * const jfk = parsePairToDD(40.6, -73.8);
+ * const lhr = parsePairToDD(51.6, -0.5);
+ * rhumbDistance(jfk, lhr);                                        // 5771083.38
+ * rhumbDistance(jfk, lhr, { unit: DistanceUnit.NAUTICAL_MILES });  // 3116.14
+ * ```
+ */
+function rhumbDistance(
+  a: [DD, DD, Height?],
+  b: [DD, DD, Height?],
+  opts?: { unit?: DistanceUnit }
+): number {
+  const meters = solveRhumb(a, b).distance;
+  return meters / DISTANCE_UNIT_METERS[opts?.unit ?? DistanceUnit.METERS];
+}
+
+/**
+ * Returns the constant bearing of the rhumb line from one point to another.
+ *
+ * Bearings are in degrees clockwise from true north, in [0, 360). Coincident
+ * points give 0. Use {@link bearingToDMS} for a DMS object or
+ * {@link formatBearing} for display.
+ *
+ * @param a - The starting point as a [latitude, longitude] DD pair
+ * @param b - The destination as a [latitude, longitude] DD pair
+ * @returns The bearing in degrees
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums
+ *
+ * @example
+ * ```typescript
+ * rhumbBearing(jfk, lhr);                // 77.76839
+ * bearingToDMS(rhumbBearing(jfk, lhr));  // { kind: "lon", degrees: 77, minutes: 46, seconds: 6.20296 }
+ * ```
+ */
+function rhumbBearing(a: [DD, DD, Height?], b: [DD, DD, Height?]): number {
+  const { distance, bearing } = solveRhumb(a, b);
+  return distance === 0 ? 0 : normalizeBearing(bearing);
+}
+
+/**
+ * Returns the point reached by steering a constant bearing for a distance.
+ *
+ * The longitude of the result is normalised to [-180, 180). A rhumb line
+ * spirals in towards a pole without reaching it in longitude, so a course
+ * whose length would carry it over a pole is rejected.
+ *
+ * @param start - The start point as a [latitude, longitude] DD pair
+ * @param bearing - The bearing in degrees clockwise from true north
+ * @param dist - The distance to travel; negative steers the reciprocal course
+ * @param opts - Optional settings
+ * @param opts.unit - The unit of `dist` (default: DistanceUnit.METERS)
+ * @returns The destination as a [latitude, longitude] DD pair
+ *
+ * @throws {InvalidNumberError} When a coordinate, the bearing or the distance is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range, or the course passes a pole
+ *
+ * @example
+ * ```typescript
+ * rhumbDestination(jfk, 77.76839, 3116.1357, { unit: DistanceUnit.NAUTICAL_MILES });
+ * // [{ kind: "lat", degrees: 51.6 }, { kind: "lon", degrees: -0.5 }]
+ * rhumbDestination(parsePairToDD(0, 179), 90, 222639);
+ * // [{ kind: "lat", degrees: 0 }, { kind: "lon", degrees: -178.9999998 }]
+ * ```
+ */
+function rhumbDestination(
+  start: [DD, DD, Height?],
+  bearing: number,
+  dist: number,
+  opts?: { unit?: DistanceUnit }
+): [DD, DD] {
+  const [lat, lon] = validatePoint(start);
+  ensureFinite(bearing, "bearing");
+  ensureFinite(dist, "distance");
+  const meters = dist * DISTANCE_UNIT_METERS[opts?.unit ?? DistanceUnit.METERS];
+
+  const phi1 = toRadians(lat);
+  const theta = toRadians(bearing);
+  const arc2 = meridianArc(phi1) + meters * Math.cos(theta);
+  if (Math.abs(arc2) > QUARTER_MERIDIAN * (1 + Number.EPSILON))
+    throw new OutOfRangeError(
+      `Rhumb line on bearing ${bearing} passes a pole before covering ${meters} m`,
+      { value: dist, kind: CoordinateType.LAT }
+    );
+
+  const phi2 = latitudeFromArc(arc2);
+  const dPsi = isometricLatitude(phi2) - isometricLatitude(phi1);
+  const q = stretch(phi1, dPsi, arc2 - meridianArc(phi1));
+  const dLambda = q === 0 ? 0 : (meters * Math.sin(theta)) / q;
+  return toPair(toDegrees(phi2), lon + toDegrees(dLambda), commonDatum(start));
+}
+
+/**
+ * Returns the point halfway along the rhumb line between two points.
+ *
+ * @param a - The first point as a [latitude, longitude] DD pair
+ * @param b - The second point as a [latitude, longitude] DD pair
+ * @returns The midpoint as a [latitude, longitude] DD pair
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the points name different datums
+ *
+ * @example
+ * ```typescript
+ * rhumbMidpoint(parsePairToDD(10, 170), parsePairToDD(10, -170));
+ * // [{ kind: "lat", degrees: 10 }, { kind: "lon", degrees: -180 }]
+ * ```
+ */
+function rhumbMidpoint(a: [DD, DD, Height?], b: [DD, DD, Height?]): [DD, DD] {
+  const { distance, bearing } = solveRhumb(a, b);
+  const [lat, lon] = rhumbDestination(a, bearing, distance / 2);
+  return toPair(lat.degrees, lon.degrees, commonDatum(a, b));
+}
+
+// Bearing (unnormalised, degrees) and length (metres) of the rhumb line from a to b
+function solveRhumb(
+  a: [DD, DD, Height?],
+  b: [DD, DD, Height?]
+): { bearing: number; distance: number } {
+  commonDatum(a, b);
+  const [lat1, lon1] = validatePoint(a);
+  const [lat2, lon2] = validatePoint(b);
+  // Both at the same pole, where isometric latitudes are both infinite
+  if (lat1 === lat2 && Math.abs(lat1) === 90) return { bearing: 0, distance: 0 };
+
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLambda = toRadians(normalizeLongitude(lon2 - lon1));
+  const dPsi = isometricLatitude(phi2) - isometricLatitude(phi1);
+  const dArc = meridianArc(phi2) - meridianArc(phi1);
+  const q = stretch(phi1, dPsi, dArc);
+  return {
+    bearing: toDegrees(Math.atan2(dLambda, dPsi)),
+    distance: Math.hypot(dArc, q * dLambda),
+  };
+}
+
+// Metres per radian of longitude along the course, ΔM / Δψ; on an east–west
+// course this is the radius of the parallel
+function stretch(phi1: number, dPsi: number, dArc: number): number {
+  if (Math.abs(dPsi) > EAST_WEST_EPSILON) return Number.isFinite(dPsi) ? dArc / dPsi : 0;
+  const sinPhi = Math.sin(phi1);
+  return (WGS84.a * Math.cos(phi1)) / Math.sqrt(1 - E * E * sinPhi * sinPhi);
+}
+
+function isometricLatitude(phi: number): number {
+  if (Math.abs(phi) >= Math.PI / 2) return Math.sign(phi) * Infinity;
+  return Math.asinh(Math.tan(phi)) - E * Math.atanh(E * Math.sin(phi));
+}
+
+// Distance from the equator along the meridian
+function meridianArc(phi: number): number {
+  const series = ARC_COEFFS.reduce(
+    (sum, c, i) => sum + c * Math.sin(2 * (i + 1) * phi),
+    phi
+  );
+  return RECTIFYING_RADIUS * series;
+}
+
+function latitudeFromArc(arc: number): number {
+  const mu = arc / RECTIFYING_RADIUS;
+  const phi = LATITUDE_COEFFS.reduce(
+    (sum, c, i) => sum + c * Math.sin(2 * (i + 1) * mu),
+    mu
+  );
+  return Math.max(-Math.PI / 2, Math.min(Math.PI / 2, phi));
+}
+
+export { rhumbDistance, rhumbBearing, rhumbDestination, rhumbMidpoint };
@@ -0,0 +1,283 @@
+import { UnrecognizedFormatError } from "./errors";
+import { hemisphereWords } from "./locale";
+import { CoordinateLocale, CoordinateType, Hemisphere, InputSpan } from "../types";
+
+type Unit = "deg" | "min" | "sec";
+
+interface NumberToken {
+  type: "number";
+  text: string;
+  value: number;
+  span: InputSpan;
+  unit?: Unit;
+}
+
+interface UnitToken {
+  type: "unit";
+  unit: Unit;
+  span: InputSpan;
+}
+
+interface HemisphereToken {
+  type: "hemisphere";
+  hemi: Hemisphere;
+  span: InputSpan;
+}
+
+interface WordToken {
+  type: "word";
+  text: string;
+  span: InputSpan;
+}
+
+type Token = NumberToken | UnitToken | HemisphereToken | WordToken;
+
+// A degree/minute/second component: a number token, or part of one for compact forms
+interface Component {
+  value: number;
+  text: string;
+  span: InputSpan;
+}
+
+interface CoordinateTokens {
+  numbers: NumberToken[];
+  hemispheres: HemisphereToken[];
+  degrees?: Component;
+  minutes?: Component;
+  seconds?: Component;
+  extras: NumberToken[];
+}
+
+// Whitespace | number | two-character seconds marks | single symbol | word | anything else
+const tokenPatterns = new Map<string, RegExp>();
+
+function tokenPattern(decimalSeparator: string): RegExp {
+  let pattern = tokenPatterns.get(decimalSeparator);
+  if (!pattern) {
+    const separator = decimalSeparator.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    pattern = new RegExp(
+      `(\\s+)|([+-]?\\d+(?:${separator}\\d+)?)|(''|′′|’’|[°º˚'′ʹ’‘´"″ʺ”“])|(\\p{L}+)|[^]`,
+      "guy"
+    );
+    tokenPatterns.set(decimalSeparator, pattern);
+  }
+  return pattern;
+}
+
+const SYMBOL_UNITS: Record<string, Unit> = {
+  "°": "deg",
+  º: "deg",
+  "˚": "deg",
+  "'": "min",
+  "′": "min",
+  ʹ: "min",
+  "’": "min",
+  "‘": "min",
+  "´": "min",
+  "''": "sec",
+  "′′": "sec",
+  "’’": "sec",
+  '"': "sec",
+  "″": "sec",
+  ʺ: "sec",
+  "”": "sec",
+  "“": "sec",
+};
+
+const WORD_UNITS: Record<string, Unit> = {
+  D: "deg",
+  DEG: "deg",
+  DEGS: "deg",
+  DEGREE: "deg",
+  DEGREES: "deg",
+  M: "min",
+  MIN: "min",
+  MINS: "min",
+  MINUTE: "min",
+  MINUTES: "min",
+  SEC: "sec",
+  SECS: "sec",
+  SECOND: "sec",
+  SECONDS: "sec",
+};
+
+const SLOTS: Unit[] = ["deg", "min", "sec"];
+
+/**
+ * Splits coordinate text into numbers, unit markers, hemisphere letters and other words.
+ *
+ * Unit markers cover the degree sign (and its look-alikes º and ˚), ASCII
+ * and Unicode primes and double primes (′ ″ ʹ ʺ), typographic quotes, and
+ * unit words such as `d`, `deg`, `min` and `sec`. A number followed by a
+ * unit marker is tagged with that unit. A single `s` stuck to a number is
+ * read as seconds once a minutes marker has appeared, and as South
+ * otherwise, so `"45d 7m 22.8s"` and `"4507.38S"` both behave.
+ *
+ * The locale sets the decimal separator and adds its hemisphere letters and
+ * words to the English ones.
+ *
+ * @param input - The text to tokenize
+ * @param locale - The resolved locale (default: English with a "." separator)
+ * @returns The tokens in input order; whitespace and punctuation are dropped
+ */
+function tokenize(input: string, locale?: CoordinateLocale): Token[] {
+  const tokens: Token[] = [];
+  const separator = locale?.decimalSeparator ?? ".";
+  const pattern = tokenPattern(separator);
+  const hemispheres = hemisphereWords(locale);
+  let minutesSeen = false;
+  pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    const [text, space, number, symbol, word] = match;
+    const span = { start: match.index, end: match.index + text.length };
+    const previous = tokens[tokens.length - 1];
+
+    let unit: Unit | undefined;
+    if (space) continue;
+    if (number) {
+      const value = Number(text.replace(separator, "."));
+      tokens.push({ type: "number", text, value, span });
+      continue;
+    }
+    if (symbol) unit = SYMBOL_UNITS[symbol];
+    else if (word) {
+      const upper = word.toUpperCase();
+      const attached =
+        previous?.type === "number" && previous.span.end === span.start;
+      if (upper === "S" && attached && minutesSeen) unit = "sec";
+      else if (hemispheres.has(upper)) {
+        const hemi = hemispheres.get(upper) as Hemisphere;
+        tokens.push({ type: "hemisphere", hemi, span });
+        continue;
+      } else if (upper in WORD_UNITS) unit = WORD_UNITS[upper];
+      else {
+        tokens.push({ type: "word", text, span });
+        continue;
+      }
+    }
+    if (!unit) continue;
+
+    if (unit === "min") minutesSeen = true;
+    if (previous?.type === "number" && !previous.unit) previous.unit = unit;
+    tokens.push({ type: "unit", unit, span });
+  }
+  return tokens;
+}
+
+/**
+ * Tokenizes a single coordinate and assigns its numbers to degrees, minutes and seconds.
+ *
+ * Numbers with a unit marker take that component. Unmarked numbers take the
+ * next free component after the number before them, so `"45 7.38"` is
+ * degrees then minutes and `"45° 7 22.8"` fills minutes and seconds.
+ * Unmarked numbers left over once seconds are filled are returned as
+ * `extras`.
+ *
+ * A lone unmarked number with a hemisphere letter and too many integer
+ * digits to be degrees is read as a compact aviation form: `DDMM.mm` or
+ * `DDMMSS` for latitude and `DDDMM.mm` or `DDDMMSS` for longitude, so
+ * `"4507.38N"` is 45° 07.38' N and `"1223015W"` is 122° 30' 15" W.
+ *
+ * @param input - The coordinate text
+ * @param kind - The coordinate type, which sets the compact-form degree width
+ * @param locale - The resolved locale (default: English with a "." separator)
+ * @returns The grouped tokens
+ *
+ * @throws {UnrecognizedFormatError} When two numbers carry the same unit
+ */
+function readCoordinate(
+  input: string,
+  kind: CoordinateType,
+  locale?: CoordinateLocale
+): CoordinateTokens {
+  const tokens = tokenize(input, locale);
+  const numbers = tokens.filter((t): t is NumberToken => t.type === "number");
+  const hemispheres = tokens.filter(
+    (t): t is HemisphereToken => t.type === "hemisphere"
+  );
+
+  const compact =
+    numbers.length === 1 && !numbers[0].unit && hemispheres.length > 0
+      ? splitCompact(numbers[0], kind)
+      : undefined;
+  if (compact) return { numbers, hemispheres, ...compact, extras: [] };
+
+  const assigned = new Map<Unit, NumberToken>();
+  for (const token of numbers) {
+    if (!token.unit) continue;
+    const taken = assigned.get(token.unit);
+    if (taken)
+      throw new UnrecognizedFormatError(
+        `${UNIT_NAMES[token.unit]} given twice (${taken.text} and ${token.text}) in ${JSON.stringify(input)}`,
+        { value: input, kind, span: token.span }
+      );
+    assigned.set(token.unit, token);
+  }
+
+  const extras: NumberToken[] = [];
+  let previousSlot = -1;
+  for (const token of numbers) {
+    let slot = token.unit ? SLOTS.indexOf(token.unit) : -1;
+    if (slot < 0) {
+      slot = SLOTS.findIndex((unit, i) => i > previousSlot && !assigned.has(unit));
+      if (slot < 0) {
+        extras.push(token);
+        previousSlot = SLOTS.length;
+        continue;
+      }
+      assigned.set(SLOTS[slot], token);
+    }
+    previousSlot = slot;
+  }
+
+  return {
+    numbers,
+    hemispheres,
+    degrees: assigned.get("deg"),
+    minutes: assigned.get("min"),
+    seconds: assigned.get("sec"),
+    extras,
+  };
+}
+
+const UNIT_NAMES: Record<Unit, string> = {
+  deg: "Degrees",
+  min: "Minutes",
+  sec: "Seconds",
+};
+
+function splitCompact(
+  token: NumberToken,
+  kind: CoordinateType
+): Pick<CoordinateTokens, "degrees" | "minutes" | "seconds"> | undefined {
+  const match = token.text.match(/^(\d+)(\D\d+)?$/);
+  if (!match) return undefined;
+  const [, digits, fraction = ""] = match;
+  const width = kind === CoordinateType.LAT ? 2 : 3;
+  const part = (from: number, to?: number) => {
+    const text = digits.slice(from, to) + (to === undefined ? fraction : "");
+    return { value: Number(text.replace(/\D/, ".")), text, span: token.span };
+  };
+
+  if (digits.length === width + 2)
+    return { degrees: part(0, width), minutes: part(width) };
+  if (digits.length === width + 4)
+    return {
+      degrees: part(0, width),
+      minutes: part(width, width + 2),
+      seconds: part(width + 2),
+    };
+  return undefined;
+}
+
+export {
+  tokenize,
+  readCoordinate,
+  Token,
+  NumberToken,
+  HemisphereToken,
+  Component,
+  CoordinateTokens,
+};
@@ -0,0 +1,273 @@
+import { commonDatum, toDegrees, toRadians } from "./helpers";
+import { toPair, validatePoint } from "./distance";
+import { UnsupportedInputError } from "./errors";
+import { DD, Datum, DistanceUnit, Height, TrackPosition } from "../types";
+import { DISTANCE_UNIT_METERS, GEODESIC_CONSTANTS } from "../data";
+
+// Distances to a track on a sphere of mean radius, as with
+// DistanceMethod.HAVERSINE. Points are handled as unit vectors from the centre
+// of the Earth: the track's great circle is the plane through the centre with
+// normal start × end, and the closest point on it is the point's projection
+// onto that plane.
+
+type Vector = [number, number, number];
+
+// Below this |start × end| the track has no unique great circle
+const DEGENERATE_TRACK = 1e-15;
+
+/**
+ * Returns the signed distance from a point to the great circle through a track.
+ *
+ * The result is positive when the point lies to the right of the track (seen
+ * travelling from start to end) and negative when it lies to the left. The
+ * track is treated as the whole great circle, so a point beyond either end is
+ * measured to the circle's extension; use {@link closestPointOnSegment} to
+ * stay within the leg. Measured on a sphere of mean radius (6371008.8 m).
+ *
+ * @param point - The position as a [latitude, longitude] DD pair
+ * @param start - The start of the track as a [latitude, longitude] DD pair
+ * @param end - The end of the track as a [latitude, longitude] DD pair
+ * @param opts - Optional settings
+ * @param opts.unit - The unit of the result (default: DistanceUnit.METERS)
+ * @returns The cross-track distance in the requested unit
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the start and end are coincident or antipodal, or the points name different datums
+ *
+ * @example
+ * ```typescript
+ * const start = parsePairToDD(53.3206, -1.7297);
+ * const end = parsePairToDD(53.1887, 0.1334);
+ * crossTrackDistance(parsePairToDD(53.2611, -0.7972), start, end);  // -307.55 (left of track)
+ * ```
+ */
+function crossTrackDistance(
+  point: [DD, DD, Height?],
+  start: [DD, DD, Height?],
+  end: [DD, DD, Height?],
+  opts?: { unit?: DistanceUnit }
+): number {
+  const { p, normal } = trackGeometry(point, start, end);
+  const angle = -Math.asin(Math.max(-1, Math.min(1, dot(p, normal))));
+  return toUnit(angle, opts?.unit);
+}
+
+/**
+ * Returns how far along a track the closest point to a position lies.
+ *
+ * The distance is measured from the start of the track along its great circle
+ * to the foot of the perpendicular from the point. It is negative when the
+ * point is behind the start, and exceeds the length of the track once the
+ * point has passed the end. Measured on a sphere of mean radius (6371008.8 m).
+ *
+ * @param point - The position as a [latitude, longitude] DD pair
+ * @param start - The start of the track as a [latitude, longitude] DD pair
+ * @param end - The end of the track as a [latitude, longitude] DD pair
+ * @param opts - Optional settings
+ * @param opts.unit - The unit of the result (default: DistanceUnit.METERS)
+ * @returns The along-track distance in the requested unit
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the start and end are coincident or antipodal, or the points name different datums
+ *
+ * @example
+ * ```typescript
+ * alongTrackDistance(parsePairToDD(53.2611, -0.7972), start, end);  // 62331.58
+ * ```
+ */
+function alongTrackDistance(
+  point: [DD, DD, Height?],
+  start: [DD, DD, Height?],
+  end: [DD, DD, Height?],
+  opts?: { unit?: DistanceUnit }
+): number {
+  const { p, a, normal } = trackGeometry(point, start, end);
+  return toUnit(alongAngle(p, a, normal), opts?.unit);
+}
+
+/**
+ * Returns the point on a great-circle segment closest to a position.
+ *
+ * This is the foot of the perpendicular from the point when it falls within
+ * the segment, and otherwise the nearer end. A segment whose ends coincide
+ * gives its start. Measured on a sphere of mean radius.
+ *
+ * @param point - The position as a [latitude, longitude] DD pair
+ * @param start - The start of the segment as a [latitude, longitude] DD pair
+ * @param end - The end of the segment as a [latitude, longitude] DD pair
+ * @returns The closest point as a [latitude, longitude] DD pair
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the start and end are antipodal, or the points name different datums
+ *
+ * @example
+ * ```typescript
+ * closestPointOnSegment(parsePairToDD(1, 5), parsePairToDD(0, 0), parsePairToDD(0, 10));
+ * // [{ kind: "lat", degrees: 0 }, { kind: "lon", degrees: 5 }]
+ * closestPointOnSegment(parsePairToDD(1, 15), parsePairToDD(0, 0), parsePairToDD(0, 10));
+ * // [{ kind: "lat", degrees: 0 }, { kind: "lon", degrees: 10 }]
+ * ```
+ */
+function closestPointOnSegment(
+  point: [DD, DD, Height?],
+  start: [DD, DD, Height?],
+  end: [DD, DD, Height?]
+): [DD, DD] {
+  const datum = commonDatum(point, start, end);
+  const p = toVector(point);
+  return fromVector(closestOnSegment(p, toVector(start), toVector(end)).vector, datum);
+}
+
+/**
+ * Finds the point on a path closest to a position.
+ *
+ * The path is a polyline of [latitude, longitude] DD pairs joined by
+ * great-circle segments. Along with the closest point, the result gives its
+ * distance from the position, the index of the segment it lies on (segment i
+ * runs from path[i] to path[i + 1]) and the distance travelled along the path
+ * from its first point to reach it. When two segments are equally close the
+ * earlier one is used. Measured on a sphere of mean radius.
+ *
+ * @param point - The position as a [latitude, longitude] DD pair
+ * @param path - The path as an array of [latitude, longitude] DD pairs
+ * @param opts - Optional settings
+ * @param opts.unit - The unit of `distance` and `along` (default: DistanceUnit.METERS)
+ * @returns A TrackPosition with `point`, `distance`, `segment` and `along`
+ *
+ * @throws {InvalidNumberError} When a coordinate is not a finite number
+ * @throws {OutOfRangeError} When a coordinate is out of range
+ * @throws {UnsupportedInputError} When the path is empty, two consecutive points are antipodal, or the points name different datums
+ *
+ * @example
+ * ```typescript
+ * const route = [parsePairToDD(0, 0), parsePairToDD(0, 10), parsePairToDD(10, 10)];
+ * closestPointOnPath(parsePairToDD(5, 11), route, { unit: DistanceUnit.KILOMETERS });
+ * // { point: [5.00076°N, 10°E as DD], distance: 110.77, segment: 1, along: 1668.01 }
+ * ```
+ */
+function closestPointOnPath(
+  point: [DD, DD, Height?],
+  path: [DD, DD, Height?][],
+  opts?: { unit?: DistanceUnit }
+): TrackPosition {
+  if (path.length === 0) throw new UnsupportedInputError("Path must contain at least one point");
+  const datum = commonDatum(point, ...path);
+  const p = toVector(point);
+  const vertices = path.map(toVector);
+
+  let best = { vector: vertices[0], angle: angleBetween(p, vertices[0]), along: 0, segment: 0 };
+  let travelled = 0;
+  for (let i = 0; i + 1 < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[i + 1];
+    const closest = closestOnSegment(p, a, b);
+    if (closest.angle < best.angle)
+      best = {
+        vector: closest.vector,
+        angle: closest.angle,
+        along: travelled + angleBetween(a, closest.vector),
+        segment: i,
+      };
+    travelled += angleBetween(a, b);
+  }
+
+  return {
+    point: fromVector(best.vector, datum),
+    distance: toUnit(best.angle, opts?.unit),
+    segment: best.segment,
+    along: toUnit(best.along, opts?.unit),
+  };
+}
+
+// Validates the inputs and returns the unit normal of the track's great circle
+function trackGeometry(
+  point: [DD, DD, Height?],
+  start: [DD, DD, Height?],
+  end: [DD, DD, Height?]
+): { p: Vector; a: Vector; normal: Vector } {
+  commonDatum(point, start, end);
+  const p = toVector(point);
+  const a = toVector(start);
+  const normal = cross(a, toVector(end));
+  const length = norm(normal);
+  if (length < DEGENERATE_TRACK)
+    throw new UnsupportedInputError("Track start and end must not be coincident or antipodal");
+  return { p, a, normal: scale(normal, 1 / length) };
+}
+
+// Signed angle from a to the projection of p onto the great circle with the given normal
+function alongAngle(p: Vector, a: Vector, normal: Vector): number {
+  const q = subtract(p, scale(normal, dot(p, normal)));
+  if (norm(q) === 0) return 0;
+  return Math.atan2(dot(cross(a, q), normal), dot(a, q));
+}
+
+// Closest point to p on the minor arc from a to b, and its angular distance from p
+function closestOnSegment(p: Vector, a: Vector, b: Vector): { vector: Vector; angle: number } {
+  const normal = cross(a, b);
+  const length = norm(normal);
+  if (length < DEGENERATE_TRACK) {
+    if (dot(a, b) < 0)
+      throw new UnsupportedInputError("Track start and end must not be coincident or antipodal");
+    return { vector: a, angle: angleBetween(p, a) };
+  }
+
+  const unitNormal = scale(normal, 1 / length);
+  const along = alongAngle(p, a, unitNormal);
+  if (along > 0 && along < angleBetween(a, b)) {
+    const foot = subtract(p, scale(unitNormal, dot(p, unitNormal)));
+    const vector = scale(foot, 1 / norm(foot));
+    return { vector, angle: angleBetween(p, vector) };
+  }
+  const toA = angleBetween(p, a);
+  const toB = angleBetween(p, b);
+  return toB < toA ? { vector: b, angle: toB } : { vector: a, angle: toA };
+}
+
+function toUnit(angle: number, unit = DistanceUnit.METERS): number {
+  return ((angle || 0) * GEODESIC_CONSTANTS.MEAN_EARTH_RADIUS) / DISTANCE_UNIT_METERS[unit];
+}
+
+function toVector(point: [DD, DD, Height?]): Vector {
+  const [lat, lon] = validatePoint(point);
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon);
+  return [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)];
+}
+
+function fromVector([x, y, z]: Vector, datum?: Datum): [DD, DD] {
+  return toPair(
+    toDegrees(Math.atan2(z, Math.hypot(x, y))),
+    toDegrees(Math.atan2(y, x)),
+    datum
+  );
+}
+
+function angleBetween(u: Vector, v: Vector): number {
+  return Math.atan2(norm(cross(u, v)), dot(u, v));
+}
+
+function dot(u: Vector, v: Vector): number {
+  return u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+}
+
+function cross(u: Vector, v: Vector): Vector {
+  return [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+}
+
+function subtract(u: Vector, v: Vector): Vector {
+  return [u[0] - v[0], u[1] - v[1], u[2] - v[2]];
+}
+
+function scale(u: Vector, k: number): Vector {
+  return [u[0] * k, u[1] * k, u[2] * k];
+}
+
+function norm(u: Vector): number {
+  return Math.hypot(u[0], u[1], u[2]);
+}
+
+export { crossTrackDistance, alongTrackDistance, closestPointOnSegment, closestPointOnPath };
@@ -0,0 +1,153 @@
+// Transverse Mercator projection using Krüger's series to sixth order in n
+// (Karney, "Transverse Mercator with an accuracy of a few nanometers", 2011).
+// Accurate to well under a millimetre within the usual ±3–4° strip, which is
+// what the UTM and national grid wrappers rely on. Internal to the library.
+
+import { toRadians, toDegrees } from "./helpers";
+import { Ellipsoid } from "../types";
+
+interface TMSeries {
+  e: number;
+  A: number;
+  alpha: number[];
+  beta: number[];
+}
+
+function seriesFor(ellipsoid: Ellipsoid): TMSeries {
+  const { a, f } = ellipsoid;
+  const e = Math.sqrt(f * (2 - f));
+  const n = f / (2 - f);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const n4 = n3 * n;
+  const n5 = n4 * n;
+  const n6 = n5 * n;
+
+  const A = (a / (1 + n)) * (1 + n2 / 4 + n4 / 64 + n6 / 256);
+
+  const alpha = [
+    0,
+    (1 / 2) * n - (2 / 3) * n2 + (5 / 16) * n3 + (41 / 180) * n4 - (127 / 288) * n5 + (7891 / 37800) * n6,
+    (13 / 48) * n2 - (3 / 5) * n3 + (557 / 1440) * n4 + (281 / 630) * n5 - (1983433 / 1935360) * n6,
+    (61 / 240) * n3 - (103 / 140) * n4 + (15061 / 26880) * n5 + (167603 / 181440) * n6,
+    (49561 / 161280) * n4 - (179 / 168) * n5 + (6601661 / 7257600) * n6,
+    (34729 / 80640) * n5 - (3418889 / 1995840) * n6,
+    (212378941 / 319334400) * n6,
+  ];
+
+  const beta = [
+    0,
+    (1 / 2) * n - (2 / 3) * n2 + (37 / 96) * n3 - (1 / 360) * n4 - (81 / 512) * n5 + (96199 / 604800) * n6,
+    (1 / 48) * n2 + (1 / 15) * n3 - (437 / 1440) * n4 + (46 / 105) * n5 - (1118711 / 3870720) * n6,
+    (17 / 480) * n3 - (37 / 840) * n4 - (209 / 4480) * n5 + (5569 / 90720) * n6,
+    (4397 / 161280) * n4 - (11 / 504) * n5 - (830251 / 7257600) * n6,
+    (4583 / 161280) * n5 - (108847 / 3991680) * n6,
+    (20648693 / 638668800) * n6,
+  ];
+
+  return { e, A, alpha, beta };
+}
+
+/**
+ * Projects a geodetic position onto a transverse Mercator plane.
+ *
+ * Returns x (east) and y (north) in metres relative to the central meridian
+ * and the equator, scaled by `k0`. False easting/northing are left to the caller.
+ *
+ * @param lat - Latitude in degrees
+ * @param lon - Longitude in degrees
+ * @param lon0 - Central meridian in degrees
+ * @param k0 - Scale factor on the central meridian
+ * @param ellipsoid - Semi-major axis and flattening of the ellipsoid
+ */
+function tmForward(
+  lat: number,
+  lon: number,
+  lon0: number,
+  k0: number,
+  ellipsoid: Ellipsoid
+): { x: number; y: number } {
+  const { e, A, alpha } = seriesFor(ellipsoid);
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon - lon0);
+
+  const cosLambda = Math.cos(lambda);
+  const sinLambda = Math.sin(lambda);
+
+  const tau = Math.tan(phi);
+  const sigma = Math.sinh(e * Math.atanh((e * tau) / Math.sqrt(1 + tau * tau)));
+  const tauPrime =
+    tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+
+  const xiPrime = Math.atan2(tauPrime, cosLambda);
+  const etaPrime = Math.asinh(
+    sinLambda / Math.sqrt(tauPrime * tauPrime + cosLambda * cosLambda)
+  );
+
+  let xi = xiPrime;
+  let eta = etaPrime;
+  for (let j = 1; j <= 6; j++) {
+    xi += alpha[j] * Math.sin(2 * j * xiPrime) * Math.cosh(2 * j * etaPrime);
+    eta += alpha[j] * Math.cos(2 * j * xiPrime) * Math.sinh(2 * j * etaPrime);
+  }
+
+  return { x: k0 * A * eta, y: k0 * A * xi };
+}
+
+/**
+ * Inverse of {@link tmForward}: recovers latitude/longitude in degrees from
+ * x/y plane coordinates (false easting/northing already removed).
+ *
+ * @param x - Easting relative to the central meridian, in metres
+ * @param y - Northing relative to the equator, in metres
+ * @param lon0 - Central meridian in degrees
+ * @param k0 - Scale factor on the central meridian
+ * @param ellipsoid - Semi-major axis and flattening of the ellipsoid
+ */
+function tmInverse(
+  x: number,
+  y: number,
+  lon0: number,
+  k0: number,
+  ellipsoid: Ellipsoid
+): { lat: number; lon: number } {
+  const { e, A, beta } = seriesFor(ellipsoid);
+  const eta = x / (k0 * A);
+  const xi = y / (k0 * A);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  for (let j = 1; j <= 6; j++) {
+    xiPrime -= beta[j] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+    etaPrime -= beta[j] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+  }
+
+  const sinhEtaPrime = Math.sinh(etaPrime);
+  const sinXiPrime = Math.sin(xiPrime);
+  const cosXiPrime = Math.cos(xiPrime);
+
+  const tauPrime =
+    sinXiPrime /
+    Math.sqrt(sinhEtaPrime * sinhEtaPrime + cosXiPrime * cosXiPrime);
+
+  // Newton-Raphson on τ; converges in 2–3 iterations
+  const e2 = e * e;
+  let tau = tauPrime;
+  let delta: number;
+  do {
+    const sigma = Math.sinh(e * Math.atanh((e * tau) / Math.sqrt(1 + tau * tau)));
+    const tauI =
+      tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+    delta =
+      ((tauPrime - tauI) / Math.sqrt(1 + tauI * tauI)) *
+      ((1 + (1 - e2) * tau * tau) / ((1 - e2) * Math.sqrt(1 + tau * tau)));
+    tau += delta;
+  } while (Math.abs(delta) > 1e-12);
+
+  const phi = Math.atan(tau);
+  const lambda = Math.atan2(sinhEtaPrime, cosXiPrime);
+
+  return { lat: toDegrees(phi), lon: lon0 + toDegrees(lambda) };
+}
+
+export { tmForward, tmInverse };
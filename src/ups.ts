@@ -0,0 +1,176 @@
+import { validateRange, ensureFinite, toRadians, toDegrees } from "./helpers";
+import { OutOfRangeError, UnrecognizedFormatError } from "./errors";
+import { CoordinateType, Hemisphere, DD, UPS } from "../types";
+import { UPS_CONSTANTS, WGS84 } from "../data";
+
+/**
+ * Converts a pair of Decimal Degrees (DD) to Universal Polar Stereographic (UPS).
+ *
+ * UPS covers the polar caps that UTM leaves out: north of 84°N and south of
+ * 80°S, with the standard half-degree overlap into UTM. Zones are lettered
+ * A/B (south, west/east of the prime meridian) and Y/Z (north).
+ *
+ * @param latDD - The latitude DD object
+ * @param lonDD - The longitude DD object
+ * @returns A UPS object with zone, easting, northing and hemisphere
+ *
+ * @throws {InvalidNumberError} When either coordinate is not a finite number
+ * @throws {OutOfRangeError} When either coordinate is out of range or the latitude is outside UPS coverage
+ *
+ * @example
+ * ```typescript
+ * const latDD = { kind: CoordinateType.LAT, degrees: -89 };
+ * const lonDD = { kind: CoordinateType.LON, degrees: 45 };
+ * ddPairToUPS(latDD, lonDD);
+ * // { zone: "B", easting: 2078507.6, northing: 2078507.6, hemisphere: "S" }
+ * ```
+ */
+function ddPairToUPS(latDD: DD, lonDD: DD): UPS {
+  const lat = ensureFinite(latDD.degrees, "latitude", { kind: CoordinateType.LAT });
+  const lon = ensureFinite(lonDD.degrees, "longitude", { kind: CoordinateType.LON });
+  validateRange(CoordinateType.LAT, lat);
+  validateRange(CoordinateType.LON, lon);
+  if (lat < UPS_CONSTANTS.NORTH_MIN_LAT && lat > UPS_CONSTANTS.SOUTH_MAX_LAT)
+    throw new OutOfRangeError(
+      `lat degrees outside UPS coverage: ${lat} (must be >= ${UPS_CONSTANTS.NORTH_MIN_LAT} or <= ${UPS_CONSTANTS.SOUTH_MAX_LAT})`,
+      { value: lat, kind: CoordinateType.LAT }
+    );
+
+  const north = lat >= 0;
+  const { a, e, c } = polarConstants();
+  const phi = toRadians(Math.abs(lat));
+  const lambda = toRadians(lon);
+
+  const sinPhi = Math.sin(phi);
+  const t =
+    Math.tan(Math.PI / 4 - phi / 2) /
+    Math.pow((1 - e * sinPhi) / (1 + e * sinPhi), e / 2);
+  const rho = (2 * a * UPS_CONSTANTS.SCALE_FACTOR * t) / c;
+
+  const dx = rho * Math.sin(lambda);
+  const dy = rho * Math.cos(lambda);
+
+  return {
+    zone: north ? (lon < 0 ? "Y" : "Z") : lon < 0 ? "A" : "B",
+    easting: UPS_CONSTANTS.FALSE_EASTING + dx,
+    northing: north
+      ? UPS_CONSTANTS.FALSE_NORTHING - dy
+      : UPS_CONSTANTS.FALSE_NORTHING + dy,
+    hemisphere: north ? Hemisphere.N : Hemisphere.S,
+  };
+}
+
+/**
+ * Converts a Universal Polar Stereographic (UPS) position to a pair of Decimal Degrees (DD).
+ *
+ * The hemisphere selects the pole; the zone letter is informational and
+ * only checked for consistency with the hemisphere.
+ *
+ * @param ups - The UPS object to convert
+ * @returns A tuple of DD objects [latitude, longitude]
+ *
+ * @throws {UnrecognizedFormatError} When the zone letter is invalid or does not match the hemisphere
+ * @throws {InvalidNumberError} When the easting or northing is not a finite number
+ *
+ * @example
+ * ```typescript
+ * const [lat, lon] = upsToDDPair({ zone: "Z", easting: 2000000, northing: 2000000, hemisphere: Hemisphere.N });
+ * // lat: { kind: "lat", degrees: 90 }
+ * // lon: { kind: "lon", degrees: 0 }
+ * ```
+ */
+function upsToDDPair(ups: UPS): [DD, DD] {
+  const north = zoneIsNorth(ups.zone);
+  if (ups.hemisphere !== (north ? Hemisphere.N : Hemisphere.S))
+    throw new UnrecognizedFormatError(
+      `UPS zone ${ups.zone} does not match hemisphere ${ups.hemisphere}`,
+      { value: ups.hemisphere }
+    );
+  const easting = ensureFinite(ups.easting, "UPS easting");
+  const northing = ensureFinite(ups.northing, "UPS northing");
+
+  const { a, e, c } = polarConstants();
+  const dx = easting - UPS_CONSTANTS.FALSE_EASTING;
+  const dy = northing - UPS_CONSTANTS.FALSE_NORTHING;
+  const rho = Math.hypot(dx, dy);
+  const t = (rho * c) / (2 * a * UPS_CONSTANTS.SCALE_FACTOR);
+
+  // Fixed-point iteration on the conformal latitude; converges in a few steps
+  let phi = Math.PI / 2 - 2 * Math.atan(t);
+  let previous: number;
+  do {
+    previous = phi;
+    const sinPhi = Math.sin(phi);
+    phi =
+      Math.PI / 2 -
+      2 * Math.atan(t * Math.pow((1 - e * sinPhi) / (1 + e * sinPhi), e / 2));
+  } while (Math.abs(phi - previous) > 1e-12);
+
+  const lambda = rho === 0 ? 0 : north ? Math.atan2(dx, -dy) : Math.atan2(dx, dy);
+  const lat = north ? toDegrees(phi) : -toDegrees(phi);
+  const lon = toDegrees(lambda);
+
+  validateRange(CoordinateType.LAT, lat);
+  validateRange(CoordinateType.LON, lon);
+  return [
+    { kind: CoordinateType.LAT, degrees: lat },
+    { kind: CoordinateType.LON, degrees: lon },
+  ];
+}
+
+/**
+ * Parses a UPS reference string into a UPS object.
+ *
+ * Accepts the zone letter followed by easting and northing, optionally
+ * suffixed with `E`/`N` or `mE`/`mN`:
+ * - `"Z 2078546 1921453"`
+ * - `"A 1921453mE 1921453mN"`
+ *
+ * @param input - The UPS reference string
+ * @returns A UPS object; the hemisphere is derived from the zone letter
+ *
+ * @throws {UnrecognizedFormatError} When the input format is unrecognized
+ *
+ * @example
+ * ```typescript
+ * parseUPS("Z 2078546 1921453");
+ * // { zone: "Z", easting: 2078546, northing: 1921453, hemisphere: "N" }
+ * ```
+ */
+function parseUPS(input: string): UPS {
+  const match = String(input)
+    .trim()
+    .toUpperCase()
+    .match(/^([ABYZ])\s*(\d+(?:\.\d+)?)\s*M?E?\s+(\d+(?:\.\d+)?)\s*M?N?$/);
+  if (!match)
+    throw new UnrecognizedFormatError(`Unrecognized UPS format: ${JSON.stringify(input)}`, {
+      value: input,
+    });
+
+  const zone = match[1];
+  return {
+    zone,
+    easting: Number(match[2]),
+    northing: Number(match[3]),
+    hemisphere: zoneIsNorth(zone) ? Hemisphere.N : Hemisphere.S,
+  };
+}
+
+function zoneIsNorth(zone: string): boolean {
+  if (zone === "Y" || zone === "Z") return true;
+  if (zone === "A" || zone === "B") return false;
+  throw new UnrecognizedFormatError(
+    `UPS zone must be one of A, B, Y, Z (got ${JSON.stringify(zone)})`,
+    { value: zone }
+  );
+}
+
+// a, eccentricity, and the √((1+e)^(1+e)·(1−e)^(1−e)) term shared by both directions
+function polarConstants(): { a: number; e: number; c: number } {
+  const { a, f } = WGS84;
+  const e = Math.sqrt(f * (2 - f));
+  const c = Math.sqrt(Math.pow(1 + e, 1 + e) * Math.pow(1 - e, 1 - e));
+  return { a, e, c };
+}
+
+export { ddPairToUPS, upsToDDPair, parseUPS };
@@ -0,0 +1,188 @@
+import { validateRange, ensureFinite } from "./helpers";
+import { OutOfRangeError, UnrecognizedFormatError } from "./errors";
+import { tmForward, tmInverse } from "./transverseMercator";
+import { CoordinateType, Hemisphere, DD, UTM } from "../types";
+import { UTM_CONSTANTS, WGS84 } from "../data";
+
+/**
+ * Converts a pair of Decimal Degrees (DD) to Universal Transverse Mercator (UTM).
+ *
+ * The zone is derived from longitude, including the Norway (32V) and
+ * Svalbard (31X/33X/35X/37X) exceptions. UTM is only defined between
+ * 80°S and 84°N.
+ *
+ * @param latDD - The latitude DD object
+ * @param lonDD - The longitude DD object
+ * @returns A UTM object with zone, band, easting, northing and hemisphere
+ *
+ * @throws {InvalidNumberError} When either coordinate is not a finite number
+ * @throws {OutOfRangeError} When either coordinate is out of range or the latitude is outside UTM coverage
+ *
+ * @example
+ * ```typescript
+ * const latDD = { kind: CoordinateType.LAT, degrees: 48.8582 };
+ * const lonDD = { kind: CoordinateType.LON, degrees: 2.2945 };
+ * ddPairToUTM(latDD, lonDD);
+ * // { zone: 31, band: "U", easting: 448251.8, northing: 5411932.7, hemisphere: "N" }
+ * ```
+ */
+function ddPairToUTM(latDD: DD, lonDD: DD): UTM {
+  const lat = ensureFinite(latDD.degrees, "latitude", { kind: CoordinateType.LAT });
+  const lon = ensureFinite(lonDD.degrees, "longitude", { kind: CoordinateType.LON });
+  validateRange(CoordinateType.LAT, lat);
+  validateRange(CoordinateType.LON, lon);
+  if (lat < UTM_CONSTANTS.MIN_LAT || lat > UTM_CONSTANTS.MAX_LAT)
+    throw new OutOfRangeError(
+      `lat degrees outside UTM coverage: ${lat} (must be in [${UTM_CONSTANTS.MIN_LAT}, ${UTM_CONSTANTS.MAX_LAT}])`,
+      { value: lat, kind: CoordinateType.LAT }
+    );
+
+  const band = bandFromLat(lat);
+  const zone = zoneFor(lon, band);
+  const { x, y } = tmForward(
+    lat,
+    lon,
+    centralMeridian(zone),
+    UTM_CONSTANTS.SCALE_FACTOR,
+    WGS84
+  );
+
+  const hemisphere = lat >= 0 ? Hemisphere.N : Hemisphere.S;
+  return {
+    zone,
+    band,
+    easting: x + UTM_CONSTANTS.FALSE_EASTING,
+    northing: hemisphere === Hemisphere.S ? y + UTM_CONSTANTS.FALSE_NORTHING_SOUTH : y,
+    hemisphere,
+  };
+}
+
+/**
+ * Converts a Universal Transverse Mercator (UTM) position to a pair of Decimal Degrees (DD).
+ *
+ * The hemisphere decides whether the southern false northing is removed;
+ * the band letter is informational and not used in the calculation.
+ *
+ * @param utm - The UTM object to convert
+ * @returns A tuple of DD objects [latitude, longitude]
+ *
+ * @throws {OutOfRangeError} When the zone is not an integer in [1, 60], or the position decodes out of range
+ * @throws {InvalidNumberError} When the easting or northing is not a finite number
+ * @throws {UnrecognizedFormatError} When the hemisphere is not N or S
+ *
+ * @example
+ * ```typescript
+ * const [lat, lon] = utmToDDPair({ zone: 31, band: "U", easting: 448251.8, northing: 5411932.7, hemisphere: Hemisphere.N });
+ * // lat: { kind: "lat", degrees: 48.8582 }
+ * // lon: { kind: "lon", degrees: 2.2945 }
+ * ```
+ */
+function utmToDDPair(utm: UTM): [DD, DD] {
+  if (!Number.isInteger(utm.zone) || utm.zone < 1 || utm.zone > UTM_CONSTANTS.ZONE_COUNT)
+    throw new OutOfRangeError(`UTM zone must be an integer in [1, 60] (got ${utm.zone})`, {
+      value: utm.zone,
+    });
+  const easting = ensureFinite(utm.easting, "UTM easting");
+  const northing = ensureFinite(utm.northing, "UTM northing");
+  if (utm.hemisphere !== Hemisphere.N && utm.hemisphere !== Hemisphere.S)
+    throw new UnrecognizedFormatError(`UTM hemisphere must be N or S (got ${utm.hemisphere})`, {
+      value: utm.hemisphere,
+    });
+
+  const x = easting - UTM_CONSTANTS.FALSE_EASTING;
+  const y =
+    utm.hemisphere === Hemisphere.S
+      ? northing - UTM_CONSTANTS.FALSE_NORTHING_SOUTH
+      : northing;
+
+  const { lat, lon } = tmInverse(
+    x,
+    y,
+    centralMeridian(utm.zone),
+    UTM_CONSTANTS.SCALE_FACTOR,
+    WGS84
+  );
+  const lonNormalized = lon > 180 ? lon - 360 : lon < -180 ? lon + 360 : lon;
+
+  validateRange(CoordinateType.LAT, lat);
+  validateRange(CoordinateType.LON, lonNormalized);
+  return [
+    { kind: CoordinateType.LAT, degrees: lat },
+    { kind: CoordinateType.LON, degrees: lonNormalized },
+  ];
+}
+
+/**
+ * Parses a UTM reference string into a UTM object.
+ *
+ * Accepts the zone and latitude band followed by easting and northing,
+ * optionally suffixed with `E`/`N` or `mE`/`mN`:
+ * - `"31U 448251 5411932"`
+ * - `"31U 448251mE 5411932mN"`
+ *
+ * @param input - The UTM reference string
+ * @returns A UTM object; the hemisphere is derived from the band letter
+ *
+ * @throws {UnrecognizedFormatError} When the input format is unrecognized
+ * @throws {OutOfRangeError} When the zone is not in [1, 60]
+ *
+ * @example
+ * ```typescript
+ * parseUTM("31U 448251 5411932");
+ * // { zone: 31, band: "U", easting: 448251, northing: 5411932, hemisphere: "N" }
+ * ```
+ */
+function parseUTM(input: string): UTM {
+  const match = String(input)
+    .trim()
+    .toUpperCase()
+    .match(
+      /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*M?E?\s+(\d+(?:\.\d+)?)\s*M?N?$/
+    );
+  if (!match)
+    throw new UnrecognizedFormatError(`Unrecognized UTM format: ${JSON.stringify(input)}`, {
+      value: input,
+    });
+
+  const zone = Number(match[1]);
+  if (zone < 1 || zone > UTM_CONSTANTS.ZONE_COUNT)
+    throw new OutOfRangeError(`UTM zone must be an integer in [1, 60] (got ${zone})`, {
+      value: zone,
+    });
+
+  const band = match[2];
+  return {
+    zone,
+    band,
+    easting: Number(match[3]),
+    northing: Number(match[4]),
+    hemisphere: band >= "N" ? Hemisphere.N : Hemisphere.S,
+  };
+}
+
+function bandFromLat(lat: number): string {
+  return UTM_CONSTANTS.BANDS[Math.floor(lat / 8 + 10)];
+}
+
+function centralMeridian(zone: number): number {
+  return (zone - 1) * UTM_CONSTANTS.ZONE_WIDTH - 180 + UTM_CONSTANTS.ZONE_WIDTH / 2;
+}
+
+// Standard 6° zone, widened/narrowed for south-west Norway (32V) and
+// Svalbard, where zones 32, 34 and 36 are not used in band X.
+function zoneFor(lon: number, band: string): number {
+  let zone = Math.floor((lon + 180) / UTM_CONSTANTS.ZONE_WIDTH) + 1;
+  if (zone > UTM_CONSTANTS.ZONE_COUNT) zone = UTM_CONSTANTS.ZONE_COUNT;
+
+  if (band === "V" && zone === 31 && lon >= 3) zone = 32;
+
+  if (band === "X") {
+    if (zone === 32) zone = lon < 9 ? 31 : 33;
+    else if (zone === 34) zone = lon < 21 ? 33 : 35;
+    else if (zone === 36) zone = lon < 33 ? 35 : 37;
+  }
+
+  return zone;
+}
+
+export { ddPairToUTM, utmToDDPair, parseUTM };
@@ -5,16 +5,30 @@ import {
   dmToDD,
   dmsToDD,
   parsePairToDD,
+  parsePairString,
   ddPairToDM,
   ddPairToDMS,
   dmPairToDD,
   dmsPairToDD,
+  dmToDMS,
+  dmsToDM,
+  dmPairToDMS,
+  dmsPairToDM,
   formatDDPair,
   formatDMPair,
   formatDMSPair,
+  safeParseToDD,
+  safeParsePairToDD,
+  OutOfRangeError,
+  InvalidNumberError,
+  MinutesOverflowError,
+  SecondsOverflowError,
+  StrictParseError,
+  UnrecognizedFormatError,
 } from "../src";
-import { formatDM, formatDMS, formatDD } from "../src/formatters";
-import { CoordinateType, Hemisphere } from "../types";
+import { formatDM, formatDMS, formatDD, formatCoordinate } from "../src/formatters";
+import { FORMAT_PRESETS } from "../data";
+import { CoordinateType, Hemisphere, ParseWarningCode, RoundingMode } from "../types";
 
 const TEST_PRECISION = {
   FLOATING_POINT_TOLERANCE: 5,
@@ -128,6 +142,46 @@ describe("Conversion Functions", () => {
     expect(dd.degrees).toBeCloseTo(48.8544, 6);
   });
 
+  test("dmToDMS - exact sexagesimal split", () => {
+    const dm = { kind: CoordinateType.LAT, degrees: 45, minutes: 7.5, hemi: Hemisphere.N };
+    expect(dmToDMS(dm)).toEqual({ ...dm, minutes: 7, seconds: 30 });
+  });
+
+  test("dmToDMS - rounding carries into minutes and degrees", () => {
+    const dm = { kind: CoordinateType.LON, degrees: 10, minutes: 7.9999999, hemi: Hemisphere.W };
+    expect(dmToDMS(dm, { decimals: 2 })).toEqual({ ...dm, minutes: 8, seconds: 0 });
+    expect(dmToDMS({ ...dm, minutes: 59.9999999 }, { decimals: 2 })).toEqual({
+      ...dm,
+      degrees: 11,
+      minutes: 0,
+      seconds: 0,
+    });
+    // Without hemi the sign stays on degrees and carries away from zero
+    expect(
+      dmToDMS({ kind: CoordinateType.LAT, degrees: -45, minutes: 59.9999999 }, { decimals: 2 })
+    ).toEqual({ kind: CoordinateType.LAT, degrees: -46, minutes: 0, seconds: 0, hemi: undefined });
+  });
+
+  test("dmsToDM - folds seconds into minutes", () => {
+    const dms = { kind: CoordinateType.LAT, degrees: 45, minutes: 7, seconds: 22.8, hemi: Hemisphere.S };
+    expect(dmsToDM(dms)).toEqual({ kind: CoordinateType.LAT, degrees: 45, minutes: 7.38, hemi: Hemisphere.S });
+    expect(dmsToDM({ ...dms, minutes: 59, seconds: 59.9999 }, { decimals: 2 })).toEqual({
+      kind: CoordinateType.LAT,
+      degrees: 46,
+      minutes: 0,
+      hemi: Hemisphere.S,
+    });
+  });
+
+  test("dmToDMS / dmsToDM - reject overflowing components", () => {
+    expect(() => dmToDMS({ kind: CoordinateType.LAT, degrees: 45, minutes: 60 })).toThrow(
+      MinutesOverflowError
+    );
+    expect(() =>
+      dmsToDM({ kind: CoordinateType.LAT, degrees: 45, minutes: 7, seconds: 61 })
+    ).toThrow(SecondsOverflowError);
+  });
+
   test("round trip conversions", () => {
     // DD → DM → DD
     const dm = ddToDM(testLatDD);
@@ -147,6 +201,83 @@ describe("Conversion Functions", () => {
   });
 });
 
+// ============================================================================
+// ROUNDING MODE TESTS
+// ============================================================================
+
+describe("Rounding Modes", () => {
+  // 10° 0' 22.5" exactly, which sits just below .5 in binary
+  const north = { kind: CoordinateType.LAT, degrees: 10.00625 };
+  const south = { kind: CoordinateType.LAT, degrees: -10.00625 };
+  const seconds = (dd: typeof north, rounding: RoundingMode) =>
+    ddToDMS(dd, { decimals: 0, rounding }).seconds;
+
+  test("ddToDMS - ties follow the decimal digits, not the binary value", () => {
+    expect(seconds(north, RoundingMode.HALF_UP)).toBe(23);
+    expect(seconds(north, RoundingMode.HALF_EVEN)).toBe(22);
+    expect(seconds({ ...north, degrees: 10.00875 }, RoundingMode.HALF_EVEN)).toBe(32);
+  });
+
+  test("ddToDMS - directed modes", () => {
+    expect(seconds(north, RoundingMode.TRUNCATE)).toBe(22);
+    expect(seconds(north, RoundingMode.FLOOR)).toBe(22);
+    expect(seconds(north, RoundingMode.CEIL)).toBe(23);
+    // Floor and ceil follow the signed value, so they swap in the south
+    expect(seconds(south, RoundingMode.TRUNCATE)).toBe(22);
+    expect(seconds(south, RoundingMode.FLOOR)).toBe(23);
+    expect(seconds(south, RoundingMode.CEIL)).toBe(22);
+  });
+
+  test("ddToDM - rounding and carry", () => {
+    const dd = { kind: CoordinateType.LON, degrees: -122.99999 };
+    expect(ddToDM(dd, { decimals: 2 })).toEqual({
+      kind: CoordinateType.LON,
+      degrees: 123,
+      minutes: 0,
+      hemi: Hemisphere.W,
+    });
+    expect(ddToDM(dd, { decimals: 2, rounding: RoundingMode.TRUNCATE }).minutes).toBe(59.99);
+    expect(ddToDM(dd, { decimals: 2, rounding: RoundingMode.CEIL }).minutes).toBe(59.99);
+  });
+
+  test("ddToDMS - results are exact decimals", () => {
+    expect(ddToDMS({ kind: CoordinateType.LAT, degrees: 45.123 }).seconds).toBe(22.8);
+    expect(ddToDMS({ kind: CoordinateType.LAT, degrees: 48.8544 }, { decimals: 2 })).toEqual({
+      kind: CoordinateType.LAT,
+      degrees: 48,
+      minutes: 51,
+      seconds: 15.84,
+      hemi: Hemisphere.N,
+    });
+    expect(ddToDMS({ kind: CoordinateType.LON, degrees: 1e-7 }, { decimals: 6 }).seconds).toBe(0.00036);
+  });
+
+  test("dmToDMS / dmsToDM - rounding options", () => {
+    const dms = { kind: CoordinateType.LAT, degrees: 45, minutes: 7, seconds: 21.9, hemi: Hemisphere.N };
+    // 7.365' exactly
+    expect(dmsToDM(dms, { decimals: 2 }).minutes).toBe(7.37);
+    expect(dmsToDM(dms, { decimals: 2, rounding: RoundingMode.HALF_EVEN }).minutes).toBe(7.36);
+
+    const dm = { kind: CoordinateType.LON, degrees: 10, minutes: 7.01, hemi: Hemisphere.W };
+    // 0.01' is 0.6", which floors away from zero in the west
+    expect(dmToDMS(dm, { decimals: 0, rounding: RoundingMode.FLOOR }).seconds).toBe(1);
+    expect(dmToDMS(dm, { decimals: 0, rounding: RoundingMode.CEIL }).seconds).toBe(0);
+  });
+
+  test("ddPairToDMS - passes the rounding mode to both axes", () => {
+    const [lat, lon] = ddPairToDMS(north, { kind: CoordinateType.LON, degrees: 10.00625 }, {
+      decimals: 0,
+      rounding: RoundingMode.TRUNCATE,
+    });
+    expect([lat.seconds, lon.seconds]).toEqual([22, 22]);
+  });
+
+  test("ddToDM / ddToDMS - reject non-finite degrees", () => {
+    expect(() => ddToDMS({ kind: CoordinateType.LAT, degrees: NaN })).toThrow(InvalidNumberError);
+    expect(() => ddToDM({ kind: CoordinateType.LON, degrees: Infinity })).toThrow(InvalidNumberError);
+  });
+});
+
 // ============================================================================
 // FORMATTING TESTS
 // ============================================================================
@@ -198,6 +329,139 @@ describe("Formatting Functions", () => {
   });
 });
 
+// ============================================================================
+// FORMAT PATTERN TESTS
+// ============================================================================
+
+describe("Format Patterns", () => {
+  const lat = { kind: CoordinateType.LAT, degrees: -45.123 };
+  const lon = { kind: CoordinateType.LON, degrees: 45.123 };
+
+  test("formatCoordinate - padding and decimals", () => {
+    expect(formatCoordinate(lon, "DDD°MM'SS.s\"H")).toBe("045°07'22.8\"E");
+    expect(formatCoordinate(lon, "DDD MM.mmm")).toBe("045 07.380");
+    expect(formatCoordinate(lon, "D.dd°")).toBe("45.12°");
+    expect(formatCoordinate({ ...lon, degrees: 5.5 }, "DDD.dd")).toBe("005.50");
+  });
+
+  test("formatCoordinate - hemisphere prefix and suffix", () => {
+    expect(formatCoordinate(lat, "HDD MM.mmm")).toBe("S45 07.380");
+    expect(formatCoordinate(lat, "D° M' H")).toBe("45° 7' S");
+  });
+
+  test("formatCoordinate - sign tokens", () => {
+    expect(formatCoordinate(lat, "-D.ddddd")).toBe("-45.12300");
+    expect(formatCoordinate(lon, "-D.ddddd")).toBe("45.12300");
+    expect(formatCoordinate(lon, "+D.d")).toBe("+45.1");
+    expect(formatCoordinate(lat, "+D.d")).toBe("-45.1");
+  });
+
+  test("formatCoordinate - literal text in brackets", () => {
+    expect(formatCoordinate(lon, "D[deg] M[min] H")).toBe("45deg 7min E");
+    expect(formatCoordinate(lon, "[Lon: ]D.dd")).toBe("Lon: 45.12");
+  });
+
+  test("formatCoordinate - rounding carries into larger units", () => {
+    const dd = { kind: CoordinateType.LAT, degrees: 45.99999999 };
+    expect(formatCoordinate(dd, "D° MM.mm' H")).toBe("46° 00.00' N");
+    expect(formatCoordinate(dd, "D° M' S\" H")).toBe("46° 0' 0\" N");
+  });
+
+  test("formatCoordinate - presets match the fixed formatters", () => {
+    const dd = { kind: CoordinateType.LON, degrees: -123.5005 };
+    expect(formatCoordinate(dd, FORMAT_PRESETS.DD)).toBe(formatDD(dd));
+    expect(formatCoordinate(dd, FORMAT_PRESETS.DM)).toBe(formatDM(ddToDM(dd)));
+    expect(formatCoordinate(dd, FORMAT_PRESETS.DMS)).toBe(formatDMS(ddToDMS(dd)));
+  });
+
+  test("formatCoordinate - locale", () => {
+    expect(formatCoordinate(lat, "D° MM.mm' H", { locale: "fr" })).toBe("45° 07,38' S");
+    expect(formatCoordinate(lon, "D.d H", { locale: "de" })).toBe("45,1 O");
+    const compact = {
+      decimalSeparator: ".",
+      hemispheres: { N: "N", S: "S", E: "E", W: "W" },
+      spaceBeforeHemisphere: false,
+    };
+    expect(formatCoordinate(lon, "D.d H", { locale: compact })).toBe("45.1E");
+  });
+
+  test("formatCoordinate - invalid patterns", () => {
+    expect(() => formatCoordinate(lon, "M.mm")).toThrow(/degrees \(D\) are required/);
+    expect(() => formatCoordinate(lon, "D S")).toThrow(/minutes \(M\) are required/);
+    expect(() => formatCoordinate(lon, "D.dd M")).toThrow(/only the smallest unit/);
+    expect(() => formatCoordinate(lon, "D D")).toThrow(/more than once/);
+    expect(() => formatCoordinate(lon, "Q")).toThrow(UnrecognizedFormatError);
+  });
+});
+
+// ============================================================================
+// TOKENIZED FORMAT TESTS
+// ============================================================================
+
+describe("Tokenized Formats", () => {
+  const lat = (input: string) => parseToDD(input, CoordinateType.LAT).degrees;
+  const lon = (input: string) => parseToDD(input, CoordinateType.LON).degrees;
+
+  test("parseToDD - Unicode primes and typographic quotes", () => {
+    expect(lat("45°07′22.8″N")).toBeCloseTo(45.123, 6);
+    expect(lat("45°07ʹ22.8ʺ S")).toBeCloseTo(-45.123, 6);
+    expect(lat("45º 7’ 22.8” N")).toBeCloseTo(45.123, 6);
+    expect(lat("45˚ 7‘ 22.8“")).toBeCloseTo(45.123, 6);
+    expect(lat("45° 7' 22.8'' N")).toBeCloseTo(45.123, 6);
+  });
+
+  test("parseToDD - unit words and letter suffixes", () => {
+    expect(lat("45d 7m 22.8s")).toBeCloseTo(45.123, 6);
+    expect(lat("45 deg 7 min")).toBeCloseTo(45 + 7 / 60, 6);
+    expect(lat("45 degrees 7 minutes 22.8 seconds south")).toBeCloseTo(-45.123, 6);
+    expect(lon("122DEG30MIN WEST")).toBeCloseTo(-122.5, 6);
+  });
+
+  test("parseToDD - prefix hemisphere letters", () => {
+    expect(lat("N45°07.38'")).toBeCloseTo(45.123, 6);
+    expect(lon("W122 30.03")).toBeCloseTo(-122.5005, 6);
+  });
+
+  test("parseToDD - compact aviation forms", () => {
+    expect(lat("4507.38N")).toBeCloseTo(45.123, 6);
+    expect(lat("450722.8S")).toBeCloseTo(-45.123, 6);
+    expect(lon("12230.03W")).toBeCloseTo(-122.5005, 6);
+    expect(lon("1223015 W")).toBeCloseTo(-(122 + 30 / 60 + 15 / 3600), 6);
+    // Without a hemisphere letter a long number is still plain degrees
+    expect(() => lat("4507.38")).toThrow("lat degrees out of range: 4507.38");
+    expect(() => lat("4575.00N")).toThrow("Minutes must be < 60 (got 75)");
+  });
+
+  test("parseToDD - components are assigned by unit, not position", () => {
+    expect(lat("7' 45°")).toBeCloseTo(45 + 7 / 60, 6);
+    expect(lat("22.8\" 7' 45° N")).toBeCloseTo(45.123, 6);
+    expect(lat("30'")).toBeCloseTo(0.5, 6);
+    // Unmarked numbers continue after the previous component
+    expect(lat("45° 7 22.8")).toBeCloseTo(45.123, 6);
+    expect(() => lat("45° 30°")).toThrow(
+      'Degrees given twice (45 and 30) in "45° 30°"'
+    );
+  });
+
+  test("parseToDD - a trailing s is seconds only after minutes", () => {
+    expect(lat("45° 7' 22.8s")).toBeCloseTo(45.123, 6);
+    expect(lat("45 7 22.8S")).toBeCloseTo(-45.123, 6);
+    expect(lat("4507.38S")).toBeCloseTo(-45.123, 6);
+  });
+
+  test("parsePairString - tokenized formats", () => {
+    const expectPair = (input: string, latDeg: number, lonDeg: number) => {
+      const [a, b] = parsePairString(input);
+      expect(a.degrees).toBeCloseTo(latDeg, 6);
+      expect(b.degrees).toBeCloseTo(lonDeg, 6);
+    };
+    expectPair("4507.38N 12230.03W", 45.123, -122.5005);
+    expectPair("45°07′22.8″N 122°30′01.8″W", 45.123, -122.5005);
+    expectPair("45d 7m 22.8s N 122d 30m 1.8s W", 45.123, -122.5005);
+    expectPair("45 deg 7.38 min 122 deg 30.03 min", 45.123, 122.5005);
+  });
+});
+
 // ============================================================================
 // PAIR FUNCTION TESTS
 // ============================================================================
@@ -299,6 +563,26 @@ describe("Pair Functions", () => {
     expect(lonDD.degrees).toBeCloseTo(-123.5005, 6);
   });
 
+  test("dmPairToDMS / dmsPairToDM", () => {
+    const latDM = {
+      kind: CoordinateType.LAT,
+      degrees: 48,
+      minutes: 51.264,
+      hemi: Hemisphere.N,
+    };
+    const lonDM = {
+      kind: CoordinateType.LON,
+      degrees: 123,
+      minutes: 30.03,
+      hemi: Hemisphere.W,
+    };
+    const [latDMS, lonDMS] = dmPairToDMS(latDM, lonDM);
+    expect(latDMS).toEqual({ ...latDM, minutes: 51, seconds: 15.84 });
+    expect(lonDMS).toEqual({ ...lonDM, minutes: 30, seconds: 1.8 });
+
+    expect(dmsPairToDM(latDMS, lonDMS)).toEqual([latDM, lonDM]);
+  });
+
   test("formatDDPair", () => {
     const latDD = { kind: CoordinateType.LAT, degrees: 48.8544 };
     const lonDD = { kind: CoordinateType.LON, degrees: -123.5005 };
@@ -349,6 +633,159 @@ describe("Pair Functions", () => {
   });
 });
 
+// ============================================================================
+// PAIR STRING PARSING TESTS
+// ============================================================================
+
+describe("Pair String Parsing", () => {
+  test("parsePairString - DMS with suffix hemispheres", () => {
+    const [lat, lon] = parsePairString("48°51'15.8\"N 123°30'01.8\"W");
+    expect(lat.kind).toBe(CoordinateType.LAT);
+    expect(lat.degrees).toBeCloseTo(48.854389, 6);
+    expect(lon.kind).toBe(CoordinateType.LON);
+    expect(lon.degrees).toBeCloseTo(-123.5005, 6);
+  });
+
+  test("parsePairString - comma-separated decimal degrees", () => {
+    const [lat, lon] = parsePairString("48.8544, -123.5005");
+    expect(lat.degrees).toBeCloseTo(48.8544, 6);
+    expect(lon.degrees).toBeCloseTo(-123.5005, 6);
+  });
+
+  test("parsePairString - prefix hemispheres attached to numbers", () => {
+    const [lat, lon] = parsePairString("N48 51.26 W123 30.03");
+    expect(lat.degrees).toBeCloseTo(48.854333, 6);
+    expect(lon.degrees).toBeCloseTo(-123.5005, 6);
+  });
+
+  test("parsePairString - hemisphere letters override order", () => {
+    const [lat, lon] = parsePairString("123°30'01.8\"W 48°51'15.8\"N");
+    expect(lat.degrees).toBeCloseTo(48.854389, 6);
+    expect(lon.degrees).toBeCloseTo(-123.5005, 6);
+
+    const [lat2, lon2] = parsePairString("E151.2 S33.85", { order: "latlon" });
+    expect(lat2.degrees).toBeCloseTo(-33.85, 6);
+    expect(lon2.degrees).toBeCloseTo(151.2, 6);
+  });
+
+  test("parsePairString - order option without hemisphere letters", () => {
+    const [lat, lon] = parsePairString("-123.5005 48.8544", { order: "lonlat" });
+    expect(lat.degrees).toBeCloseTo(48.8544, 6);
+    expect(lon.degrees).toBeCloseTo(-123.5005, 6);
+  });
+
+  test("parsePairString - splits unmarked DMS halfway", () => {
+    const [lat, lon] = parsePairString("48 51 15.8 123 30 1.8");
+    expect(lat.degrees).toBeCloseTo(48.854389, 6);
+    expect(lon.degrees).toBeCloseTo(123.5005, 6);
+  });
+
+  test("parsePairString - matches parsePairToDD", () => {
+    expect(parsePairString("48.8544° N; 123.5005° W")).toEqual(
+      parsePairToDD("48.8544° N", "123.5005° W")
+    );
+  });
+
+  test("parsePairString - errors", () => {
+    expect(() => parsePairString("48 N 49 S")).toThrow(
+      'Both coordinates in "48 N 49 S" are latitudes'
+    );
+    expect(() => parsePairString("1 2 3")).toThrow(
+      'Cannot split into latitude and longitude: "1 2 3"'
+    );
+    expect(() => parsePairString("1, 2, 3")).toThrow(
+      /Expected one separator between latitude and longitude/
+    );
+    expect(() => parsePairString("95, 10")).toThrow(/lat degrees out of range: 95/);
+  });
+});
+
+// ============================================================================
+// SAFE PARSING TESTS
+// ============================================================================
+
+describe("Safe Parsing", () => {
+  test("safeParseToDD - success without warnings", () => {
+    const result = safeParseToDD("48° 51.26' N", CoordinateType.LAT);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toEqual(parseToDD("48° 51.26' N", CoordinateType.LAT));
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("safeParseToDD - failure returns the typed error", () => {
+    const result = safeParseToDD("95", CoordinateType.LAT);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBeInstanceOf(OutOfRangeError);
+    expect(result.error.message).toBe(
+      "lat degrees out of range: 95 (must be in [-90, 90])"
+    );
+
+    const short = safeParseToDD("JM6C+Q6", CoordinateType.LAT);
+    expect(short.ok).toBe(false);
+  });
+
+  test("safeParseToDD - sign contradicting the hemisphere", () => {
+    const result = safeParseToDD("-45 N", CoordinateType.LAT);
+    if (!result.ok) throw result.error;
+    expect(result.value.degrees).toBe(45);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toMatchObject({
+      code: ParseWarningCode.SIGN_CONTRADICTS_HEMISPHERE,
+      kind: CoordinateType.LAT,
+      span: { start: 0, end: 1 },
+    });
+
+    // A sign that agrees with the hemisphere is redundant, not suspicious
+    const agreeing = safeParseToDD("-45 S", CoordinateType.LAT);
+    expect(agreeing.ok && agreeing.warnings).toEqual([]);
+    const plus = safeParseToDD("+122 30 W", CoordinateType.LON);
+    expect(plus.ok && plus.warnings.map((w) => w.code)).toEqual([
+      ParseWarningCode.SIGN_CONTRADICTS_HEMISPHERE,
+    ]);
+  });
+
+  test("safeParseToDD - extra numbers and fractional degrees", () => {
+    const input = "45.5 30 15 99 7";
+    const result = safeParseToDD(input, CoordinateType.LAT);
+    if (!result.ok) throw result.error;
+    const [extra, fractional] = result.warnings;
+    expect(extra.code).toBe(ParseWarningCode.EXTRA_NUMBERS);
+    expect(input.slice(extra.span!.start, extra.span!.end)).toBe("99 7");
+    expect(fractional.code).toBe(
+      ParseWarningCode.FRACTIONAL_DEGREES_WITH_MINUTES
+    );
+    expect(input.slice(fractional.span!.start, fractional.span!.end)).toBe(
+      "45.5"
+    );
+  });
+
+  test("safeParseToDD - numbers, locators and plain decimals never warn", () => {
+    for (const input of [45.5, "45.5", "-45.5", "CN88xt", "45.5 N"]) {
+      const result = safeParseToDD(input, CoordinateType.LAT);
+      expect(result.ok && result.warnings).toEqual([]);
+    }
+  });
+
+  test("safeParsePairToDD - combines warnings from both inputs", () => {
+    const result = safeParsePairToDD("-48.8544 N", "123 30 1.8 0 W");
+    if (!result.ok) throw result.error;
+    expect(result.value).toEqual(parsePairToDD("48.8544 N", "123 30 1.8 W"));
+    expect(result.warnings.map((w) => [w.kind, w.code])).toEqual([
+      [CoordinateType.LAT, ParseWarningCode.SIGN_CONTRADICTS_HEMISPHERE],
+      [CoordinateType.LON, ParseWarningCode.EXTRA_NUMBERS],
+    ]);
+  });
+
+  test("safeParsePairToDD - reports the first failing coordinate", () => {
+    const result = safeParsePairToDD("91", "181");
+    expect(!result.ok && result.error.kind).toBe(CoordinateType.LAT);
+    const lon = safeParsePairToDD("45", "181");
+    expect(!lon.ok && lon.error.kind).toBe(CoordinateType.LON);
+  });
+});
+
 // ============================================================================
 // ERROR HANDLING TESTS
 // ============================================================================
@@ -687,6 +1124,85 @@ describe("Parser Quirks (backward-compat)", () => {
   });
 });
 
+// ============================================================================
+// STRICT PARSING TESTS — each parser quirk above is rejected in strict mode
+// ============================================================================
+
+describe("Strict Parsing", () => {
+  const strict = { strict: true };
+
+  const rejects = (input: string, reason: ParseWarningCode, offending: string) => {
+    let error: unknown;
+    try {
+      parseToDD(input, CoordinateType.LAT, strict);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(StrictParseError);
+    const strictError = error as StrictParseError;
+    expect(strictError.reason).toBe(reason);
+    expect(strictError.kind).toBe(CoordinateType.LAT);
+    expect(strictError.message).toContain(JSON.stringify(input));
+    expect(input.slice(strictError.span!.start, strictError.span!.end)).toBe(
+      offending
+    );
+  };
+
+  test("parseToDD - rejects numbers beyond seconds", () => {
+    rejects("1 2 3 4 5", ParseWarningCode.EXTRA_NUMBERS, "4 5");
+  });
+
+  test("parseToDD - rejects negative minutes or seconds", () => {
+    rejects("45 -7 22 N", ParseWarningCode.NEGATIVE_MINUTES_OR_SECONDS, "-7");
+  });
+
+  test("parseToDD - rejects a sign contradicting the hemisphere", () => {
+    rejects("-45 N", ParseWarningCode.SIGN_CONTRADICTS_HEMISPHERE, "-");
+  });
+
+  test("parseToDD - rejects more than one hemisphere letter", () => {
+    rejects("45 30 N S", ParseWarningCode.MULTIPLE_HEMISPHERES, "S");
+  });
+
+  test("parseToDD - rejects fractional degrees followed by minutes", () => {
+    rejects("45.5° 30'", ParseWarningCode.FRACTIONAL_DEGREES_WITH_MINUTES, "45.5");
+  });
+
+  test("parseToDD - well-formed input is unaffected", () => {
+    for (const input of ["45.123", "-45.123", "45 n", "48° 51' 15.84\" S", "-45 S"]) {
+      expect(parseToDD(input, CoordinateType.LAT, strict)).toEqual(
+        parseToDD(input, CoordinateType.LAT)
+      );
+    }
+    expect(parseToDD(-45.5, CoordinateType.LAT, strict).degrees).toBe(-45.5);
+  });
+
+  test("parsePairToDD / parsePairString - strict applies to both halves", () => {
+    expect(() => parsePairToDD("45 N", "-122 E", strict)).toThrow(StrictParseError);
+    expect(parsePairToDD("45 N", "-122 E")[1].degrees).toBe(122);
+
+    expect(() => parsePairString("45.5 30 N, 122 30 W", strict)).toThrow(
+      /Fractional degrees \(45\.5\) followed by minutes/
+    );
+    expect(() =>
+      parsePairString("10 20 30 40, 5", { order: "lonlat", strict: true })
+    ).toThrow(StrictParseError);
+    expect(parsePairString("N48 51.26 W123 30.03", strict)).toEqual(
+      parsePairString("N48 51.26 W123 30.03")
+    );
+  });
+
+  test("safeParseToDD - strict failures are returned, not thrown", () => {
+    const result = safeParseToDD("45 -7 22 N", CoordinateType.LAT, strict);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBeInstanceOf(StrictParseError);
+
+    const pair = safeParsePairToDD("45", "122 30 W E", strict);
+    expect(!pair.ok && pair.error.kind).toBe(CoordinateType.LON);
+  });
+});
+
 // ============================================================================
 // INTEGRATION TESTS
 // ============================================================================
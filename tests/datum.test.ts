@@ -0,0 +1,171 @@
+import {
+  transformDatum,
+  parseToDD,
+  parsePairToDD,
+  parsePairString,
+  safeParsePairToDD,
+  distance,
+  destination,
+  densify,
+  rhumbDistance,
+  crossTrackDistance,
+  closestPointOnPath,
+  DATUMS,
+  ELLIPSOIDS,
+  OutOfRangeError,
+  UnsupportedInputError,
+} from "../src";
+import { CoordinateType, DD, Datum, DatumTransformMethod } from "../types";
+
+const point = (lat: number, lon: number, datum?: Datum): [DD, DD] =>
+  parsePairToDD(lat, lon, { datum });
+
+// ============================================================================
+// REGISTRY TESTS
+// ============================================================================
+
+describe("Datum Registry", () => {
+  test("ellipsoids - defining constants", () => {
+    expect(ELLIPSOIDS.WGS84).toEqual({ a: 6378137, f: 1 / 298.257223563 });
+    expect(ELLIPSOIDS.GRS80.a).toBe(6378137);
+    expect(ELLIPSOIDS.AIRY_1830.a).toBe(6377563.396);
+    expect(ELLIPSOIDS.INTERNATIONAL_1924.f).toBe(1 / 297);
+  });
+
+  test("datums - every datum has an ellipsoid and a shift to WGS84", () => {
+    for (const datum of Object.values(Datum)) {
+      expect(DATUMS[datum].ellipsoid.a).toBeGreaterThan(6377000);
+      expect(Object.keys(DATUMS[datum].toWGS84).sort()).toEqual(
+        ["rx", "ry", "rz", "s", "tx", "ty", "tz"].sort()
+      );
+    }
+    expect(DATUMS[Datum.OSGB36].ellipsoid).toBe(ELLIPSOIDS.AIRY_1830);
+    expect(DATUMS[Datum.NAD27].ellipsoid).toBe(ELLIPSOIDS.CLARKE_1866);
+  });
+});
+
+// ============================================================================
+// TRANSFORMATION TESTS
+// ============================================================================
+
+describe("Datum Transformations", () => {
+  test("transformDatum - OSGB36 to WGS84 (Helmert)", () => {
+    const [lat, lon] = transformDatum(point(51.4778, 0.0016), Datum.OSGB36, Datum.WGS84);
+    expect(lat.degrees).toBeCloseTo(51.47832, 5);
+    expect(lon.degrees).toBeCloseTo(-0.00002, 5);
+    expect(lat.datum).toBe(Datum.WGS84);
+    expect(lon.datum).toBe(Datum.WGS84);
+    expect(lat.kind).toBe(CoordinateType.LAT);
+  });
+
+  test("transformDatum - Helmert round trip", () => {
+    const datums = [Datum.OSGB36, Datum.NAD27, Datum.ED50, Datum.TOKYO, Datum.IRELAND_1965];
+    for (const datum of datums) {
+      const there = transformDatum(point(45, 10), Datum.WGS84, datum);
+      const back = transformDatum(there, datum, Datum.WGS84);
+      expect(back[0].degrees).toBeCloseTo(45, 6);
+      expect(back[1].degrees).toBeCloseTo(10, 6);
+    }
+  });
+
+  test("transformDatum - shifts are tens to hundreds of metres", () => {
+    const nad27 = point(40, -100);
+    const wgs84 = transformDatum(nad27, Datum.NAD27, Datum.WGS84);
+    const shift = distance(point(40, -100), point(wgs84[0].degrees, wgs84[1].degrees));
+    expect(shift).toBeGreaterThan(20);
+    expect(shift).toBeLessThan(300);
+  });
+
+  test("transformDatum - Molodensky agrees with Helmert for translation-only shifts", () => {
+    const plain = (pair: [DD, DD]) => point(pair[0].degrees, pair[1].degrees);
+    for (const [datum, lat, lon] of [
+      [Datum.NAD27, 40, -100],
+      [Datum.ED50, 48.8566, 2.3522],
+    ] as const) {
+      const helmert = transformDatum(point(lat, lon), datum, Datum.WGS84);
+      const molodensky = transformDatum(point(lat, lon), datum, Datum.WGS84, {
+        method: DatumTransformMethod.MOLODENSKY,
+      });
+      expect(distance(plain(helmert), plain(molodensky))).toBeLessThan(0.1);
+    }
+    const [lat] = transformDatum(point(90, 0), Datum.NAD27, Datum.WGS84, {
+      method: DatumTransformMethod.MOLODENSKY,
+    });
+    expect(lat.degrees).toBeLessThanOrEqual(90);
+  });
+
+  test("transformDatum - between two non-WGS84 datums", () => {
+    const direct = transformDatum(point(52, 5), Datum.ED50, Datum.OSGB36);
+    const viaWGS84 = transformDatum(
+      transformDatum(point(52, 5), Datum.ED50, Datum.WGS84),
+      Datum.WGS84,
+      Datum.OSGB36
+    );
+    expect(direct[0].degrees).toBeCloseTo(viaWGS84[0].degrees, 7);
+    expect(direct[1].degrees).toBeCloseTo(viaWGS84[1].degrees, 7);
+  });
+
+  test("transformDatum - same datum only tags the pair", () => {
+    expect(transformDatum(point(10, 20), Datum.ED50, Datum.ED50)).toEqual(
+      point(10, 20, Datum.ED50)
+    );
+  });
+
+  test("transformDatum - checks the datum the pair carries", () => {
+    const ed50 = point(48, 2, Datum.ED50);
+    expect(() => transformDatum(ed50, Datum.NAD27, Datum.WGS84)).toThrow("on ED50, not NAD27");
+    expect(() => transformDatum(ed50, Datum.NAD27, Datum.WGS84)).toThrow(UnsupportedInputError);
+    expect(transformDatum(ed50, Datum.ED50, Datum.WGS84)[0].datum).toBe(Datum.WGS84);
+    expect(() => transformDatum(point(91, 0), Datum.ED50, Datum.WGS84)).toThrow(OutOfRangeError);
+  });
+});
+
+// ============================================================================
+// DATUM TAGGING TESTS
+// ============================================================================
+
+describe("Datum Tagging", () => {
+  test("parsing - records the datum only when given", () => {
+    expect(parseToDD("51.5", CoordinateType.LAT).datum).toBeUndefined();
+    expect(parseToDD("51° 30' N", CoordinateType.LAT, { datum: Datum.OSGB36 })).toEqual({
+      kind: CoordinateType.LAT,
+      degrees: 51.5,
+      precision: { unit: "minutes", decimals: 0 },
+      datum: Datum.OSGB36,
+    });
+    expect(parsePairString("51.5, -0.1", { datum: Datum.OSGB36 })[1].datum).toBe(Datum.OSGB36);
+    expect(parsePairString("IO91wm", { datum: Datum.OSGB36 })[0].datum).toBe(Datum.OSGB36);
+    const result = safeParsePairToDD("51.5", "-0.1", { datum: Datum.ED50 });
+    expect(result.ok && result.value[1].datum).toBe(Datum.ED50);
+  });
+
+  test("measurements - reject mixed datums", () => {
+    const osgb = point(51.5, -0.1, Datum.OSGB36);
+    const wgs = point(51.4, 0, Datum.WGS84);
+    const message = "Cannot mix coordinates on OSGB36 and WGS84";
+    expect(() => distance(osgb, wgs)).toThrow(message);
+    expect(() => rhumbDistance(osgb, wgs)).toThrow(message);
+    expect(() => crossTrackDistance(osgb, wgs, point(52, 1))).toThrow(message);
+    expect(() => closestPointOnPath(osgb, [wgs, point(52, 1)])).toThrow(message);
+    expect(() => distance([osgb[0], wgs[1]], point(52, 1))).toThrow(message);
+    expect(() => distance(osgb, wgs)).toThrow(UnsupportedInputError);
+  });
+
+  test("measurements - untagged coordinates go with any datum", () => {
+    const osgb = point(51.5, -0.1, Datum.OSGB36);
+    expect(distance(osgb, point(51.4, 0))).toBe(distance(point(51.5, -0.1), point(51.4, 0)));
+  });
+
+  test("results - carry the datum of their inputs", () => {
+    const osgb = point(51.5, -0.1, Datum.OSGB36);
+    expect(destination(osgb, 90, 1000)[1].datum).toBe(Datum.OSGB36);
+    for (const [lat, lon] of densify(osgb, point(52, 1), 3)) {
+      expect(lat.datum).toBe(Datum.OSGB36);
+      expect(lon.datum).toBe(Datum.OSGB36);
+    }
+    expect(closestPointOnPath(point(51.6, 0), [osgb, point(52, 1)]).point[0].datum).toBe(
+      Datum.OSGB36
+    );
+    expect(destination(point(51.5, -0.1), 90, 1000)[0]).not.toHaveProperty("datum");
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  distance,
+  initialBearing,
+  finalBearing,
+  formatBearing,
+  destination,
+  midpoint,
+  interpolate,
+  densify,
+  bearingToDMS,
+  formatDMS,
+  dmsToDD,
+  RoundingMode,
+  InvalidNumberError,
+  OutOfRangeError,
+} from "../src";
+import { CoordinateType, DD, DistanceMethod, DistanceUnit } from "../types";
+
+const point = (lat: number, lon: number): [DD, DD] => [
+  { kind: CoordinateType.LAT, degrees: lat },
+  { kind: CoordinateType.LON, degrees: lon },
+];
+
+const jfk = point(40.6, -73.8);
+const cdg = point(49.01666667, 2.55);
+
+// ============================================================================
+// DISTANCE TESTS
+// ============================================================================
+
+describe("Distance", () => {
+  test("distance - Karney matches GeographicLib", () => {
+    expect(distance(jfk, cdg)).toBeCloseTo(5853226.2556, 3);
+    expect(distance(point(0, 0), point(0.5, 179.5))).toBeCloseTo(19936288.579, 2);
+  });
+
+  test("distance - known WGS84 lengths", () => {
+    // Quarter meridian, quarter equator, pole to pole
+    expect(distance(point(0, 0), point(90, 0))).toBeCloseTo(10001965.7293, 3);
+    expect(distance(point(0, 0), point(0, 90))).toBeCloseTo(10018754.1714, 3);
+    expect(distance(point(-90, 0), point(90, 0))).toBeCloseTo(20003931.4586, 3);
+  });
+
+  test("distance - antipodal points on the equator go over a pole", () => {
+    expect(distance(point(0, 0), point(0, 180))).toBeCloseTo(20003931.4586, 3);
+  });
+
+  test("distance - Vincenty agrees with Karney", () => {
+    const vincenty = distance(jfk, cdg, { method: DistanceMethod.VINCENTY });
+    expect(Math.abs(vincenty - distance(jfk, cdg))).toBeLessThan(0.001);
+  });
+
+  test("distance - Vincenty falls back to Karney near the antipode", () => {
+    const a = point(0, 0);
+    const b = point(0.5, 179.7);
+    expect(distance(a, b, { method: DistanceMethod.VINCENTY })).toBe(distance(a, b));
+  });
+
+  test("distance - haversine uses the mean radius", () => {
+    expect(distance(point(0, 0), point(0, 1), { method: DistanceMethod.HAVERSINE })).toBeCloseTo(
+      (6371008.8 * Math.PI) / 180,
+      6
+    );
+    const haversine = distance(jfk, cdg, { method: DistanceMethod.HAVERSINE });
+    expect(Math.abs(haversine / distance(jfk, cdg) - 1)).toBeLessThan(0.005);
+  });
+
+  test("distance - units", () => {
+    const meters = distance(jfk, cdg);
+    expect(distance(jfk, cdg, { unit: DistanceUnit.KILOMETERS })).toBeCloseTo(meters / 1000, 9);
+    expect(distance(jfk, cdg, { unit: DistanceUnit.NAUTICAL_MILES })).toBeCloseTo(meters / 1852, 9);
+    expect(distance(jfk, cdg, { unit: DistanceUnit.STATUTE_MILES })).toBeCloseTo(
+      meters / 1609.344,
+      9
+    );
+  });
+
+  test("distance - is symmetric and zero for coincident points", () => {
+    expect(distance(cdg, jfk)).toBeCloseTo(distance(jfk, cdg), 6);
+    expect(distance(jfk, jfk)).toBe(0);
+    expect(distance(jfk, jfk, { method: DistanceMethod.VINCENTY })).toBe(0);
+    expect(distance(jfk, jfk, { method: DistanceMethod.HAVERSINE })).toBe(0);
+  });
+
+  test("distance - rejects invalid coordinates", () => {
+    expect(() => distance(point(91, 0), cdg)).toThrow(OutOfRangeError);
+    expect(() => distance(jfk, point(0, 181))).toThrow(OutOfRangeError);
+    expect(() => distance(point(NaN, 0), cdg)).toThrow(InvalidNumberError);
+  });
+});
+
+// ============================================================================
+// BEARING TESTS
+// ============================================================================
+
+describe("Bearings", () => {
+  test("initialBearing and finalBearing - match GeographicLib", () => {
+    expect(initialBearing(jfk, cdg)).toBeCloseTo(53.47022, 5);
+    expect(finalBearing(jfk, cdg)).toBeCloseTo(111.59367, 5);
+    expect(initialBearing(jfk, cdg, { method: DistanceMethod.VINCENTY })).toBeCloseTo(53.47022, 5);
+  });
+
+  test("initialBearing - spherical", () => {
+    expect(initialBearing(point(0, 0), point(1, 1), { method: DistanceMethod.HAVERSINE })).toBeCloseTo(
+      44.9956,
+      4
+    );
+  });
+
+  test("bearings - cardinal directions are in [0, 360)", () => {
+    for (const method of Object.values(DistanceMethod)) {
+      expect(initialBearing(point(0, 0), point(10, 0), { method })).toBeCloseTo(0, 9);
+      expect(initialBearing(point(0, 0), point(0, 10), { method })).toBeCloseTo(90, 9);
+      expect(initialBearing(point(10, 0), point(0, 0), { method })).toBeCloseTo(180, 9);
+      expect(finalBearing(point(0, 10), point(0, 0), { method })).toBeCloseTo(270, 9);
+    }
+  });
+
+  test("finalBearing - reverses the initial bearing back", () => {
+    const back = initialBearing(cdg, jfk);
+    expect(finalBearing(jfk, cdg)).toBeCloseTo((back + 180) % 360, 9);
+  });
+
+  test("bearings - coincident points give 0", () => {
+    expect(initialBearing(cdg, cdg)).toBe(0);
+    expect(finalBearing(cdg, cdg)).toBe(0);
+  });
+
+  test("formatBearing - zero-padded DMS", () => {
+    expect(formatBearing(initialBearing(jfk, cdg))).toBe("053° 28' 12.79\"");
+    expect(formatBearing(-90, 0)).toBe("270° 00' 00\"");
+    expect(formatBearing(5.5, 1, { locale: "fr" })).toBe("005° 30' 00,0\"");
+  });
+
+  test("bearingToDMS - normalises and splits a bearing", () => {
+    expect(bearingToDMS(77.76838)).toEqual({
+      kind: CoordinateType.LON,
+      degrees: 77,
+      minutes: 46,
+      seconds: 6.168,
+    });
+    expect(bearingToDMS(-0.5, { decimals: 0 })).toEqual({
+      kind: CoordinateType.LON,
+      degrees: 359,
+      minutes: 30,
+      seconds: 0,
+    });
+    expect(bearingToDMS(359.9999999999, { decimals: 2 }).degrees).toBe(0);
+    expect(bearingToDMS(10.00625, { decimals: 0, rounding: RoundingMode.TRUNCATE }).seconds).toBe(22);
+    expect(() => bearingToDMS(NaN)).toThrow(InvalidNumberError);
+  });
+
+  test("bearingToDMS - bearings over 180° with formatDMS and dmsToDD", () => {
+    const dms = bearingToDMS(250.5, { decimals: 0 });
+    expect(formatDMS(dms, 0, { hemisphere: false })).toBe("250° 30' 0\"");
+    expect(formatDMS(dms, 2, { hemisphere: false, locale: "fr" })).toBe("250° 30' 0,00\"");
+    expect(formatDMS({ ...dms, degrees: -20 }, 0, { hemisphere: false })).toBe("-20° 30' 0\"");
+    expect(() => dmsToDD(dms)).toThrow(OutOfRangeError);
+    expect(dmsToDD(bearingToDMS(77.5)).degrees).toBe(77.5);
+  });
+
+  test("bearingToDMS - a westerly bearing needs { hemisphere: false } in formatDMS", () => {
+    const west = bearingToDMS(270, { decimals: 0 });
+    expect(formatDMS(west, 0, { hemisphere: false })).toBe("270° 0' 0\"");
+    expect(formatDMS(west, 0)).toBe("270° 0' 0\" E");
+  });
+
+  test("formatBearing - wraps values that round to 360", () => {
+    expect(formatBearing(359.9999999)).toBe("000° 00' 00.00\"");
+    expect(formatBearing(720)).toBe("000° 00' 00.00\"");
+  });
+
+  test("formatBearing - rejects non-finite bearings", () => {
+    expect(() => formatBearing(NaN)).toThrow(InvalidNumberError);
+    expect(() => formatBearing(Infinity)).toThrow("Invalid bearing: Infinity");
+  });
+});
+
+// ============================================================================
+// DESTINATION AND INTERPOLATION TESTS
+// ============================================================================
+
+const degrees = (pair: [DD, DD]) => pair.map((dd) => dd.degrees);
+
+describe("Destination and Interpolation", () => {
+  test("destination - inverts distance and initialBearing", () => {
+    for (const method of Object.values(DistanceMethod)) {
+      const bearing = initialBearing(jfk, cdg, { method });
+      const [lat, lon] = destination(jfk, bearing, distance(jfk, cdg, { method }), { method });
+      expect(lat.degrees).toBeCloseTo(49.01666667, 8);
+      expect(lon.degrees).toBeCloseTo(2.55, 8);
+      expect(lat.kind).toBe(CoordinateType.LAT);
+      expect(lon.kind).toBe(CoordinateType.LON);
+    }
+  });
+
+  test("destination - distance units", () => {
+    const [, lon] = destination(point(0, 0), 90, 60, { unit: DistanceUnit.NAUTICAL_MILES });
+    const [, lonMeters] = destination(point(0, 0), 90, 60 * 1852);
+    expect(lon.degrees).toBeCloseTo(lonMeters.degrees, 12);
+  });
+
+  test("destination - normalises across the antimeridian", () => {
+    const [lat, lon] = destination(point(0, 179), 90, 222639);
+    expect(lat.degrees).toBe(0);
+    expect(lon.degrees).toBeCloseTo(-179, 5);
+    const [, back] = destination(point(0, -179), -90, 222639);
+    expect(back.degrees).toBeCloseTo(179, 5);
+  });
+
+  test("destination - negative distance travels backwards", () => {
+    const [lat] = destination(point(10, 0), 0, -111000);
+    expect(lat.degrees).toBeLessThan(10);
+  });
+
+  test("destination - rejects invalid input", () => {
+    expect(() => destination(point(91, 0), 0, 1000)).toThrow(OutOfRangeError);
+    expect(() => destination(jfk, NaN, 1000)).toThrow(InvalidNumberError);
+    expect(() => destination(jfk, 0, Infinity)).toThrow(InvalidNumberError);
+  });
+
+  test("midpoint - is equidistant from both ends", () => {
+    const mid = midpoint(jfk, cdg);
+    expect(distance(jfk, mid)).toBeCloseTo(distance(jfk, cdg) / 2, 6);
+    expect(distance(mid, cdg)).toBeCloseTo(distance(jfk, cdg) / 2, 6);
+  });
+
+  test("midpoint - spherical matches the great-circle formula", () => {
+    const [lat, lon] = midpoint(point(51.5, 0), point(40.7, -74), {
+      method: DistanceMethod.HAVERSINE,
+    });
+    expect(lat.degrees).toBeCloseTo(52.38047, 5);
+    expect(lon.degrees).toBeCloseTo(-41.23336, 5);
+  });
+
+  test("midpoint - across the antimeridian", () => {
+    const [lat, lon] = midpoint(point(0, 170), point(0, -170));
+    expect(lat.degrees).toBeCloseTo(0, 9);
+    expect(Math.abs(lon.degrees)).toBeCloseTo(180, 9);
+  });
+
+  test("interpolate - spaces points by distance", () => {
+    const [lat, lon] = interpolate(point(0, 0), point(0, 10), 0.25);
+    expect(lat.degrees).toBe(0);
+    expect(lon.degrees).toBeCloseTo(2.5, 12);
+    const quarter = interpolate(jfk, cdg, 0.25);
+    expect(distance(jfk, quarter)).toBeCloseTo(distance(jfk, cdg) / 4, 6);
+    expect(() => interpolate(jfk, cdg, NaN)).toThrow(InvalidNumberError);
+  });
+
+  test("densify - returns evenly spaced points including the ends", () => {
+    const points = densify(point(60, 170), point(60, -170), 5);
+    expect(points).toHaveLength(5);
+    expect(degrees(points[0])).toEqual([60, 170]);
+    expect(degrees(points[4])).toEqual([60, -170]);
+    // The geodesic bulges towards the pole
+    expect(points[2][0].degrees).toBeGreaterThan(60.3);
+    for (const [, lon] of points) {
+      expect(lon.degrees).toBeGreaterThanOrEqual(-180);
+      expect(lon.degrees).toBeLessThan(180);
+    }
+    const step = distance(points[0], points[1]);
+    for (let i = 1; i < 4; i++) expect(distance(points[i], points[i + 1])).toBeCloseTo(step, 6);
+  });
+
+  test("densify - validates the count", () => {
+    expect(degrees(densify(jfk, cdg, 2)[1])).toEqual([49.01666667, 2.55]);
+    expect(() => densify(jfk, cdg, 1)).toThrow("at least 2");
+    expect(() => densify(jfk, cdg, 2.5)).toThrow("at least 2");
+    expect(() => densify(jfk, cdg, 1)).toThrow(OutOfRangeError);
+    expect(() => densify(jfk, cdg, 2.5)).toThrow(InvalidNumberError);
+    expect(() => densify(jfk, cdg, NaN)).toThrow(InvalidNumberError);
+    expect(() => densify(jfk, cdg, 1e9)).toThrow(OutOfRangeError);
+    expect(densify(jfk, cdg, 10000)).toHaveLength(10000);
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  ddToECEF,
+  ecefToDD,
+  ddToENU,
+  enuToDD,
+  ddToNED,
+  nedToDD,
+  parsePairToDD,
+  transformDatum,
+  InvalidNumberError,
+  OutOfRangeError,
+} from "../src";
+import { CoordinateType, DD, Datum } from "../types";
+
+const point = (lat: number, lon: number, datum?: Datum): [DD, DD] =>
+  parsePairToDD(lat, lon, { datum });
+
+const home = point(47.3977, 8.5456);
+
+// ============================================================================
+// ECEF TESTS
+// ============================================================================
+
+describe("ECEF", () => {
+  test("ddToECEF - axes and poles", () => {
+    expect(ddToECEF(point(0, 0))).toEqual({ x: 6378137, y: 0, z: 0 });
+    const east = ddToECEF(point(0, 90), 100);
+    expect(east.x).toBeCloseTo(0, 6);
+    expect(east.y).toBeCloseTo(6378237, 6);
+    const north = ddToECEF(point(90, 0));
+    expect(north.x).toBeCloseTo(0, 6);
+    expect(north.z).toBeCloseTo(6356752.314245, 6);
+  });
+
+  test("ddToECEF - known point", () => {
+    const { x, y, z } = ddToECEF(point(48.8584, 2.2945), 330);
+    expect(x).toBeCloseTo(4201152.7587, 4);
+    expect(y).toBeCloseTo(168331.7945, 4);
+    expect(z).toBeCloseTo(4780461.5607, 4);
+  });
+
+  test("ecefToDD - inverts ddToECEF to well under a millimetre", () => {
+    const cases: [number, number, number][] = [
+      [0, 0, 0],
+      [51.4778, -0.0015, 45.3],
+      [-33.8568, 151.2153, -20],
+      [89.9999, 10, 100],
+      [-90, 45, 10000],
+      [10, 179.9, 400000],
+      [30, 60, 20200000],
+    ];
+    for (const [lat, lon, height] of cases) {
+      const result = ecefToDD(ddToECEF(point(lat, lon), height));
+      expect(result.height).toBeCloseTo(height, 6);
+      const back = ddToECEF(result.point, result.height);
+      const there = ddToECEF(point(lat, lon), height);
+      expect(Math.hypot(back.x - there.x, back.y - there.y, back.z - there.z)).toBeLessThan(1e-6);
+      expect(result.point[0].kind).toBe(CoordinateType.LAT);
+    }
+  });
+
+  test("ecefToDD - points near the centre stay in range", () => {
+    expect(ecefToDD({ x: 1000, y: 0, z: 0 }).point[0].degrees).toBe(0);
+    const { point: pole, height } = ecefToDD({ x: 0, y: 0, z: 1000 });
+    expect(pole[0].degrees).toBe(90);
+    expect(height).toBeCloseTo(1000 - 6356752.314245, 6);
+  });
+
+  test("datums - use the datum's ellipsoid", () => {
+    const airy = ddToECEF(point(90, 0, Datum.OSGB36));
+    expect(airy.z).toBeCloseTo(6377563.396 * (1 - 1 / 299.3249646), 6);
+    const result = ecefToDD(airy, { datum: Datum.OSGB36 });
+    expect(result.point[0].degrees).toBe(90);
+    expect(result.point[1].datum).toBe(Datum.OSGB36);
+    expect(result.height).toBeCloseTo(0, 6);
+    expect(ecefToDD(airy).point[0]).not.toHaveProperty("datum");
+  });
+
+  test("ECEF - rejects invalid input", () => {
+    expect(() => ddToECEF(point(0, 0), NaN)).toThrow(InvalidNumberError);
+    expect(() => ecefToDD({ x: Infinity, y: 0, z: 0 })).toThrow(InvalidNumberError);
+    expect(() => ddToECEF([{ kind: CoordinateType.LAT, degrees: 91 }, point(0, 0)[1]])).toThrow(
+      OutOfRangeError
+    );
+  });
+});
+
+// ============================================================================
+// LOCAL FRAME TESTS
+// ============================================================================
+
+describe("Local ENU and NED Frames", () => {
+  test("ddToENU - offsets from a home point", () => {
+    const enu = ddToENU(point(47.3986, 8.5469), home, { height: 520, originHeight: 488 });
+    expect(enu.east).toBeCloseTo(98.143, 3);
+    expect(enu.north).toBeCloseTo(100.07, 2);
+    expect(enu.up).toBeCloseTo(31.998, 3);
+    expect(ddToENU(home, home)).toEqual({ east: 0, north: 0, up: 0 });
+  });
+
+  test("ddToENU - the up axis leaves the surface with distance", () => {
+    const enu = ddToENU(point(47.3977 + 0.0898, 8.5456), home);
+    expect(enu.east).toBeCloseTo(0, 6);
+    expect(enu.north).toBeCloseTo(9983.91, 2);
+    expect(enu.up).toBeCloseTo(-7.82, 2);
+  });
+
+  test("enuToDD - round trip to the millimetre", () => {
+    for (const enu of [
+      { east: 98.14, north: 100.07, up: 32 },
+      { east: -25000, north: 12000, up: 3000 },
+      { east: 0, north: 0, up: -488 },
+    ]) {
+      const { point: pair, height } = enuToDD(enu, home, { originHeight: 488 });
+      const back = ddToENU(pair, home, { height, originHeight: 488 });
+      expect(Math.abs(back.east - enu.east)).toBeLessThan(1e-6);
+      expect(Math.abs(back.north - enu.north)).toBeLessThan(1e-6);
+      expect(Math.abs(back.up - enu.up)).toBeLessThan(1e-6);
+    }
+  });
+
+  test("NED - reorders and flips ENU", () => {
+    const opts = { height: 520, originHeight: 488 };
+    const enu = ddToENU(point(47.3986, 8.5469), home, opts);
+    const ned = ddToNED(point(47.3986, 8.5469), home, opts);
+    expect(ned).toEqual({ north: enu.north, east: enu.east, down: -enu.up });
+    const { point: pair, height } = nedToDD(ned, home, { originHeight: 488 });
+    expect(pair[0].degrees).toBeCloseTo(47.3986, 10);
+    expect(pair[1].degrees).toBeCloseTo(8.5469, 10);
+    expect(height).toBeCloseTo(520, 6);
+    expect(ddToNED(home, home).down).toBe(0);
+  });
+
+  test("local frames - datums", () => {
+    const osgbHome = transformDatum(home, Datum.WGS84, Datum.OSGB36);
+    const { point: pair } = enuToDD({ east: 10, north: 10, up: 0 }, osgbHome);
+    expect(pair[0].datum).toBe(Datum.OSGB36);
+    expect(() => ddToENU(point(47.4, 8.5, Datum.WGS84), osgbHome)).toThrow("Cannot mix");
+    expect(() => enuToDD({ east: NaN, north: 0, up: 0 }, home)).toThrow(InvalidNumberError);
+  });
+});
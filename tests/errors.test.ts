@@ -0,0 +1,170 @@
+import {
+  parseToDD,
+  dmToDD,
+  dmsToDD,
+  parsePairString,
+  ddPairToUTM,
+  parsePairToDD,
+  CoordinateError,
+  OutOfRangeError,
+  MinutesOverflowError,
+  SecondsOverflowError,
+  UnrecognizedFormatError,
+  InvalidNumberError,
+  UnsupportedInputError,
+  InvalidProjectionError,
+} from "../src";
+import { ensureFinite, validateRange } from "../src/helpers";
+import { CoordinateErrorCode, CoordinateType, Hemisphere } from "../types";
+
+// Runs fn and returns what it threw, failing the test if nothing was thrown
+function caught(fn: () => unknown): CoordinateError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(CoordinateError);
+    return err as CoordinateError;
+  }
+  throw new Error("Expected function to throw");
+}
+
+// ============================================================================
+// ERROR CLASS TESTS
+// ============================================================================
+
+describe("Error Classes", () => {
+  test("subclasses carry their code and name", () => {
+    const cases: [CoordinateError, CoordinateErrorCode, string][] = [
+      [new OutOfRangeError("x"), CoordinateErrorCode.OUT_OF_RANGE, "OutOfRangeError"],
+      [new MinutesOverflowError("x"), CoordinateErrorCode.MINUTES_OVERFLOW, "MinutesOverflowError"],
+      [new SecondsOverflowError("x"), CoordinateErrorCode.SECONDS_OVERFLOW, "SecondsOverflowError"],
+      [new UnrecognizedFormatError("x"), CoordinateErrorCode.UNRECOGNIZED_FORMAT, "UnrecognizedFormatError"],
+      [new InvalidNumberError("x"), CoordinateErrorCode.INVALID_NUMBER, "InvalidNumberError"],
+      [new UnsupportedInputError("x"), CoordinateErrorCode.UNSUPPORTED_INPUT, "UnsupportedInputError"],
+      [new InvalidProjectionError("x"), CoordinateErrorCode.INVALID_PROJECTION, "InvalidProjectionError"],
+    ];
+    for (const [err, code, name] of cases) {
+      expect(err).toBeInstanceOf(Error);
+      expect(err).toBeInstanceOf(CoordinateError);
+      expect(err.code).toBe(code);
+      expect(err.name).toBe(name);
+      expect(err.value).toBeUndefined();
+      expect(err.span).toBeUndefined();
+    }
+  });
+});
+
+// ============================================================================
+// PARSER ERROR TESTS
+// ============================================================================
+
+describe("Parser Errors", () => {
+  test("parseToDD - out of range carries value, kind and span", () => {
+    const err = caught(() => parseToDD("  91 N", CoordinateType.LAT));
+    expect(err).toBeInstanceOf(OutOfRangeError);
+    expect(err.code).toBe(CoordinateErrorCode.OUT_OF_RANGE);
+    expect(err.value).toBe(91);
+    expect(err.kind).toBe(CoordinateType.LAT);
+    expect(err.span).toEqual({ start: 2, end: 4 });
+  });
+
+  test("parseToDD - out of range DMS spans all components", () => {
+    const input = "181° 30' 15\" E";
+    const err = caught(() => parseToDD(input, CoordinateType.LON));
+    expect(err.code).toBe(CoordinateErrorCode.OUT_OF_RANGE);
+    expect(err.kind).toBe(CoordinateType.LON);
+    expect(input.slice(err.span!.start, err.span!.end)).toBe("181° 30' 15");
+  });
+
+  test("parseToDD - minutes and seconds overflow point at the component", () => {
+    const minutes = caught(() => parseToDD("45° 75' N", CoordinateType.LAT));
+    expect(minutes).toBeInstanceOf(MinutesOverflowError);
+    expect(minutes.value).toBe(75);
+    expect(minutes.span).toEqual({ start: 4, end: 6 });
+
+    const input = "45° 7' 88.5\" N";
+    const seconds = caught(() => parseToDD(input, CoordinateType.LAT));
+    expect(seconds).toBeInstanceOf(SecondsOverflowError);
+    expect(seconds.value).toBe(88.5);
+    expect(input.slice(seconds.span!.start, seconds.span!.end)).toBe("88.5");
+  });
+
+  test("parseToDD - unrecognized format spans the whole input", () => {
+    const err = caught(() => parseToDD("nonsense", CoordinateType.LAT));
+    expect(err).toBeInstanceOf(UnrecognizedFormatError);
+    expect(err.value).toBe("nonsense");
+    expect(err.span).toEqual({ start: 0, end: 8 });
+
+    const typeErr = caught(() =>
+      parseToDD(null as unknown as string, CoordinateType.LON)
+    );
+    expect(typeErr.code).toBe(CoordinateErrorCode.UNRECOGNIZED_FORMAT);
+    expect(typeErr.kind).toBe(CoordinateType.LON);
+  });
+
+  test("parseToDD - overflowing number is an invalid number", () => {
+    const err = caught(() => parseToDD(NaN, CoordinateType.LAT));
+    expect(err).toBeInstanceOf(InvalidNumberError);
+
+    const digits = "9".repeat(400);
+    const long = caught(() => parseToDD(digits, CoordinateType.LAT));
+    expect(long.code).toBe(CoordinateErrorCode.INVALID_NUMBER);
+    expect(long.span).toEqual({ start: 0, end: 400 });
+  });
+
+  test("parsePairString - split failures are unrecognized formats", () => {
+    expect(caught(() => parsePairString("1 2 3")).code).toBe(
+      CoordinateErrorCode.UNRECOGNIZED_FORMAT
+    );
+    expect(caught(() => parsePairString("48 N 49 S")).kind).toBe(
+      CoordinateType.LAT
+    );
+  });
+});
+
+// ============================================================================
+// CONVERSION AND HELPER ERROR TESTS
+// ============================================================================
+
+describe("Conversion and Helper Errors", () => {
+  test("dmToDD / dmsToDD - overflow carries value and kind", () => {
+    const dm = caught(() =>
+      dmToDD({ kind: CoordinateType.LON, degrees: 10, minutes: 60, hemi: Hemisphere.E })
+    );
+    expect(dm).toBeInstanceOf(MinutesOverflowError);
+    expect(dm.value).toBe(60);
+    expect(dm.kind).toBe(CoordinateType.LON);
+    expect(dm.span).toBeUndefined();
+
+    const dms = caught(() =>
+      dmsToDD({ kind: CoordinateType.LAT, degrees: 10, minutes: 0, seconds: -1 })
+    );
+    expect(dms).toBeInstanceOf(SecondsOverflowError);
+    expect(dms.value).toBe(-1);
+  });
+
+  test("dmsToDD - out of range after composition", () => {
+    const err = caught(() =>
+      dmsToDD({ kind: CoordinateType.LAT, degrees: 90, minutes: 0, seconds: 1 })
+    );
+    expect(err.code).toBe(CoordinateErrorCode.OUT_OF_RANGE);
+    expect(err.value).toBeCloseTo(90.000278, 6);
+  });
+
+  test("validateRange / ensureFinite", () => {
+    const range = caught(() => validateRange(CoordinateType.LON, -200));
+    expect(range).toBeInstanceOf(OutOfRangeError);
+    expect(range.message).toBe("lon degrees out of range: -200 (must be in [-180, 180])");
+
+    const finite = caught(() => ensureFinite("abc", "easting"));
+    expect(finite).toBeInstanceOf(InvalidNumberError);
+    expect(finite.message).toBe('Invalid easting: "abc"');
+    expect(finite.value).toBe("abc");
+  });
+
+  test("grid conversions surface the same typed errors", () => {
+    const [lat, lon] = parsePairToDD(45, 10);
+    const err = caught(() => ddPairToUTM({ ...lat, degrees: 95 }, lon));
+    expect(err.code).toBe(CoordinateErrorCode.OUT_OF_RANGE);
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  ddPairToGeohash,
+  geohashToDDPair,
+  geohashBounds,
+  geohashNeighbors,
+  geohashesInBounds,
+  parsePairToDD,
+  InvalidNumberError,
+  OutOfRangeError,
+  UnrecognizedFormatError,
+} from "../src";
+import { CoordinateType } from "../types";
+
+// ============================================================================
+// GEOHASH ENCODING AND DECODING TESTS
+// ============================================================================
+
+describe("Geohash Encoding and Decoding", () => {
+  test("ddPairToGeohash - known value", () => {
+    expect(ddPairToGeohash(...parsePairToDD(57.64911, 10.40744), 11)).toBe(
+      "u4pruydqqvj"
+    );
+  });
+
+  test("ddPairToGeohash - default precision", () => {
+    expect(ddPairToGeohash(...parsePairToDD(57.64911, 10.40744))).toBe(
+      "u4pruydqq"
+    );
+  });
+
+  test("ddPairToGeohash - invalid precision", () => {
+    expect(() => ddPairToGeohash(...parsePairToDD(0, 0), 13)).toThrow(
+      "Geohash precision must be an integer in [1, 12] (got 13)"
+    );
+    expect(() => ddPairToGeohash(...parsePairToDD(0, 0), 13)).toThrow(OutOfRangeError);
+  });
+
+  test("ddPairToGeohash - rejects non-finite degrees", () => {
+    const lat = (degrees: number) => ({ kind: CoordinateType.LAT, degrees });
+    const lon = (degrees: number) => ({ kind: CoordinateType.LON, degrees });
+    expect(() => ddPairToGeohash(lat(NaN), lon(2))).toThrow(InvalidNumberError);
+    expect(() => ddPairToGeohash(lat(57), lon(-Infinity))).toThrow(InvalidNumberError);
+    expect(() =>
+      geohashesInBounds({ sw: [lat(NaN), lon(0)], ne: parsePairToDD(1, 1) }, 3)
+    ).toThrow(InvalidNumberError);
+  });
+
+  test("geohashToDDPair - centre and error", () => {
+    const { center, error } = geohashToDDPair("u4pruydqqvj");
+    expect(center[0].kind).toBe(CoordinateType.LAT);
+    expect(center[1].kind).toBe(CoordinateType.LON);
+    expect(Math.abs(center[0].degrees - 57.64911)).toBeLessThanOrEqual(error[0].degrees);
+    expect(Math.abs(center[1].degrees - 10.40744)).toBeLessThanOrEqual(error[1].degrees);
+    expect(error[0].degrees).toBeCloseTo(6.7055e-7, 10);
+  });
+
+  test("geohashToDDPair - case-insensitive", () => {
+    expect(geohashToDDPair("U4PRU")).toEqual(geohashToDDPair("u4pru"));
+  });
+
+  test("geohashToDDPair - invalid characters", () => {
+    expect(() => geohashToDDPair("u4pa")).toThrow(
+      'Invalid geohash character "a" in "u4pa"'
+    );
+    expect(() => geohashToDDPair("")).toThrow('Invalid geohash: ""');
+    expect(() => geohashToDDPair("u4pa")).toThrow(UnrecognizedFormatError);
+    expect(() => geohashNeighbors("")).toThrow(UnrecognizedFormatError);
+  });
+});
+
+// ============================================================================
+// GEOHASH NEIGHBOUR AND BOUNDING-BOX TESTS
+// ============================================================================
+
+describe("Geohash Neighbors and Bounds", () => {
+  test("geohashBounds", () => {
+    const { sw, ne } = geohashBounds("u4");
+    expect(sw[0].degrees).toBe(56.25);
+    expect(sw[1].degrees).toBe(0);
+    expect(ne[0].degrees).toBe(61.875);
+    expect(ne[1].degrees).toBe(11.25);
+  });
+
+  test("geohashNeighbors", () => {
+    expect(geohashNeighbors("dqcjq")).toEqual({
+      n: "dqcjw",
+      ne: "dqcjx",
+      e: "dqcjr",
+      se: "dqcjp",
+      s: "dqcjn",
+      sw: "dqcjj",
+      w: "dqcjm",
+      nw: "dqcjt",
+    });
+  });
+
+  test("geohashNeighbors - wraps east/west, stops at the poles", () => {
+    const neighbors = geohashNeighbors("zzz");
+    expect(neighbors.e).toBe("bpb");
+    expect(neighbors.n).toBeNull();
+    expect(neighbors.ne).toBeNull();
+    expect(neighbors.s).toBe("zzx");
+  });
+
+  test("geohashesInBounds - exact cell and its children", () => {
+    const bounds = geohashBounds("u4pr");
+    expect(geohashesInBounds(bounds, 4)).toEqual(["u4pr"]);
+    const children = geohashesInBounds(bounds, 5);
+    expect(children).toHaveLength(32);
+    expect(children.every((hash) => hash.startsWith("u4pr"))).toBe(true);
+  });
+
+  test("geohashesInBounds - crosses the antimeridian", () => {
+    const bounds = {
+      sw: parsePairToDD(10, 179.9),
+      ne: parsePairToDD(10.1, -179.9),
+    };
+    expect(geohashesInBounds(bounds, 3)).toEqual(["xcz", "81b"]);
+  });
+
+  test("geohashesInBounds - rejects oversized covers", () => {
+    const world = { sw: parsePairToDD(-90, -180), ne: parsePairToDD(90, 180) };
+    expect(geohashesInBounds(world, 1)).toHaveLength(32);
+    expect(() => geohashesInBounds(world, 4)).toThrow(
+      /Bounding box needs 1048576 geohashes at precision 4 \(limit 10000\)/
+    );
+    expect(() => geohashesInBounds(world, 4)).toThrow(OutOfRangeError);
+  });
+});
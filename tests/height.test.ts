@@ -0,0 +1,195 @@
+import {
+  parseHeight,
+  convertHeight,
+  formatHeight,
+  parsePairToDD,
+  parsePairString,
+  safeParsePairToDD,
+  ddPairToDM,
+  ddPairToDMS,
+  dmPairToDD,
+  dmsPairToDD,
+  dmPairToDMS,
+  dmsPairToDM,
+  formatDDPair,
+  formatDMPair,
+  formatDMSPair,
+  ddToECEF,
+  ddToENU,
+  enuToDD,
+  distance,
+  InvalidNumberError,
+  UnrecognizedFormatError,
+  UnsupportedInputError,
+} from "../src";
+import { CoordinateType, DD, Height, HeightReference, HeightUnit } from "../types";
+
+const msl: Height = { value: 120, unit: HeightUnit.METERS, reference: HeightReference.MSL };
+
+// ============================================================================
+// HEIGHT TESTS
+// ============================================================================
+
+describe("Heights", () => {
+  test("parseHeight - units and references", () => {
+    expect(parseHeight("120m")).toEqual({ value: 120, unit: HeightUnit.METERS });
+    expect(parseHeight("120")).toEqual({ value: 120, unit: HeightUnit.METERS });
+    expect(parseHeight(" 394 ft MSL ")).toEqual({
+      value: 394,
+      unit: HeightUnit.FEET,
+      reference: HeightReference.MSL,
+    });
+    expect(parseHeight("-12.5 metres hae")).toEqual({
+      value: -12.5,
+      unit: HeightUnit.METERS,
+      reference: HeightReference.ELLIPSOIDAL,
+    });
+    expect(parseHeight("35 AGL").reference).toBe(HeightReference.AGL);
+    expect(parseHeight("35 feet amsl").reference).toBe(HeightReference.MSL);
+    expect(parseHeight("12,5 m", { locale: "fr" }).value).toBe(12.5);
+  });
+
+  test("parseHeight - defaults apply only to what the input leaves out", () => {
+    const opts = { unit: HeightUnit.FEET, reference: HeightReference.AGL };
+    expect(parseHeight(35, opts)).toEqual({ value: 35, ...opts });
+    expect(parseHeight("35 m", opts)).toEqual({ ...opts, value: 35, unit: HeightUnit.METERS });
+    const sea = parseHeight("35 MSL", opts);
+    expect(sea).toEqual({ ...opts, value: 35, reference: HeightReference.MSL });
+  });
+
+  test("parseHeight - rejects invalid input", () => {
+    expect(() => parseHeight("high")).toThrow(UnrecognizedFormatError);
+    expect(() => parseHeight("120 parsecs")).toThrow(/"parsecs"/);
+    expect(() => parseHeight("120 MSL m")).toThrow(UnrecognizedFormatError);
+    expect(() => parseHeight("1.2.3 m")).toThrow(InvalidNumberError);
+    expect(() => parseHeight(NaN)).toThrow(InvalidNumberError);
+  });
+
+  test("convertHeight - keeps the reference", () => {
+    const feet = { ...msl, value: 1000, unit: HeightUnit.FEET };
+    expect(convertHeight(feet, HeightUnit.METERS)).toEqual({ ...msl, value: 304.8 });
+    expect(convertHeight(msl, HeightUnit.FEET).value).toBeCloseTo(393.7008, 4);
+    expect(convertHeight(msl, HeightUnit.METERS)).toEqual(msl);
+  });
+
+  test("formatHeight - unit, reference and locale", () => {
+    expect(formatHeight(msl)).toBe("120 m MSL");
+    expect(formatHeight({ value: 393.7, unit: HeightUnit.FEET }, 1)).toBe("393.7 ft");
+    expect(formatHeight({ ...msl, reference: HeightReference.ELLIPSOIDAL })).toBe("120 m HAE");
+    expect(formatHeight({ value: -12.5, unit: HeightUnit.METERS }, 1, { locale: "fr" })).toBe(
+      "-12,5 m"
+    );
+    const hae = { ...msl, reference: HeightReference.ELLIPSOIDAL };
+    expect(parseHeight(formatHeight(hae))).toEqual(hae);
+  });
+});
+
+// ============================================================================
+// PAIR TESTS
+// ============================================================================
+
+describe("Pairs with Heights", () => {
+  test("parsePairString - a third part is the height", () => {
+    const [lat, lon, height] = parsePairString("48.85, -123.50, 120m");
+    expect(lat.degrees).toBe(48.85);
+    expect(lon.degrees).toBe(-123.5);
+    expect(height).toEqual({ value: 120, unit: HeightUnit.METERS });
+    expect(parsePairString("48.85; -123.50; 120 m MSL")[2]).toEqual(msl);
+    expect(parsePairString("48,85; -123,5; 12,5 m", { locale: "fr" })[2]?.value).toBe(12.5);
+  });
+
+  test("parsePairString - pairs without a height are unchanged", () => {
+    expect(parsePairString("48.85, -123.50")).toHaveLength(2);
+    expect(() => parsePairString("48.85, -123.50, 120")).toThrow("Expected one separator");
+    // Minutes marked "m" are not a height
+    const [lat, lon, height] = parsePairString("45d 7m, 122d 30m");
+    expect(lat.degrees).toBeCloseTo(45.116667, 6);
+    expect(lon.degrees).toBe(122.5);
+    expect(height).toBeUndefined();
+    expect(() => parsePairString("48.85, -123.50, 120 parsecs")).toThrow(UnrecognizedFormatError);
+  });
+
+  test("parsePairToDD - opts.height", () => {
+    expect(parsePairToDD("48.85", "-123.50", { height: "120 m MSL" })[2]).toEqual(msl);
+    expect(parsePairToDD(48.85, -123.5, { height: 35 })[2]).toEqual({
+      value: 35,
+      unit: HeightUnit.METERS,
+    });
+    expect(parsePairToDD(48.85, -123.5)).toHaveLength(2);
+
+    const result = safeParsePairToDD("48.85", "-123.50", { height: "120 m MSL" });
+    expect(result.ok && result.value[2]).toEqual(msl);
+    const failed = safeParsePairToDD("48.85", "-123.50", { height: "high" });
+    expect(!failed.ok && failed.error).toBeInstanceOf(UnrecognizedFormatError);
+  });
+
+  test("pair conversions - carry the height through", () => {
+    const [lat, lon] = parsePairToDD(48.8544, -123.5005);
+    const [latDM, lonDM, height] = ddPairToDM(lat, lon, { height: msl });
+    expect(height).toBe(msl);
+    expect(ddPairToDMS(lat, lon, { height: msl })[2]).toBe(msl);
+    expect(dmPairToDD(latDM, lonDM, { height: msl })[2]).toBe(msl);
+    const [latDMS, lonDMS] = dmPairToDMS(latDM, lonDM, { height: msl });
+    expect(dmsPairToDD(latDMS, lonDMS, { height: msl })[2]).toBe(msl);
+    expect(dmsPairToDM(latDMS, lonDMS, { height: msl })[2]).toBe(msl);
+    expect(ddPairToDM(lat, lon)).toHaveLength(2);
+    expect(dmPairToDD(latDM, lonDM)).toHaveLength(2);
+  });
+
+  test("pair formatters - print the height", () => {
+    const [lat, lon, height] = parsePairString("48.8544, -123.5005, 120 m MSL");
+    expect(formatDDPair(lat, lon, 4, { height })).toEqual([
+      "48.8544° N",
+      "123.5005° W",
+      "120 m MSL",
+    ]);
+    const opts = { height, heightDecimals: 1, locale: "fr" };
+    expect(formatDMPair(...ddPairToDM(lat, lon), 2, opts)).toEqual([
+      "48° 51,26' N",
+      "123° 30,03' O",
+      "120,0 m MSL",
+    ]);
+    expect(formatDMSPair(...ddPairToDMS(lat, lon), 1, { height })[2]).toBe("120 m MSL");
+    expect(formatDDPair(lat, lon)).toHaveLength(2);
+  });
+});
+
+// ============================================================================
+// MEASUREMENT TESTS
+// ============================================================================
+
+describe("Heights in Measurements", () => {
+  const home = parsePairString("47.3977, 8.5456, 488 m HAE");
+
+  test("measurements - accept pairs with heights", () => {
+    const plain: [DD, DD] = [
+      { kind: CoordinateType.LAT, degrees: 47.3977 },
+      { kind: CoordinateType.LON, degrees: 8.5456 },
+    ];
+    expect(distance(home, parsePairString("47.3986, 8.5469, 520 m"))).toBe(
+      distance(plain, parsePairToDD(47.3986, 8.5469))
+    );
+  });
+
+  test("ECEF and ENU - use the pair's own height", () => {
+    expect(ddToECEF(home)).toEqual(ddToECEF(home, 488));
+    expect(ddToECEF(parsePairString("47.3977, 8.5456, 1601 ft")).z).toBeCloseTo(
+      ddToECEF(home, 1601 * 0.3048).z,
+      6
+    );
+    const enu = ddToENU(parsePairString("47.3986, 8.5469, 520 m"), home);
+    expect(enu).toEqual(
+      ddToENU(parsePairToDD(47.3986, 8.5469), home, { height: 520, originHeight: 488 })
+    );
+    expect(enu.up).toBeCloseTo(31.998, 3);
+    expect(enuToDD(enu, home).height).toBeCloseTo(520, 6);
+  });
+
+  test("ECEF - explicit heights win, and only ellipsoidal heights are used", () => {
+    const sea = parsePairString("47.3977, 8.5456, 400 m MSL");
+    expect(() => ddToECEF(sea)).toThrow("not MSL");
+    expect(() => ddToECEF(sea)).toThrow(UnsupportedInputError);
+    expect(() => ddToENU(home, parsePairString("47.4, 8.5, 10 m AGL"))).toThrow("not AGL");
+    expect(ddToECEF(sea, 488)).toEqual(ddToECEF(home));
+  });
+});
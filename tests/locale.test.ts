@@ -0,0 +1,143 @@
+import {
+  parseToDD,
+  parsePairString,
+  safeParseToDD,
+  formatDD,
+  formatDM,
+  formatDMS,
+  formatDDPair,
+  resolveLocale,
+  UnrecognizedFormatError,
+} from "../src";
+import { CoordinateLocale, CoordinateType, Hemisphere } from "../types";
+
+// ============================================================================
+// LOCALE RESOLUTION TESTS
+// ============================================================================
+
+describe("Locale Resolution", () => {
+  test("resolveLocale - decimal separator comes from Intl", () => {
+    expect(resolveLocale("fr").decimalSeparator).toBe(",");
+    expect(resolveLocale("de-DE").decimalSeparator).toBe(",");
+    expect(resolveLocale("en-US").decimalSeparator).toBe(".");
+    expect(resolveLocale().decimalSeparator).toBe(".");
+  });
+
+  test("resolveLocale - hemisphere letters follow the language", () => {
+    expect(resolveLocale("fr-CA").hemispheres[Hemisphere.W]).toBe("O");
+    expect(resolveLocale("de").hemispheres[Hemisphere.E]).toBe("O");
+    expect(resolveLocale("pt-BR").hemispheres[Hemisphere.E]).toBe("L");
+    expect(resolveLocale("ja").hemispheres).toEqual({ N: "N", S: "S", E: "E", W: "W" });
+  });
+
+  test("resolveLocale - caches tags and passes objects through", () => {
+    expect(resolveLocale("es")).toBe(resolveLocale("es"));
+    expect(Object.isFrozen(resolveLocale("es"))).toBe(true);
+    const custom = { ...resolveLocale("fr"), spaceBeforeHemisphere: false };
+    expect(resolveLocale(custom)).toBe(custom);
+    expect(() => resolveLocale("not a locale")).toThrow("Invalid locale");
+    expect(() => resolveLocale("not a locale")).toThrow(UnrecognizedFormatError);
+  });
+});
+
+// ============================================================================
+// LOCALE PARSING TESTS
+// ============================================================================
+
+describe("Locale Parsing", () => {
+  test("parseToDD - decimal comma", () => {
+    expect(parseToDD("45,123", CoordinateType.LAT, { locale: "fr" }).degrees).toBeCloseTo(45.123, 6);
+    expect(parseToDD("45° 7,38' N", CoordinateType.LAT, { locale: "de" }).degrees).toBeCloseTo(45.123, 6);
+    expect(parseToDD("-45,5", CoordinateType.LAT, { locale: "es" }).degrees).toBe(-45.5);
+  });
+
+  test("parseToDD - decimal comma is two numbers without a locale", () => {
+    expect(() => parseToDD("45,123", CoordinateType.LAT)).toThrow(/Minutes/);
+  });
+
+  test("parseToDD - localized hemisphere letters and words", () => {
+    expect(parseToDD("122,5 O", CoordinateType.LON, { locale: "fr" }).degrees).toBe(-122.5);
+    expect(parseToDD("122,5 Oeste", CoordinateType.LON, { locale: "es" }).degrees).toBe(-122.5);
+    expect(parseToDD("13,4 O", CoordinateType.LON, { locale: "de" }).degrees).toBe(13.4);
+    expect(parseToDD("33° 52' Süd", CoordinateType.LAT, { locale: "de" }).degrees).toBeCloseTo(-33.866667, 6);
+    expect(parseToDD("Ouest 2,35", CoordinateType.LON, { locale: "fr" }).degrees).toBe(-2.35);
+  });
+
+  test("parseToDD - English hemisphere words still work under a locale", () => {
+    expect(parseToDD("45,5 S", CoordinateType.LAT, { locale: "fr" }).degrees).toBe(-45.5);
+    expect(parseToDD("2,5 W", CoordinateType.LON, { locale: "es" }).degrees).toBe(-2.5);
+  });
+
+  test("parseToDD - custom locale object", () => {
+    const locale: CoordinateLocale = {
+      decimalSeparator: ",",
+      hemispheres: { N: "P", S: "D", E: "I", W: "Z" },
+      spaceBeforeHemisphere: false,
+    };
+    expect(parseToDD("45,5D", CoordinateType.LAT, { locale }).degrees).toBe(-45.5);
+  });
+
+  test("parsePairString - semicolon separates a decimal-comma pair", () => {
+    const [lat, lon] = parsePairString("48,8566; 2,3522", { locale: "fr" });
+    expect(lat.degrees).toBeCloseTo(48.8566, 6);
+    expect(lon.degrees).toBeCloseTo(2.3522, 6);
+
+    const [lat2, lon2] = parsePairString("48,85 N 2,35 O", { locale: "fr" });
+    expect(lat2.degrees).toBeCloseTo(48.85, 6);
+    expect(lon2.degrees).toBeCloseTo(-2.35, 6);
+  });
+
+  test("safeParseToDD - accepts the locale option", () => {
+    const result = safeParseToDD("45,25 Sud", CoordinateType.LAT, { locale: "it" });
+    expect(result.ok && result.value.degrees).toBe(-45.25);
+  });
+
+  test("safeParseToDD - reports an invalid locale instead of throwing", () => {
+    const result = safeParseToDD("45.1", CoordinateType.LAT, { locale: "!!" });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toBeInstanceOf(UnrecognizedFormatError);
+    expect(!result.ok && result.error.value).toBe("!!");
+  });
+});
+
+// ============================================================================
+// LOCALE FORMATTING TESTS
+// ============================================================================
+
+describe("Locale Formatting", () => {
+  test("formatDD / formatDM / formatDMS - decimal comma and letters", () => {
+    const lon = { kind: CoordinateType.LON, degrees: -45.123 };
+    expect(formatDD(lon, 5, { locale: "fr" })).toBe("45,12300° O");
+    expect(formatDD(lon, 5, { locale: "de" })).toBe("45,12300° W");
+    expect(
+      formatDM({ kind: CoordinateType.LAT, degrees: 45, minutes: 7.38, hemi: Hemisphere.N }, 2, { locale: "es" })
+    ).toBe("45° 7,38' N");
+    expect(
+      formatDMS({ kind: CoordinateType.LON, degrees: 13, minutes: 24, seconds: 3.5, hemi: Hemisphere.E }, 1, { locale: "de" })
+    ).toBe("13° 24' 3,5\" O");
+  });
+
+  test("formatDD - no space before the hemisphere", () => {
+    const locale = { ...resolveLocale("fr"), spaceBeforeHemisphere: false };
+    expect(formatDD({ kind: CoordinateType.LAT, degrees: -10.5 }, 1, { locale })).toBe("10,5°S");
+  });
+
+  test("formatDD - output is unchanged without a locale", () => {
+    const dd = { kind: CoordinateType.LON, degrees: -45.123 };
+    expect(formatDD(dd)).toBe("45.12300° W");
+    expect(formatDD(dd, 5, { locale: "en" })).toBe("45.12300° W");
+  });
+
+  test("formatDDPair - round trips through parsePairString", () => {
+    const [latStr, lonStr] = formatDDPair(
+      { kind: CoordinateType.LAT, degrees: 48.8566 },
+      { kind: CoordinateType.LON, degrees: -2.3522 },
+      4,
+      { locale: "fr" }
+    );
+    expect([latStr, lonStr]).toEqual(["48,8566° N", "2,3522° O"]);
+    const [lat, lon] = parsePairString(`${latStr}; ${lonStr}`, { locale: "fr" });
+    expect(lat.degrees).toBeCloseTo(48.8566, 6);
+    expect(lon.degrees).toBeCloseTo(-2.3522, 6);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  ddPairToMaidenhead,
+  maidenheadToDDPair,
+  maidenheadBounds,
+  isMaidenhead,
+  formatMaidenhead,
+  parsePairToDD,
+  parseToDD,
+  InvalidNumberError,
+  OutOfRangeError,
+  UnrecognizedFormatError,
+} from "../src";
+import { CoordinateType } from "../types";
+
+// ============================================================================
+// MAIDENHEAD LOCATOR TESTS
+// ============================================================================
+
+describe("Maidenhead Locators", () => {
+  test("ddPairToMaidenhead - all lengths", () => {
+    const pair = parsePairToDD(41.714775, -72.72726);
+    expect(ddPairToMaidenhead(...pair, 2)).toBe("FN");
+    expect(ddPairToMaidenhead(...pair, 4)).toBe("FN31");
+    expect(ddPairToMaidenhead(...pair)).toBe("FN31pr");
+    expect(ddPairToMaidenhead(...pair, 8)).toBe("FN31pr21");
+    expect(ddPairToMaidenhead(...pair, 10)).toBe("FN31pr21rn");
+  });
+
+  test("ddPairToMaidenhead - world edges stay in the last square", () => {
+    expect(ddPairToMaidenhead(...parsePairToDD(90, 180), 10)).toBe("RR99xx99xx");
+    expect(ddPairToMaidenhead(...parsePairToDD(-90, -180), 10)).toBe("AA00aa00aa");
+  });
+
+  test("ddPairToMaidenhead - invalid length", () => {
+    expect(() => ddPairToMaidenhead(...parsePairToDD(0, 0), 5)).toThrow(
+      "Maidenhead locator length must be one of 2, 4, 6, 8, 10 (got 5)"
+    );
+    expect(() => ddPairToMaidenhead(...parsePairToDD(0, 0), 5)).toThrow(OutOfRangeError);
+  });
+
+  test("ddPairToMaidenhead - rejects non-finite degrees", () => {
+    const lat = (degrees: number) => ({ kind: CoordinateType.LAT, degrees });
+    const lon = (degrees: number) => ({ kind: CoordinateType.LON, degrees });
+    expect(() => ddPairToMaidenhead(lat(NaN), lon(2))).toThrow(InvalidNumberError);
+    expect(() => ddPairToMaidenhead(lat(41), lon(Infinity))).toThrow(InvalidNumberError);
+  });
+
+  test("maidenheadToDDPair - centre of the square", () => {
+    const [lat, lon] = maidenheadToDDPair("CN88xt");
+    expect(lat.kind).toBe(CoordinateType.LAT);
+    expect(lat.degrees).toBeCloseTo(48.8125, 10);
+    expect(lon.degrees).toBeCloseTo(-122.041667, 6);
+  });
+
+  test("maidenheadToDDPair - case-insensitive", () => {
+    expect(maidenheadToDDPair("cn88XT")).toEqual(maidenheadToDDPair("CN88xt"));
+  });
+
+  test("maidenheadBounds", () => {
+    const { sw, ne } = maidenheadBounds("FN31");
+    expect(sw[0].degrees).toBe(41);
+    expect(sw[1].degrees).toBe(-74);
+    expect(ne[0].degrees).toBe(42);
+    expect(ne[1].degrees).toBe(-72);
+  });
+
+  test("round trip stays within the square", () => {
+    const [lat, lon] = maidenheadToDDPair(
+      ddPairToMaidenhead(...parsePairToDD(-33.8568, 151.2153), 10)
+    );
+    expect(Math.abs(lat.degrees + 33.8568)).toBeLessThan(1 / 5760);
+    expect(Math.abs(lon.degrees - 151.2153)).toBeLessThan(1 / 2880);
+  });
+
+  test("malformed locators", () => {
+    expect(isMaidenhead("CN8")).toBe(false);
+    expect(isMaidenhead("SN88")).toBe(false);
+    expect(isMaidenhead("CN88yy")).toBe(false);
+    expect(() => maidenheadToDDPair("CN8")).toThrow(
+      'Unrecognized Maidenhead locator: "CN8"'
+    );
+    expect(() => maidenheadBounds("CN8")).toThrow(UnrecognizedFormatError);
+  });
+
+  test("formatMaidenhead - casing conventions", () => {
+    expect(formatMaidenhead("cn88XT")).toBe("CN88xt");
+    expect(formatMaidenhead("fn31pr21rn")).toBe("FN31pr21rn");
+    expect(formatMaidenhead("cn88xt", { uppercase: true })).toBe("CN88XT");
+    expect(() => formatMaidenhead("CN8")).toThrow(/Unrecognized Maidenhead locator/);
+    expect(() => formatMaidenhead("CN8")).toThrow(UnrecognizedFormatError);
+  });
+
+  test("parseToDD - detects locators", () => {
+    expect(parseToDD("CN88xt", CoordinateType.LAT).degrees).toBeCloseTo(48.8125, 10);
+    expect(parseToDD(" cn88xt ", CoordinateType.LON).degrees).toBeCloseTo(-122.041667, 6);
+    expect(parsePairToDD("FN31", "FN31").map((dd) => dd.degrees)).toEqual([41.5, -73]);
+  });
+
+  test("parseToDD - two-letter locators are not detected", () => {
+    expect(() => parseToDD("NS", CoordinateType.LAT)).toThrow(
+      /Unrecognized coordinate format/
+    );
+  });
+});
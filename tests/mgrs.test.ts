@@ -0,0 +1,145 @@
+import {
+  ddPairToMGRS,
+  mgrsToDDPair,
+  parseMGRS,
+  parsePairToDD,
+  formatMGRS,
+  InvalidNumberError,
+  OutOfRangeError,
+  UnrecognizedFormatError,
+} from "../src";
+import { CoordinateType } from "../types";
+
+// ============================================================================
+// MGRS CONVERSION TESTS
+// ============================================================================
+
+describe("MGRS Conversion", () => {
+  test("ddPairToMGRS - 1 m precision", () => {
+    expect(ddPairToMGRS(...parsePairToDD(48.8582, 2.2945))).toEqual({
+      zone: 31,
+      band: "U",
+      column: "D",
+      row: "Q",
+      easting: 48251,
+      northing: 11932,
+      precision: 1,
+    });
+  });
+
+  test("ddPairToMGRS - coarser precision truncates", () => {
+    const mgrs = ddPairToMGRS(...parsePairToDD(48.8582, 2.2945), 1000);
+    expect(mgrs.easting).toBe(48000);
+    expect(mgrs.northing).toBe(11000);
+    expect(mgrs.precision).toBe(1000);
+  });
+
+  test("ddPairToMGRS - southern hemisphere", () => {
+    const mgrs = ddPairToMGRS(...parsePairToDD(-33.8568, 151.2153));
+    expect(formatMGRS(mgrs)).toBe("56H LH 34900 52288");
+  });
+
+  test("ddPairToMGRS - unsupported precision", () => {
+    expect(() => ddPairToMGRS(...parsePairToDD(45, 5), 5)).toThrow(
+      "MGRS precision must be one of 1, 10, 100, 1000, 10000, 100000 metres (got 5)"
+    );
+    expect(() => ddPairToMGRS(...parsePairToDD(45, 5), 5)).toThrow(OutOfRangeError);
+  });
+
+  test("ddPairToMGRS - rejects non-finite degrees", () => {
+    const lat = (degrees: number) => ({ kind: CoordinateType.LAT, degrees });
+    const lon = (degrees: number) => ({ kind: CoordinateType.LON, degrees });
+    expect(() => ddPairToMGRS(lat(NaN), lon(2))).toThrow(InvalidNumberError);
+    expect(() => ddPairToMGRS(lat(48), lon(Infinity))).toThrow(InvalidNumberError);
+    expect(() => ddPairToMGRS(...parsePairToDD(85, 0))).toThrow(OutOfRangeError);
+  });
+
+  test("mgrsToDDPair - south-west corner and centre", () => {
+    const mgrs = parseMGRS("31U DQ 48251 11932");
+    const [lat, lon] = mgrsToDDPair(mgrs);
+    expect(lat.degrees).toBeCloseTo(48.858196, 5);
+    expect(lon.degrees).toBeCloseTo(2.294487, 5);
+
+    const [cLat, cLon] = mgrsToDDPair(mgrs, { center: true });
+    expect(cLat.degrees).toBeGreaterThan(lat.degrees);
+    expect(cLon.degrees).toBeGreaterThan(lon.degrees);
+  });
+
+  test("round trip within the referenced square", () => {
+    const samples: [number, number][] = [
+      [40.7128, -74.006],
+      [-45, -60],
+      [78, 10],
+      [0, 0],
+      [84, 179.9],
+    ];
+    for (const [lat, lon] of samples) {
+      const mgrs = ddPairToMGRS(...parsePairToDD(lat, lon), 10);
+      const [latDD, lonDD] = mgrsToDDPair(mgrs, { center: true });
+      // within ~10 m either way
+      expect(Math.abs(latDD.degrees - lat)).toBeLessThan(1e-4);
+      expect(Math.abs(lonDD.degrees - lon)).toBeLessThan(1e-3);
+    }
+  });
+
+  test("mgrsToDDPair - invalid square letters", () => {
+    expect(() => mgrsToDDPair(parseMGRS("31U JQ 48251 11932"))).toThrow(
+      'Invalid MGRS 100 km column "J" for zone 31'
+    );
+    expect(() => mgrsToDDPair(parseMGRS("31U JQ 48251 11932"))).toThrow(UnrecognizedFormatError);
+    expect(() => mgrsToDDPair({ ...parseMGRS("31U DQ 48251 11932"), zone: 0 })).toThrow(
+      OutOfRangeError
+    );
+  });
+});
+
+// ============================================================================
+// MGRS PARSING AND FORMATTING TESTS
+// ============================================================================
+
+describe("MGRS Parsing and Formatting", () => {
+  test("parseMGRS - spaced and unspaced forms", () => {
+    const expected = {
+      zone: 18,
+      band: "T",
+      column: "W",
+      row: "L",
+      easting: 80815,
+      northing: 5890,
+      precision: 1,
+    };
+    expect(parseMGRS("18T WL 80815 05890")).toEqual(expected);
+    expect(parseMGRS("18TWL8081505890")).toEqual(expected);
+    expect(parseMGRS("18t wl 8081505890")).toEqual(expected);
+  });
+
+  test("parseMGRS - precision from digit count", () => {
+    expect(parseMGRS("18T WL 808 058")).toMatchObject({
+      easting: 80800,
+      northing: 5800,
+      precision: 100,
+    });
+    expect(parseMGRS("18TWL").precision).toBe(100000);
+  });
+
+  test("parseMGRS - unrecognized format", () => {
+    expect(() => parseMGRS("18T WL 8081 058")).toThrow(
+      'Unrecognized MGRS format: "18T WL 8081 058"'
+    );
+    expect(() => parseMGRS("18I WL 80815 05890")).toThrow(/Unrecognized MGRS format/);
+    expect(() => parseMGRS("18I WL 80815 05890")).toThrow(UnrecognizedFormatError);
+    expect(() => parseMGRS("61U DQ 48251 11932")).toThrow(OutOfRangeError);
+  });
+
+  test("formatMGRS - spacing options", () => {
+    const mgrs = parseMGRS("18T WL 80815 05890");
+    expect(formatMGRS(mgrs)).toBe("18T WL 80815 05890");
+    expect(formatMGRS(mgrs, { spaced: false })).toBe("18TWL8081505890");
+  });
+
+  test("formatMGRS - pads digits to precision", () => {
+    const mgrs = parseMGRS("18T WL 808 058");
+    expect(formatMGRS(mgrs)).toBe("18T WL 808 058");
+    expect(formatMGRS(parseMGRS("18TWL"))).toBe("18T WL");
+  });
+});
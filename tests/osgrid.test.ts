@@ -0,0 +1,139 @@
+import {
+  ddPairToOSGrid,
+  osGridToDDPair,
+  parseOSGrid,
+  parsePairToDD,
+  formatOSGrid,
+  CoordinateError,
+  InvalidNumberError,
+  OutOfRangeError,
+  UnrecognizedFormatError,
+} from "../src";
+import { Datum } from "../types";
+
+// Ordnance Survey worked example: Caister Water Tower, 52°39'27.2531"N 1°43'4.5177"E
+const caister = parsePairToDD(52 + 39 / 60 + 27.2531 / 3600, 1 + 43 / 60 + 4.5177 / 3600, {
+  datum: Datum.OSGB36,
+});
+
+// ============================================================================
+// NATIONAL GRID CONVERSION TESTS
+// ============================================================================
+
+describe("National Grid Conversion", () => {
+  test("ddPairToOSGrid - OS worked example", () => {
+    const { easting, northing } = ddPairToOSGrid(...caister);
+    expect(easting).toBeCloseTo(651409.903, 3);
+    expect(northing).toBeCloseTo(313177.27, 3);
+  });
+
+  test("osGridToDDPair - OS worked example", () => {
+    const [lat, lon] = osGridToDDPair(
+      { easting: 651409.903, northing: 313177.27 },
+      { datum: Datum.OSGB36 }
+    );
+    expect(lat.degrees).toBeCloseTo(caister[0].degrees, 7);
+    expect(lon.degrees).toBeCloseTo(caister[1].degrees, 7);
+    expect(lat.datum).toBe(Datum.OSGB36);
+  });
+
+  test("WGS84 - shifted onto OSGB36 and back to within millimetres", () => {
+    const grid = ddPairToOSGrid(...parsePairToDD(51.50083, -0.12468));
+    expect(formatOSGrid(grid)).toBe("TQ 30263 79655");
+    const [lat, lon] = osGridToDDPair(grid);
+    expect(lat.degrees).toBeCloseTo(51.50083, 6);
+    expect(lon.degrees).toBeCloseTo(-0.12468, 6);
+    expect(lon.datum).toBe(Datum.WGS84);
+  });
+
+  test("osGridToDDPair - centre of a square", () => {
+    const grid = parseOSGrid("TQ 302 796");
+    const opts = { datum: Datum.OSGB36 };
+    const corner = ddPairToOSGrid(...osGridToDDPair(grid, opts));
+    const centre = ddPairToOSGrid(...osGridToDDPair(grid, { ...opts, center: true }));
+    expect(corner.easting).toBeCloseTo(530200, 6);
+    expect(centre.easting).toBeCloseTo(530250, 6);
+    expect(centre.northing).toBeCloseTo(179650, 6);
+  });
+
+  test("National Grid - rejects positions outside it", () => {
+    expect(() => ddPairToOSGrid(...parsePairToDD(48.8582, 2.2945))).toThrow("outside");
+    expect(() => osGridToDDPair({ easting: -1, northing: 0 })).toThrow("outside");
+    expect(() => osGridToDDPair({ easting: 0, northing: 1300000 })).toThrow("outside");
+    expect(() => osGridToDDPair({ easting: NaN, northing: 0 })).toThrow(InvalidNumberError);
+    expect(() => ddPairToOSGrid(...parsePairToDD(48.8582, 2.2945))).toThrow(OutOfRangeError);
+    expect(() => osGridToDDPair({ easting: -1, northing: 0 })).toThrow(OutOfRangeError);
+  });
+});
+
+// ============================================================================
+// GRID REFERENCE TESTS
+// ============================================================================
+
+describe("OS Grid References", () => {
+  test("parseOSGrid - lettered references", () => {
+    expect(parseOSGrid("TQ 30076 80687")).toEqual({
+      easting: 530076,
+      northing: 180687,
+      precision: 1,
+    });
+    expect(parseOSGrid("tq3007680687")).toEqual(parseOSGrid("TQ 30076 80687"));
+    expect(parseOSGrid("TQ 300 806")).toEqual({ easting: 530000, northing: 180600, precision: 100 });
+    expect(parseOSGrid("TG 51 13")).toEqual({ easting: 651000, northing: 313000, precision: 1000 });
+    expect(parseOSGrid("SV")).toEqual({ easting: 0, northing: 0, precision: 100000 });
+    expect(parseOSGrid("HP 6 1")).toEqual({
+      easting: 460000,
+      northing: 1210000,
+      precision: 10000,
+    });
+  });
+
+  test("parseOSGrid - numeric references", () => {
+    const expected = { easting: 530076, northing: 180687 };
+    expect(parseOSGrid("530076, 180687")).toEqual(expected);
+    expect(parseOSGrid("530076 180687")).toEqual(expected);
+    expect(parseOSGrid("530076E 180687N")).toEqual(expected);
+    expect(parseOSGrid("530076mE, 180687mN")).toEqual(expected);
+    expect(parseOSGrid("651409.903 313177.27")).toEqual({
+      easting: 651409.903,
+      northing: 313177.27,
+    });
+  });
+
+  test("parseOSGrid - rejects invalid references", () => {
+    expect(() => parseOSGrid("TQ 123")).toThrow("Unrecognized OS grid reference");
+    expect(() => parseOSGrid("TQ 123456789012")).toThrow("Unrecognized");
+    expect(() => parseOSGrid("TI 1 1")).toThrow("Unrecognized");
+    expect(() => parseOSGrid("AA 1 1")).toThrow("outside the National Grid");
+    expect(() => parseOSGrid("800000 100000")).toThrow("outside the National Grid");
+    expect(() => parseOSGrid("TQ 123")).toThrow(UnrecognizedFormatError);
+    expect(() => parseOSGrid("ZZ 123 456")).toThrow(OutOfRangeError);
+    expect(() => parseOSGrid("ZZ 123 456")).toThrow(CoordinateError);
+  });
+
+  test("formatOSGrid - digits and spacing", () => {
+    const grid = { easting: 530076.4, northing: 180687.9 };
+    expect(formatOSGrid(grid)).toBe("TQ 30076 80687");
+    expect(formatOSGrid(grid, { digits: 8 })).toBe("TQ 3007 8068");
+    expect(formatOSGrid(grid, { digits: 6 })).toBe("TQ 300 806");
+    expect(formatOSGrid(grid, { digits: 2 })).toBe("TQ 3 8");
+    expect(formatOSGrid(grid, { digits: 0 })).toBe("TQ");
+    expect(formatOSGrid(grid, { spaced: false })).toBe("TQ3007680687");
+    expect(formatOSGrid({ easting: 651409.903, northing: 313177.27 })).toBe("TG 51409 13177");
+    expect(formatOSGrid({ easting: 5000, northing: 9000 })).toBe("SV 05000 09000");
+  });
+
+  test("formatOSGrid - keeps the precision of a parsed reference", () => {
+    for (const input of ["TQ 300 806", "HP 6 1", "SV", "NN 1665 7127"])
+      expect(formatOSGrid(parseOSGrid(input))).toBe(input);
+  });
+
+  test("formatOSGrid - rejects unsupported digits", () => {
+    const grid = { easting: 530076, northing: 180687 };
+    expect(() => formatOSGrid(grid, { digits: 7 })).toThrow("even number from 0 to 10");
+    expect(() => formatOSGrid(grid, { digits: 12 })).toThrow("even number");
+    expect(() => formatOSGrid({ easting: 700000, northing: 0 })).toThrow("outside");
+    expect(() => formatOSGrid(grid, { digits: 7 })).toThrow(OutOfRangeError);
+    expect(() => formatOSGrid({ easting: 700000, northing: 0 })).toThrow(OutOfRangeError);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  ddPairToPlusCode,
+  plusCodeToDDPair,
+  shortenPlusCode,
+  recoverPlusCode,
+  isPlusCode,
+  parsePairToDD,
+  parseToDD,
+  safeParseToDD,
+  parsePairString,
+  InvalidNumberError,
+  OutOfRangeError,
+  UnrecognizedFormatError,
+} from "../src";
+import { CoordinateType } from "../types";
+
+// ============================================================================
+// PLUS CODE ENCODING AND DECODING TESTS
+// ============================================================================
+
+describe("Plus Code Encoding and Decoding", () => {
+  test("ddPairToPlusCode - default and custom lengths", () => {
+    const pair = parsePairToDD(20.3701125, 2.782234375);
+    expect(ddPairToPlusCode(...pair)).toBe("7FG49QCJ+2V");
+    expect(ddPairToPlusCode(...pair, 11)).toBe("7FG49QCJ+2VX");
+    expect(ddPairToPlusCode(...pair, 6)).toBe("7FG49Q00+");
+    expect(ddPairToPlusCode(...pair, 2)).toBe("7F000000+");
+  });
+
+  test("ddPairToPlusCode - world edges", () => {
+    expect(ddPairToPlusCode(...parsePairToDD(90, 1), 4)).toBe("CFX30000+");
+    expect(ddPairToPlusCode(...parsePairToDD(-90, -180))).toBe("22222222+22");
+  });
+
+  test("ddPairToPlusCode - invalid length", () => {
+    expect(() => ddPairToPlusCode(...parsePairToDD(0, 0), 7)).toThrow(
+      "Plus Code length must be 2, 4, 6, 8 or 10–15 (got 7)"
+    );
+    expect(() => ddPairToPlusCode(...parsePairToDD(0, 0), 16)).toThrow(/got 16/);
+    expect(() => ddPairToPlusCode(...parsePairToDD(0, 0), 7)).toThrow(OutOfRangeError);
+  });
+
+  test("ddPairToPlusCode - rejects non-finite degrees", () => {
+    const lat = (degrees: number) => ({ kind: CoordinateType.LAT, degrees });
+    const lon = (degrees: number) => ({ kind: CoordinateType.LON, degrees });
+    expect(() => ddPairToPlusCode(lat(NaN), lon(2))).toThrow(InvalidNumberError);
+    expect(() => ddPairToPlusCode(lat(20), lon(-Infinity))).toThrow(InvalidNumberError);
+    expect(() => recoverPlusCode("9QCJ+2VX", lat(NaN), lon(2))).toThrow(InvalidNumberError);
+  });
+
+  test("plusCodeToDDPair - padded code area and centre", () => {
+    const area = plusCodeToDDPair("7FG49Q00+");
+    expect(area.sw.map((dd) => dd.degrees)).toEqual([20.35, 2.75]);
+    expect(area.ne.map((dd) => dd.degrees)).toEqual([20.4, 2.8]);
+    expect(area.center[0].degrees).toBeCloseTo(20.375, 10);
+    expect(area.center[1].degrees).toBeCloseTo(2.775, 10);
+    expect(area.codeLength).toBe(6);
+  });
+
+  test("plusCodeToDDPair - grid digits", () => {
+    const area = plusCodeToDDPair("7fg49qcj+2vx");
+    expect(area.sw[0].degrees).toBeCloseTo(20.3701, 10);
+    expect(area.sw[1].degrees).toBeCloseTo(2.78221875, 10);
+    expect(area.ne[0].degrees).toBeCloseTo(20.370125, 10);
+    expect(area.ne[1].degrees).toBeCloseTo(2.78225, 10);
+    expect(area.codeLength).toBe(11);
+  });
+
+  test("plusCodeToDDPair - short and malformed codes", () => {
+    expect(() => plusCodeToDDPair("JM6C+Q6")).toThrow(
+      'Short Plus Code "JM6C+Q6" needs a reference location; use recoverPlusCode first'
+    );
+    expect(() => plusCodeToDDPair("84VVJM6C")).toThrow(
+      'Unrecognized Plus Code: "84VVJM6C"'
+    );
+  });
+
+  test("round trip through the centre", () => {
+    const code = ddPairToPlusCode(...parsePairToDD(47.6119375, -122.3294375));
+    expect(code).toBe("84VVJM6C+Q6");
+    expect(ddPairToPlusCode(...plusCodeToDDPair(code).center)).toBe(code);
+  });
+});
+
+// ============================================================================
+// SHORT CODE TESTS
+// ============================================================================
+
+describe("Short Plus Codes", () => {
+  test("shortenPlusCode", () => {
+    expect(
+      shortenPlusCode("9C3W9QCJ+2VX", ...parsePairToDD(51.3701125, -1.217765625))
+    ).toBe("+2VX");
+    expect(
+      shortenPlusCode("9C3W9QCJ+2VX", ...parsePairToDD(51.3708675, -1.217765625))
+    ).toBe("CJ+2VX");
+    expect(shortenPlusCode("9C3W9QCJ+2VX", ...parsePairToDD(0, 0))).toBe(
+      "9C3W9QCJ+2VX"
+    );
+  });
+
+  test("shortenPlusCode - rejects padded codes", () => {
+    expect(() =>
+      shortenPlusCode("7FG49Q00+", ...parsePairToDD(20.375, 2.775))
+    ).toThrow('Padded Plus Codes cannot be shortened (got "7FG49Q00+")');
+    expect(() =>
+      shortenPlusCode("9QCJ+2VX", ...parsePairToDD(51.37, -1.21))
+    ).toThrow(UnrecognizedFormatError);
+    expect(() =>
+      recoverPlusCode("not a code", ...parsePairToDD(51.37, -1.21))
+    ).toThrow(UnrecognizedFormatError);
+  });
+
+  test("recoverPlusCode", () => {
+    expect(
+      recoverPlusCode("9QCJ+2VX", ...parsePairToDD(51.3708675, -1.217765625))
+    ).toBe("9C3W9QCJ+2VX");
+    expect(recoverPlusCode("2222+22", ...parsePairToDD(89.6, 0))).toBe(
+      "CFX22222+22"
+    );
+    expect(recoverPlusCode("XXXX+XX", ...parsePairToDD(-81, 0))).toBe(
+      "2CCXXXXX+XX"
+    );
+  });
+
+  test("recoverPlusCode - full codes pass through", () => {
+    expect(recoverPlusCode("84vvjm6c+q6", ...parsePairToDD(0, 0))).toBe(
+      "84VVJM6C+Q6"
+    );
+  });
+
+  test("isPlusCode", () => {
+    expect(isPlusCode("84VVJM6C+Q6")).toBe(true);
+    expect(isPlusCode("JM6C+Q6")).toBe(true);
+    expect(isPlusCode("8FVC0000+")).toBe(true);
+    expect(isPlusCode("84VVJM6C")).toBe(false);
+    expect(isPlusCode("8FVC00+")).toBe(false);
+    expect(isPlusCode("84VVJM6C+Q")).toBe(false);
+    expect(isPlusCode("+45")).toBe(false);
+    expect(isPlusCode("+CF")).toBe(false);
+  });
+
+  test("parseToDD - detects full Plus Codes", () => {
+    expect(parseToDD("7FG49Q00+", CoordinateType.LAT).degrees).toBeCloseTo(20.375, 10);
+    expect(parseToDD("7FG49Q00+", CoordinateType.LON).degrees).toBeCloseTo(2.775, 10);
+    expect(() => parseToDD("JM6C+Q6", CoordinateType.LAT)).toThrow(
+      /needs a reference location/
+    );
+  });
+
+  test("parsers - signed numbers are not Plus Codes", () => {
+    expect(parseToDD("+45", CoordinateType.LAT).degrees).toBe(45);
+    expect(safeParseToDD("+45", CoordinateType.LAT)).toMatchObject({ ok: true });
+    const [lat, lon] = parsePairString("+45 +90");
+    expect(lat.degrees).toBe(45);
+    expect(lon.degrees).toBe(90);
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  parseToDD,
+  parsePairString,
+  ddToDM,
+  ddToDMS,
+  dmToDD,
+  dmToDMS,
+  formatDD,
+  formatDM,
+  formatDMS,
+  precisionToMeters,
+  metersToPrecision,
+  InvalidNumberError,
+  OutOfRangeError,
+} from "../src";
+import { AngleUnit, CoordinateType, Hemisphere } from "../types";
+
+// ============================================================================
+// SOURCE PRECISION TESTS
+// ============================================================================
+
+describe("Source Precision", () => {
+  test("parseToDD - records the least significant component", () => {
+    const cases: [string, AngleUnit, number][] = [
+      ["45", AngleUnit.DEGREES, 0],
+      ["45.1230", AngleUnit.DEGREES, 4],
+      ["45° 7' N", AngleUnit.MINUTES, 0],
+      ["45 7.38", AngleUnit.MINUTES, 2],
+      ["45° 7' 22.8\" N", AngleUnit.SECONDS, 1],
+      ["4507.38N", AngleUnit.MINUTES, 2],
+      ["45d 7m 22s", AngleUnit.SECONDS, 0],
+    ];
+    for (const [input, unit, decimals] of cases) {
+      expect(parseToDD(input, CoordinateType.LAT).precision).toEqual({ unit, decimals });
+    }
+  });
+
+  test("parseToDD - signs are not decimal separators", () => {
+    const cases: [string, AngleUnit, number][] = [
+      ["-45", AngleUnit.DEGREES, 0],
+      ["+45", AngleUnit.DEGREES, 0],
+      ["-45.12", AngleUnit.DEGREES, 2],
+      ["45 -30", AngleUnit.MINUTES, 0],
+      ["-45 7 -22", AngleUnit.SECONDS, 0],
+      ["-45 7.5", AngleUnit.MINUTES, 1],
+    ];
+    for (const [input, unit, decimals] of cases) {
+      expect(parseToDD(input, CoordinateType.LAT).precision).toEqual({ unit, decimals });
+    }
+    const dd = parseToDD("-45", CoordinateType.LAT);
+    expect(formatDD(dd, 5, { matchPrecision: true })).toBe("45° S");
+  });
+
+  test("parseToDD - decimal comma counts as a decimal separator", () => {
+    expect(parseToDD("45,125", CoordinateType.LAT, { locale: "fr" }).precision).toEqual({
+      unit: AngleUnit.DEGREES,
+      decimals: 3,
+    });
+    expect(parseToDD("-45", CoordinateType.LAT, { locale: "fr" }).precision).toEqual({
+      unit: AngleUnit.DEGREES,
+      decimals: 0,
+    });
+  });
+
+  test("parseToDD - numbers and locators carry no precision", () => {
+    expect(parseToDD(45.5, CoordinateType.LAT).precision).toBeUndefined();
+    expect(parseToDD("CN88xt", CoordinateType.LAT).precision).toBeUndefined();
+  });
+
+  test("ddToDMS / formatDMS - matchPrecision keeps a minute-precise input minute-precise", () => {
+    const dd = parseToDD("45° 7' N", CoordinateType.LAT);
+    expect(formatDMS(ddToDMS(dd))).toBe("45° 7' 0.00000\" N");
+
+    const dms = ddToDMS(dd, { matchPrecision: true });
+    expect(dms).toEqual({
+      kind: CoordinateType.LAT,
+      degrees: 45,
+      minutes: 7,
+      seconds: 0,
+      hemi: Hemisphere.N,
+      precision: { unit: AngleUnit.MINUTES, decimals: 0 },
+    });
+    expect(formatDMS(dms, undefined, { matchPrecision: true })).toBe("45° 7' 0\" N");
+    expect(formatDM(ddToDM(dd, { matchPrecision: true }), undefined, { matchPrecision: true })).toBe(
+      "45° 7' N"
+    );
+  });
+
+  test("matchPrecision - converts between units without losing digits", () => {
+    const dd = parseToDD("45.123", CoordinateType.LAT);
+    // 0.001° is 0.06', which needs 2 decimals of minutes, and 3.6", which needs none
+    expect(ddToDM(dd, { matchPrecision: true }).minutes).toBe(7.38);
+    expect(ddToDMS(dd, { matchPrecision: true }).seconds).toBe(23);
+    expect(formatDD(dd, 5, { matchPrecision: true })).toBe("45.123° N");
+
+    const fine = parseToDD("45° 7' 22.85\" N", CoordinateType.LAT);
+    expect(formatDD(fine, 2, { matchPrecision: true })).toBe("45.123014° N");
+  });
+
+  test("matchPrecision - falls back to decimals without a source precision", () => {
+    const dd = { kind: CoordinateType.LAT, degrees: 45.123 };
+    expect(ddToDM(dd, { decimals: 1, matchPrecision: true }).minutes).toBe(7.4);
+    expect(formatDD(dd, 2, { matchPrecision: true })).toBe("45.12° N");
+  });
+
+  test("precision carries through the conversion chain", () => {
+    const [lat] = parsePairString("48 51.26 N, 2 21 E");
+    const dm = ddToDM(lat, { matchPrecision: true });
+    expect(dm.precision).toEqual({ unit: AngleUnit.MINUTES, decimals: 2 });
+    expect(dmToDD(dm).precision).toEqual(dm.precision);
+    expect(dmToDMS(dm, { matchPrecision: true }).seconds).toBe(15.6);
+    expect(ddToDM({ kind: CoordinateType.LAT, degrees: 1 })).not.toHaveProperty("precision");
+  });
+});
+
+// ============================================================================
+// GROUND RESOLUTION TESTS
+// ============================================================================
+
+describe("Ground Resolution", () => {
+  test("precisionToMeters - latitude and longitude", () => {
+    const fiveDecimals = { unit: AngleUnit.DEGREES, decimals: 5 };
+    expect(precisionToMeters(fiveDecimals, 0)).toBeCloseTo(1.1057, 3);
+    expect(precisionToMeters(fiveDecimals, 90)).toBeCloseTo(1.1169, 3);
+    expect(precisionToMeters(fiveDecimals, 0, CoordinateType.LON)).toBeCloseTo(1.1132, 3);
+    expect(precisionToMeters(fiveDecimals, 60, CoordinateType.LON)).toBeCloseTo(0.5580, 3);
+    expect(precisionToMeters(fiveDecimals, 90, CoordinateType.LON)).toBeCloseTo(0, 6);
+  });
+
+  test("precisionToMeters - minutes and seconds", () => {
+    // One minute of latitude is about a nautical mile
+    expect(precisionToMeters({ unit: AngleUnit.MINUTES, decimals: 0 }, 45)).toBeCloseTo(1852.2, 0);
+    expect(precisionToMeters({ unit: AngleUnit.SECONDS, decimals: 1 }, 45)).toBeCloseTo(3.087, 2);
+  });
+
+  test("metersToPrecision - fewest decimals that resolve the distance", () => {
+    expect(metersToPrecision(1, 45)).toEqual({ unit: AngleUnit.DEGREES, decimals: 6 });
+    expect(metersToPrecision(1.2, 45)).toEqual({ unit: AngleUnit.DEGREES, decimals: 5 });
+    expect(metersToPrecision(10, 45, { unit: AngleUnit.MINUTES })).toEqual({
+      unit: AngleUnit.MINUTES,
+      decimals: 3,
+    });
+    expect(metersToPrecision(5000, 45, { unit: AngleUnit.SECONDS })).toEqual({
+      unit: AngleUnit.SECONDS,
+      decimals: 0,
+    });
+    expect(metersToPrecision(1, 89.9, { kind: CoordinateType.LON }).decimals).toBe(3);
+  });
+
+  test("metersToPrecision - round trips through precisionToMeters", () => {
+    for (const meters of [0.01, 0.5, 3, 250]) {
+      const precision = metersToPrecision(meters, 30, { unit: AngleUnit.SECONDS });
+      expect(precisionToMeters(precision, 30)).toBeLessThanOrEqual(meters);
+      expect(
+        precisionToMeters({ ...precision, decimals: precision.decimals - 1 }, 30)
+      ).toBeGreaterThan(meters);
+    }
+  });
+
+  test("errors", () => {
+    expect(() => metersToPrecision(0, 45)).toThrow(InvalidNumberError);
+    expect(() => metersToPrecision(NaN, 45)).toThrow(InvalidNumberError);
+    expect(() => precisionToMeters({ unit: AngleUnit.DEGREES, decimals: 5 }, 91)).toThrow(
+      OutOfRangeError
+    );
+  });
+});
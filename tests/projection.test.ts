@@ -0,0 +1,195 @@
+import {
+  ddPairToProjected,
+  projectedToDDPair,
+  ddPairToOSGrid,
+  parsePairToDD,
+  PROJECTIONS,
+  ELLIPSOIDS,
+  InvalidNumberError,
+  InvalidProjectionError,
+  OutOfRangeError,
+  UnsupportedInputError,
+} from "../src";
+import { CoordinateType, Datum, ProjectionDefinition, ProjectionMethod } from "../types";
+
+const dms = (d: number, m: number, s: number) => d + m / 60 + s / 3600;
+
+// Snyder, "Map Projections: A Working Manual", worked example for the ellipsoidal form
+const lambert: ProjectionDefinition = {
+  method: ProjectionMethod.LAMBERT_CONFORMAL_CONIC,
+  ellipsoid: ELLIPSOIDS.CLARKE_1866,
+  originLat: 23,
+  originLon: -96,
+  falseEasting: 0,
+  falseNorthing: 0,
+  standardParallels: [33, 45],
+};
+
+// EPSG Guidance Note 7-2 example: Jamaica 1969 / Jamaica National Grid (one parallel)
+const jamaica: ProjectionDefinition = {
+  method: ProjectionMethod.LAMBERT_CONFORMAL_CONIC,
+  ellipsoid: ELLIPSOIDS.CLARKE_1866,
+  originLat: 18,
+  originLon: -77,
+  falseEasting: 250000,
+  falseNorthing: 150000,
+  scaleFactor: 1,
+};
+
+// The British National Grid, written out as a generic definition
+const nationalGrid: ProjectionDefinition = {
+  method: ProjectionMethod.TRANSVERSE_MERCATOR,
+  datum: Datum.OSGB36,
+  originLat: 49,
+  originLon: -2,
+  falseEasting: 400000,
+  falseNorthing: -100000,
+  scaleFactor: 0.9996012717,
+};
+
+// ============================================================================
+// FORWARD PROJECTION TESTS
+// ============================================================================
+
+describe("Forward Projection", () => {
+  test("Web Mercator - EPSG:3857", () => {
+    const web = PROJECTIONS.WEB_MERCATOR;
+    const london = ddPairToProjected(...parsePairToDD(51.5074, -0.1278), web);
+    expect(london.x).toBeCloseTo(-14226.6309, 4);
+    expect(london.y).toBeCloseTo(6711542.4756, 4);
+    expect(ddPairToProjected(...parsePairToDD(0, 0), web)).toEqual({ x: 0, y: 0 });
+    const corner = ddPairToProjected(...parsePairToDD(85.0511287798066, 179.999999), web);
+    expect(corner.y).toBeCloseTo(20037508.3428, 3);
+  });
+
+  test("Lambert conformal conic - two standard parallels", () => {
+    const { x, y } = ddPairToProjected(...parsePairToDD(35, -75), lambert);
+    expect(x).toBeCloseTo(1894410.9, 1);
+    expect(y).toBeCloseTo(1564649.5, 1);
+  });
+
+  test("Lambert conformal conic - one standard parallel", () => {
+    const point = parsePairToDD(dms(17, 55, 55.8), -dms(76, 56, 37.26));
+    const { x, y } = ddPairToProjected(...point, jamaica);
+    expect(x).toBeCloseTo(255966.58, 2);
+    expect(y).toBeCloseTo(142493.51, 2);
+  });
+
+  test("transverse Mercator - matches the National Grid", () => {
+    const caister = parsePairToDD(dms(52, 39, 27.2531), dms(1, 43, 4.5177), {
+      datum: Datum.OSGB36,
+    });
+    const { x, y } = ddPairToProjected(...caister, nationalGrid);
+    expect(x).toBeCloseTo(651409.903, 3);
+    expect(y).toBeCloseTo(313177.27, 3);
+
+    const wgs84 = parsePairToDD(51.50083, -0.12468, { datum: Datum.WGS84 });
+    const grid = ddPairToOSGrid(...wgs84);
+    const projected = ddPairToProjected(...wgs84, nationalGrid);
+    expect(projected.x).toBeCloseTo(grid.easting, 6);
+    expect(projected.y).toBeCloseTo(grid.northing, 6);
+  });
+});
+
+// ============================================================================
+// INVERSE PROJECTION TESTS
+// ============================================================================
+
+describe("Inverse Projection", () => {
+  test("projectedToDDPair - round trips", () => {
+    const southern: ProjectionDefinition = {
+      method: ProjectionMethod.LAMBERT_CONFORMAL_CONIC,
+      datum: Datum.GDA94,
+      originLat: -32,
+      originLon: 135,
+      falseEasting: 1000000,
+      falseNorthing: 2000000,
+      standardParallels: [-28, -36],
+    };
+    const cases: [ProjectionDefinition, number, number][] = [
+      [PROJECTIONS.WEB_MERCATOR, 51.5074, -0.1278],
+      [PROJECTIONS.WEB_MERCATOR, -33.8568, 151.2153],
+      [lambert, 35, -75],
+      [lambert, 60, -140],
+      [jamaica, 18.2, -76.5],
+      [nationalGrid, 57.5, -4.2],
+      [southern, -34.9, 138.6],
+      [{ ...nationalGrid, originLon: 177 }, 10, -178],
+    ];
+    for (const [projection, lat, lon] of cases) {
+      const point = ddPairToProjected(...parsePairToDD(lat, lon), projection);
+      const [latDD, lonDD] = projectedToDDPair(point, projection);
+      expect(latDD.degrees).toBeCloseTo(lat, 9);
+      expect(lonDD.degrees).toBeCloseTo(lon, 9);
+      expect(latDD.kind).toBe(CoordinateType.LAT);
+    }
+  });
+
+  test("projectedToDDPair - datums", () => {
+    const point = { x: 530264, y: 179655 };
+    const [lat] = projectedToDDPair(point, nationalGrid);
+    expect(lat.datum).toBe(Datum.OSGB36);
+    const [latWGS, lonWGS] = projectedToDDPair(point, nationalGrid, { datum: Datum.WGS84 });
+    expect(latWGS.datum).toBe(Datum.WGS84);
+    expect(latWGS.degrees).toBeCloseTo(51.50083, 6);
+    expect(lonWGS.degrees).toBeCloseTo(-0.12468, 6);
+
+    const [latOnly] = projectedToDDPair({ x: 0, y: 0 }, lambert);
+    expect(latOnly).not.toHaveProperty("datum");
+    expect(() => projectedToDDPair({ x: 0, y: 0 }, lambert, { datum: Datum.WGS84 })).toThrow(
+      "without a datum"
+    );
+    expect(() => projectedToDDPair({ x: 0, y: 0 }, lambert, { datum: Datum.WGS84 })).toThrow(
+      UnsupportedInputError
+    );
+  });
+});
+
+// ============================================================================
+// VALIDATION TESTS
+// ============================================================================
+
+describe("Projection Validation", () => {
+  test("positions the projection cannot show", () => {
+    expect(() => ddPairToProjected(...parsePairToDD(89, 0), PROJECTIONS.WEB_MERCATOR)).toThrow(
+      "Web Mercator covers latitudes"
+    );
+    expect(() => ddPairToProjected(...parsePairToDD(-90, 0), lambert)).toThrow("south pole");
+    expect(() => ddPairToProjected(...parsePairToDD(89, 0), PROJECTIONS.WEB_MERCATOR)).toThrow(
+      OutOfRangeError
+    );
+    expect(() => ddPairToProjected(...parsePairToDD(-90, 0), lambert)).toThrow(OutOfRangeError);
+    expect(ddPairToProjected(...parsePairToDD(90, 0), lambert).x).toBeCloseTo(0, 6);
+  });
+
+  test("invalid definitions and input", () => {
+    const pair = parsePairToDD(35, -75);
+    expect(() => ddPairToProjected(...pair, { ...lambert, standardParallels: [-30, 30] })).toThrow(
+      "symmetric about the equator"
+    );
+    expect(() => ddPairToProjected(...pair, { ...lambert, standardParallels: [90] })).toThrow(
+      "(-90, 90)"
+    );
+    expect(() => ddPairToProjected(...pair, { ...lambert, scaleFactor: 0 })).toThrow("positive");
+    for (const bad of [
+      { ...lambert, standardParallels: [-30, 30] as [number, number] },
+      { ...lambert, standardParallels: [90] as [number] },
+      { ...lambert, originLat: 95 },
+      { ...lambert, scaleFactor: -1 },
+    ])
+      expect(() => ddPairToProjected(...pair, bad)).toThrow(InvalidProjectionError);
+    expect(() => ddPairToProjected(...pair, { ...lambert, originLon: NaN })).toThrow(
+      InvalidNumberError
+    );
+    expect(() => projectedToDDPair({ x: Infinity, y: 0 }, lambert)).toThrow(InvalidNumberError);
+    expect(() =>
+      ddPairToProjected({ kind: CoordinateType.LAT, degrees: 91 }, pair[1], lambert)
+    ).toThrow(OutOfRangeError);
+    expect(() =>
+      ddPairToProjected(...pair, { ...lambert, method: "polyconic" as ProjectionMethod })
+    ).toThrow("Unsupported projection method");
+    expect(() =>
+      projectedToDDPair({ x: 0, y: 0 }, { ...lambert, method: "polyconic" as ProjectionMethod })
+    ).toThrow(InvalidProjectionError);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  rhumbDistance,
+  rhumbBearing,
+  rhumbDestination,
+  rhumbMidpoint,
+  distance,
+  bearingToDMS,
+  formatDMS,
+  dmsToDD,
+  OutOfRangeError,
+  InvalidNumberError,
+} from "../src";
+import { CoordinateType, DD, DistanceUnit } from "../types";
+
+const point = (lat: number, lon: number): [DD, DD] => [
+  { kind: CoordinateType.LAT, degrees: lat },
+  { kind: CoordinateType.LON, degrees: lon },
+];
+
+const jfk = point(40.6, -73.8);
+const lhr = point(51.6, -0.5);
+
+// ============================================================================
+// RHUMB LINE TESTS
+// ============================================================================
+
+describe("Rhumb Lines", () => {
+  test("rhumbDistance and rhumbBearing - match GeographicLib", () => {
+    expect(rhumbDistance(jfk, lhr)).toBeCloseTo(5771083.383, 3);
+    expect(rhumbBearing(jfk, lhr)).toBeCloseTo(77.76839, 5);
+  });
+
+  test("rhumbDistance - is never shorter than the geodesic", () => {
+    expect(rhumbDistance(jfk, lhr)).toBeGreaterThan(distance(jfk, lhr));
+    // Along a meridian the two coincide
+    expect(rhumbDistance(point(0, 0), point(90, 0))).toBeCloseTo(10001965.7293, 3);
+  });
+
+  test("rhumbDistance - units", () => {
+    const meters = rhumbDistance(jfk, lhr);
+    expect(rhumbDistance(jfk, lhr, { unit: DistanceUnit.NAUTICAL_MILES })).toBeCloseTo(
+      meters / 1852,
+      9
+    );
+    expect(rhumbDistance(jfk, lhr, { unit: DistanceUnit.KILOMETERS })).toBeCloseTo(meters / 1000, 9);
+  });
+
+  test("east–west courses follow the parallel", () => {
+    // One degree of the equator, and of the 60th parallel
+    expect(rhumbDistance(point(0, 0), point(0, 1))).toBeCloseTo((6378137 * Math.PI) / 180, 6);
+    expect(rhumbDistance(point(60, 0), point(60, 1))).toBeCloseTo(55800.0016, 3);
+    expect(rhumbBearing(point(60, 0), point(60, 1))).toBe(90);
+    expect(rhumbBearing(point(60, 0), point(60, -1))).toBe(270);
+    const [lat, lon] = rhumbDestination(point(60, 0), 90, 55800.0016);
+    expect(lat.degrees).toBeCloseTo(60, 9);
+    expect(lon.degrees).toBeCloseTo(1, 7);
+  });
+
+  test("crossing the antimeridian goes the short way", () => {
+    expect(rhumbBearing(point(0, 179), point(0, -179))).toBe(90);
+    expect(rhumbBearing(point(0, -179), point(0, 179))).toBe(270);
+    expect(rhumbDistance(point(0, 179), point(0, -179))).toBeCloseTo(
+      (6378137 * 2 * Math.PI) / 180,
+      6
+    );
+    const [, lon] = rhumbDestination(point(0, 179), 90, 222639);
+    expect(lon.degrees).toBeCloseTo(-179, 5);
+    const [midLat, midLon] = rhumbMidpoint(point(10, 170), point(10, -170));
+    expect(midLat.degrees).toBeCloseTo(10, 9);
+    expect(Math.abs(midLon.degrees)).toBeCloseTo(180, 9);
+  });
+
+  test("rhumbDestination - inverts rhumbDistance and rhumbBearing", () => {
+    const [lat, lon] = rhumbDestination(jfk, rhumbBearing(jfk, lhr), rhumbDistance(jfk, lhr));
+    expect(lat.degrees).toBeCloseTo(51.6, 9);
+    expect(lon.degrees).toBeCloseTo(-0.5, 9);
+  });
+
+  test("rhumbDestination - rejects courses over a pole", () => {
+    expect(() => rhumbDestination(point(80, 0), 10, 3000000)).toThrow(OutOfRangeError);
+    const [lat] = rhumbDestination(point(80, 0), 0, rhumbDistance(point(80, 0), point(90, 0)));
+    expect(lat.degrees).toBeCloseTo(90, 9);
+    expect(() => rhumbDestination(jfk, NaN, 1000)).toThrow(InvalidNumberError);
+  });
+
+  test("rhumbMidpoint - is halfway along the rhumb line", () => {
+    const mid = rhumbMidpoint(jfk, lhr);
+    expect(rhumbDistance(jfk, mid)).toBeCloseTo(rhumbDistance(jfk, lhr) / 2, 4);
+    expect(rhumbBearing(jfk, mid)).toBeCloseTo(rhumbBearing(jfk, lhr), 9);
+  });
+
+  test("poles and coincident points", () => {
+    expect(rhumbBearing(point(0, 0), point(90, 50))).toBe(0);
+    expect(rhumbBearing(point(90, 0), point(0, 50))).toBe(180);
+    expect(rhumbDistance(point(90, 0), point(90, 50))).toBe(0);
+    expect(rhumbBearing(jfk, jfk)).toBe(0);
+    expect(rhumbDistance(jfk, jfk)).toBe(0);
+  });
+
+  test("bearings flow into DMS", () => {
+    const dms = bearingToDMS(rhumbBearing(jfk, lhr), { decimals: 2 });
+    expect(dms).toEqual({ kind: CoordinateType.LON, degrees: 77, minutes: 46, seconds: 6.2 });
+    expect(formatDMS(dms, 2)).toBe("77° 46' 6.20\" E");
+    expect(dmsToDD(bearingToDMS(rhumbBearing(jfk, lhr))).degrees).toBeCloseTo(77.76839, 5);
+  });
+});
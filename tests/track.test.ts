@@ -0,0 +1,146 @@
+import {
+  crossTrackDistance,
+  alongTrackDistance,
+  closestPointOnSegment,
+  closestPointOnPath,
+  distance,
+  InvalidNumberError,
+  OutOfRangeError,
+  UnsupportedInputError,
+} from "../src";
+import { CoordinateType, DD, DistanceMethod, DistanceUnit } from "../types";
+
+const point = (lat: number, lon: number): [DD, DD] => [
+  { kind: CoordinateType.LAT, degrees: lat },
+  { kind: CoordinateType.LON, degrees: lon },
+];
+
+const start = point(53.3206, -1.7297);
+const end = point(53.1887, 0.1334);
+const position = point(53.2611, -0.7972);
+
+// One degree of a great circle on the mean sphere
+const DEGREE = (6371008.8 * Math.PI) / 180;
+
+// ============================================================================
+// CROSS-TRACK AND ALONG-TRACK TESTS
+// ============================================================================
+
+describe("Cross-track and Along-track Distance", () => {
+  test("crossTrackDistance - known value", () => {
+    expect(crossTrackDistance(position, start, end)).toBeCloseTo(-307.55, 2);
+  });
+
+  test("crossTrackDistance - sign shows the side of the track", () => {
+    // Heading east along the equator: north is to the left, south to the right
+    expect(crossTrackDistance(point(1, 5), point(0, 0), point(0, 10))).toBeCloseTo(-DEGREE, 6);
+    expect(crossTrackDistance(point(-1, 5), point(0, 0), point(0, 10))).toBeCloseTo(DEGREE, 6);
+    expect(crossTrackDistance(point(1, 5), point(0, 10), point(0, 0))).toBeCloseTo(DEGREE, 6);
+    expect(crossTrackDistance(point(0, 5), point(0, 0), point(0, 10))).toBe(0);
+  });
+
+  test("alongTrackDistance - known value and sign", () => {
+    expect(alongTrackDistance(position, start, end)).toBeCloseTo(62331.58, 2);
+    expect(alongTrackDistance(point(1, 5), point(0, 0), point(0, 10))).toBeCloseTo(5 * DEGREE, 6);
+    // Behind the start, and past the end
+    expect(alongTrackDistance(point(1, -5), point(0, 0), point(0, 10))).toBeCloseTo(-5 * DEGREE, 6);
+    expect(alongTrackDistance(point(0, 15), point(0, 0), point(0, 10))).toBeCloseTo(15 * DEGREE, 6);
+  });
+
+  test("track distances - units and antimeridian", () => {
+    expect(
+      crossTrackDistance(point(1, 180), point(0, 170), point(0, -170), {
+        unit: DistanceUnit.NAUTICAL_MILES,
+      })
+    ).toBeCloseTo(-DEGREE / 1852, 9);
+    expect(
+      alongTrackDistance(point(1, 180), point(0, 170), point(0, -170), {
+        unit: DistanceUnit.KILOMETERS,
+      })
+    ).toBeCloseTo((10 * DEGREE) / 1000, 9);
+  });
+
+  test("track distances - agree with haversine", () => {
+    const along = alongTrackDistance(position, start, end);
+    const across = crossTrackDistance(position, start, end);
+    const toStart = distance(position, start, { method: DistanceMethod.HAVERSINE });
+    // Spherical Pythagoras
+    const R = 6371008.8;
+    expect(Math.cos(along / R) * Math.cos(across / R)).toBeCloseTo(Math.cos(toStart / R), 12);
+  });
+
+  test("track distances - reject degenerate tracks and invalid input", () => {
+    expect(() => crossTrackDistance(position, start, start)).toThrow("coincident or antipodal");
+    expect(() => alongTrackDistance(position, point(0, 0), point(0, 180))).toThrow(
+      "coincident or antipodal"
+    );
+    expect(() => crossTrackDistance(position, start, start)).toThrow(UnsupportedInputError);
+    expect(() => closestPointOnSegment(position, point(0, 0), point(0, 180))).toThrow(
+      UnsupportedInputError
+    );
+    expect(() => crossTrackDistance(point(91, 0), start, end)).toThrow(OutOfRangeError);
+    expect(() => crossTrackDistance(point(NaN, 0), start, end)).toThrow(InvalidNumberError);
+  });
+});
+
+// ============================================================================
+// CLOSEST POINT TESTS
+// ============================================================================
+
+describe("Closest Point", () => {
+  const degrees = (pair: [DD, DD]) => pair.map((dd) => dd.degrees);
+
+  test("closestPointOnSegment - foot of the perpendicular", () => {
+    const [lat, lon] = closestPointOnSegment(point(1, 5), point(0, 0), point(0, 10));
+    expect(lat.degrees).toBeCloseTo(0, 12);
+    expect(lon.degrees).toBeCloseTo(5, 12);
+    expect(lat.kind).toBe(CoordinateType.LAT);
+    expect(lon.kind).toBe(CoordinateType.LON);
+    const foot = closestPointOnSegment(position, start, end);
+    expect(distance(position, foot, { method: DistanceMethod.HAVERSINE })).toBeCloseTo(307.55, 2);
+  });
+
+  test("closestPointOnSegment - clamps to the ends", () => {
+    expect(degrees(closestPointOnSegment(point(1, 15), point(0, 0), point(0, 10)))).toEqual([0, 10]);
+    expect(degrees(closestPointOnSegment(point(1, -5), point(0, 0), point(0, 10)))).toEqual([0, 0]);
+    expect(degrees(closestPointOnSegment(point(1, 5), point(0, 0), point(0, 0)))).toEqual([0, 0]);
+  });
+
+  test("closestPointOnSegment - across the antimeridian", () => {
+    const [lat, lon] = closestPointOnSegment(point(1, 180), point(0, 170), point(0, -170));
+    expect(lat.degrees).toBeCloseTo(0, 12);
+    expect(Math.abs(lon.degrees)).toBeCloseTo(180, 12);
+  });
+
+  test("closestPointOnPath - finds the nearest leg", () => {
+    const route = [point(0, 0), point(0, 10), point(10, 10)];
+    const result = closestPointOnPath(point(5, 11), route);
+    expect(result.segment).toBe(1);
+    expect(result.point[1].degrees).toBeCloseTo(10, 9);
+    expect(result.distance).toBeCloseTo(
+      distance(point(5, 11), result.point, { method: DistanceMethod.HAVERSINE }),
+      6
+    );
+    expect(result.along).toBeCloseTo(
+      10 * DEGREE + distance(point(0, 10), result.point, { method: DistanceMethod.HAVERSINE }),
+      6
+    );
+  });
+
+  test("closestPointOnPath - vertices, units and single points", () => {
+    const route = [point(0, 0), point(0, 10), point(10, 10)];
+    const corner = closestPointOnPath(point(-1, 11), route, { unit: DistanceUnit.KILOMETERS });
+    expect(degrees(corner.point)).toEqual([0, 10]);
+    expect(corner.segment).toBe(0);
+    expect(corner.along).toBeCloseTo((10 * DEGREE) / 1000, 9);
+
+    const single = closestPointOnPath(point(1, 0), [point(0, 0)]);
+    expect(single).toEqual({ point: point(0, 0), distance: expect.any(Number), segment: 0, along: 0 });
+    expect(single.distance).toBeCloseTo(DEGREE, 6);
+  });
+
+  test("closestPointOnPath - rejects empty paths", () => {
+    expect(() => closestPointOnPath(position, [])).toThrow("at least one point");
+    expect(() => closestPointOnPath(position, [])).toThrow(UnsupportedInputError);
+  });
+});
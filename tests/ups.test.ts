@@ -0,0 +1,131 @@
+import {
+  ddPairToUPS,
+  upsToDDPair,
+  parseUPS,
+  parsePairToDD,
+  formatUPS,
+  InvalidNumberError,
+  OutOfRangeError,
+  UnrecognizedFormatError,
+} from "../src";
+import { CoordinateType, Hemisphere } from "../types";
+
+// ============================================================================
+// UPS CONVERSION TESTS
+// ============================================================================
+
+describe("UPS Conversion", () => {
+  test("ddPairToUPS - poles map to the false origin", () => {
+    expect(ddPairToUPS(...parsePairToDD(90, 0))).toEqual({
+      zone: "Z",
+      easting: 2000000,
+      northing: 2000000,
+      hemisphere: Hemisphere.N,
+    });
+    const south = ddPairToUPS(...parsePairToDD(-90, 0));
+    expect(south.zone).toBe("B");
+    expect(south.easting).toBeCloseTo(2000000, 6);
+    expect(south.northing).toBeCloseTo(2000000, 6);
+  });
+
+  test("ddPairToUPS - known values at the UTM boundaries", () => {
+    const north = ddPairToUPS(...parsePairToDD(84, 0));
+    expect(north.easting).toBeCloseTo(2000000, 3);
+    expect(north.northing).toBeCloseTo(1333272.296, 2);
+
+    const south = ddPairToUPS(...parsePairToDD(-80, 0));
+    expect(south.northing).toBeCloseTo(3112951.137, 2);
+  });
+
+  test("ddPairToUPS - zone letters by hemisphere and longitude", () => {
+    expect(ddPairToUPS(...parsePairToDD(85, -120)).zone).toBe("Y");
+    expect(ddPairToUPS(...parsePairToDD(85, 120)).zone).toBe("Z");
+    expect(ddPairToUPS(...parsePairToDD(-85, -120)).zone).toBe("A");
+    expect(ddPairToUPS(...parsePairToDD(-85, 120)).zone).toBe("B");
+  });
+
+  test("ddPairToUPS - latitude outside UPS coverage", () => {
+    expect(() => ddPairToUPS(...parsePairToDD(60, 0))).toThrow(
+      "lat degrees outside UPS coverage: 60 (must be >= 83.5 or <= -79.5)"
+    );
+    expect(() => ddPairToUPS(...parsePairToDD(60, 0))).toThrow(OutOfRangeError);
+  });
+
+  test("ddPairToUPS - rejects non-finite degrees", () => {
+    const lat = (degrees: number) => ({ kind: CoordinateType.LAT, degrees });
+    const lon = (degrees: number) => ({ kind: CoordinateType.LON, degrees });
+    expect(() => ddPairToUPS(lat(NaN), lon(2))).toThrow(InvalidNumberError);
+    expect(() => ddPairToUPS(lat(-89), lon(Infinity))).toThrow(InvalidNumberError);
+  });
+
+  test("round trip accuracy", () => {
+    const samples: [number, number][] = [
+      [-89, 45],
+      [85, -120],
+      [-85.5, 170],
+      [83.5, 10],
+      [-79.5, -100],
+    ];
+    for (const [lat, lon] of samples) {
+      const [latDD, lonDD] = upsToDDPair(ddPairToUPS(...parsePairToDD(lat, lon)));
+      expect(latDD.degrees).toBeCloseTo(lat, 9);
+      expect(lonDD.degrees).toBeCloseTo(lon, 9);
+    }
+  });
+
+  test("upsToDDPair - zone must match hemisphere", () => {
+    expect(() =>
+      upsToDDPair({
+        zone: "Z",
+        easting: 2000000,
+        northing: 2000000,
+        hemisphere: Hemisphere.S,
+      })
+    ).toThrow("UPS zone Z does not match hemisphere S");
+    expect(() =>
+      upsToDDPair({
+        zone: "C",
+        easting: 2000000,
+        northing: 2000000,
+        hemisphere: Hemisphere.S,
+      })
+    ).toThrow('UPS zone must be one of A, B, Y, Z (got "C")');
+    expect(() =>
+      upsToDDPair({
+        zone: "Z",
+        easting: 2000000,
+        northing: 2000000,
+        hemisphere: Hemisphere.S,
+      })
+    ).toThrow(UnrecognizedFormatError);
+  });
+});
+
+// ============================================================================
+// UPS PARSING AND FORMATTING TESTS
+// ============================================================================
+
+describe("UPS Parsing and Formatting", () => {
+  test("parseUPS", () => {
+    expect(parseUPS("z 2078546mE 1921453mN")).toEqual({
+      zone: "Z",
+      easting: 2078546,
+      northing: 1921453,
+      hemisphere: Hemisphere.N,
+    });
+    expect(parseUPS("A 1921453 1921453").hemisphere).toBe(Hemisphere.S);
+  });
+
+  test("parseUPS - unrecognized format", () => {
+    expect(() => parseUPS("X 2000000 2000000")).toThrow(
+      'Unrecognized UPS format: "X 2000000 2000000"'
+    );
+    expect(() => parseUPS("X 2000000 2000000")).toThrow(UnrecognizedFormatError);
+  });
+
+  test("formatUPS", () => {
+    const ups = ddPairToUPS(...parsePairToDD(-89, 45));
+    expect(formatUPS(ups)).toBe("B 2078508 2078508");
+    expect(formatUPS(ups, 1)).toBe("B 2078507.6 2078507.6");
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  ddPairToUTM,
+  utmToDDPair,
+  parseUTM,
+  parsePairToDD,
+  formatUTM,
+  InvalidNumberError,
+  OutOfRangeError,
+  UnrecognizedFormatError,
+} from "../src";
+import { CoordinateType, Hemisphere } from "../types";
+
+// ============================================================================
+// UTM CONVERSION TESTS
+// ============================================================================
+
+describe("UTM Conversion", () => {
+  test("ddPairToUTM - northern hemisphere", () => {
+    const utm = ddPairToUTM(...parsePairToDD(48.8582, 2.2945));
+    expect(utm.zone).toBe(31);
+    expect(utm.band).toBe("U");
+    expect(utm.hemisphere).toBe(Hemisphere.N);
+    expect(utm.easting).toBeCloseTo(448251.795, 3);
+    expect(utm.northing).toBeCloseTo(5411932.678, 3);
+  });
+
+  test("ddPairToUTM - southern hemisphere applies false northing", () => {
+    const utm = ddPairToUTM(...parsePairToDD(-33.8568, 151.2153));
+    expect(utm.zone).toBe(56);
+    expect(utm.band).toBe("H");
+    expect(utm.hemisphere).toBe(Hemisphere.S);
+    expect(utm.easting).toBeCloseTo(334900.57, 2);
+    expect(utm.northing).toBeCloseTo(6252288.753, 2);
+  });
+
+  test("ddPairToUTM - Norway exception widens zone 32V", () => {
+    const utm = ddPairToUTM(...parsePairToDD(60, 4));
+    expect(utm.zone).toBe(32);
+    expect(utm.band).toBe("V");
+  });
+
+  test("ddPairToUTM - Svalbard exceptions skip zones 32/34/36 in band X", () => {
+    expect(ddPairToUTM(...parsePairToDD(78, 8)).zone).toBe(31);
+    expect(ddPairToUTM(...parsePairToDD(78, 10)).zone).toBe(33);
+    expect(ddPairToUTM(...parsePairToDD(78, 22)).zone).toBe(35);
+    expect(ddPairToUTM(...parsePairToDD(78, 34)).zone).toBe(37);
+  });
+
+  test("ddPairToUTM - longitude 180 falls in zone 60", () => {
+    expect(ddPairToUTM(...parsePairToDD(10, 180)).zone).toBe(60);
+  });
+
+  test("round trip accuracy", () => {
+    const samples: [number, number][] = [
+      [48.8582, 2.2945],
+      [-33.8568, 151.2153],
+      [78, 10],
+      [84, 179.9],
+      [-80, -180],
+    ];
+    for (const [lat, lon] of samples) {
+      const [latDD, lonDD] = utmToDDPair(ddPairToUTM(...parsePairToDD(lat, lon)));
+      expect(latDD.degrees).toBeCloseTo(lat, 9);
+      expect(lonDD.degrees).toBeCloseTo(lon, 9);
+    }
+  });
+
+  test("ddPairToUTM - latitude outside UTM coverage", () => {
+    expect(() => ddPairToUTM(...parsePairToDD(85, 0))).toThrow(
+      /outside UTM coverage: 85 \(must be in \[-80, 84\]\)/
+    );
+    expect(() => ddPairToUTM(...parsePairToDD(-81, 0))).toThrow(
+      /outside UTM coverage/
+    );
+    expect(() => ddPairToUTM(...parsePairToDD(85, 0))).toThrow(OutOfRangeError);
+  });
+
+  test("ddPairToUTM - validates lat/lon range", () => {
+    expect(() =>
+      ddPairToUTM(
+        { kind: CoordinateType.LAT, degrees: 45 },
+        { kind: CoordinateType.LON, degrees: 190 }
+      )
+    ).toThrow(/lon degrees out of range: 190/);
+  });
+
+  test("ddPairToUTM - rejects non-finite degrees", () => {
+    const lat = (degrees: number) => ({ kind: CoordinateType.LAT, degrees });
+    const lon = (degrees: number) => ({ kind: CoordinateType.LON, degrees });
+    expect(() => ddPairToUTM(lat(NaN), lon(2))).toThrow(InvalidNumberError);
+    expect(() => ddPairToUTM(lat(48), lon(Infinity))).toThrow(InvalidNumberError);
+    expect(() => ddPairToUTM(lat(NaN), lon(2))).toThrow("Invalid latitude: NaN");
+  });
+
+  test("utmToDDPair - invalid zone", () => {
+    expect(() =>
+      utmToDDPair({
+        zone: 61,
+        band: "U",
+        easting: 500000,
+        northing: 5000000,
+        hemisphere: Hemisphere.N,
+      })
+    ).toThrow(/UTM zone must be an integer in \[1, 60\] \(got 61\)/);
+    expect(() =>
+      utmToDDPair({
+        zone: 31,
+        band: "U",
+        easting: 500000,
+        northing: 5000000,
+        hemisphere: "E" as Hemisphere,
+      })
+    ).toThrow(UnrecognizedFormatError);
+  });
+});
+
+// ============================================================================
+// UTM PARSING AND FORMATTING TESTS
+// ============================================================================
+
+describe("UTM Parsing and Formatting", () => {
+  test("parseUTM - spaced form", () => {
+    expect(parseUTM("31U 448251 5411932")).toEqual({
+      zone: 31,
+      band: "U",
+      easting: 448251,
+      northing: 5411932,
+      hemisphere: Hemisphere.N,
+    });
+  });
+
+  test("parseUTM - metre suffixes and lowercase band", () => {
+    const utm = parseUTM("56h 334900.5mE 6252288.7mN");
+    expect(utm.zone).toBe(56);
+    expect(utm.band).toBe("H");
+    expect(utm.hemisphere).toBe(Hemisphere.S);
+    expect(utm.easting).toBeCloseTo(334900.5, 6);
+  });
+
+  test("parseUTM - unrecognized format", () => {
+    expect(() => parseUTM("31 448251")).toThrow(
+      'Unrecognized UTM format: "31 448251"'
+    );
+    expect(() => parseUTM("61U 448251 5411932")).toThrow(/got 61/);
+    expect(() => parseUTM("31 448251")).toThrow(UnrecognizedFormatError);
+    expect(() => parseUTM("61U 448251 5411932")).toThrow(OutOfRangeError);
+  });
+
+  test("formatUTM", () => {
+    const utm = ddPairToUTM(...parsePairToDD(48.8582, 2.2945));
+    expect(formatUTM(utm)).toBe("31U 448252 5411933");
+    expect(formatUTM(utm, 2)).toBe("31U 448251.80 5411932.68");
+  });
+
+  test("format → parse → convert round trip", () => {
+    const utm = parseUTM(formatUTM(ddPairToUTM(...parsePairToDD(40.7128, -74.006)), 3));
+    const [lat, lon] = utmToDDPair(utm);
+    expect(lat.degrees).toBeCloseTo(40.7128, 7);
+    expect(lon.degrees).toBeCloseTo(-74.006, 7);
+  });
+});
@@ -1,3 +1,5 @@
+import type { CoordinateError } from "../src/errors";
+
 enum CoordinateType {
   LAT = "lat",
   LON = "lon",
@@ -10,15 +12,104 @@ enum Hemisphere {
   W = "W",
 }
 
+enum CoordinateErrorCode {
+  OUT_OF_RANGE = "OUT_OF_RANGE",
+  MINUTES_OVERFLOW = "MINUTES_OVERFLOW",
+  SECONDS_OVERFLOW = "SECONDS_OVERFLOW",
+  UNRECOGNIZED_FORMAT = "UNRECOGNIZED_FORMAT",
+  INVALID_NUMBER = "INVALID_NUMBER",
+  STRICT_VIOLATION = "STRICT_VIOLATION",
+  UNSUPPORTED_INPUT = "UNSUPPORTED_INPUT",
+  INVALID_PROJECTION = "INVALID_PROJECTION",
+}
+
+enum ParseWarningCode {
+  SIGN_CONTRADICTS_HEMISPHERE = "SIGN_CONTRADICTS_HEMISPHERE",
+  EXTRA_NUMBERS = "EXTRA_NUMBERS",
+  FRACTIONAL_DEGREES_WITH_MINUTES = "FRACTIONAL_DEGREES_WITH_MINUTES",
+  MULTIPLE_HEMISPHERES = "MULTIPLE_HEMISPHERES",
+  NEGATIVE_MINUTES_OR_SECONDS = "NEGATIVE_MINUTES_OR_SECONDS",
+}
+
+enum RoundingMode {
+  HALF_UP = "half-up",
+  HALF_EVEN = "half-even",
+  TRUNCATE = "truncate",
+  FLOOR = "floor",
+  CEIL = "ceil",
+}
+
+enum AngleUnit {
+  DEGREES = "degrees",
+  MINUTES = "minutes",
+  SECONDS = "seconds",
+}
+
+enum DistanceMethod {
+  HAVERSINE = "haversine",
+  VINCENTY = "vincenty",
+  KARNEY = "karney",
+}
+
+enum DistanceUnit {
+  METERS = "m",
+  KILOMETERS = "km",
+  NAUTICAL_MILES = "nmi",
+  STATUTE_MILES = "mi",
+}
+
+enum Datum {
+  WGS84 = "WGS84",
+  WGS72 = "WGS72",
+  NAD83 = "NAD83",
+  ETRS89 = "ETRS89",
+  GDA94 = "GDA94",
+  NAD27 = "NAD27",
+  ED50 = "ED50",
+  OSGB36 = "OSGB36",
+  IRELAND_1965 = "IRELAND_1965",
+  TOKYO = "TOKYO",
+}
+
+enum DatumTransformMethod {
+  HELMERT = "helmert",
+  MOLODENSKY = "molodensky",
+}
+
+enum ProjectionMethod {
+  TRANSVERSE_MERCATOR = "transverse_mercator",
+  LAMBERT_CONFORMAL_CONIC = "lambert_conformal_conic",
+  WEB_MERCATOR = "web_mercator",
+}
+
+enum HeightUnit {
+  METERS = "m",
+  FEET = "ft",
+}
+
+enum HeightReference {
+  ELLIPSOIDAL = "ellipsoidal",
+  MSL = "msl",
+  AGL = "agl",
+}
+
+interface CoordinatePrecision {
+  unit: AngleUnit;
+  decimals: number;
+}
+
 interface DD {
   kind: CoordinateType;
   degrees: number;
+  precision?: CoordinatePrecision;
+  datum?: Datum;
 }
 interface DM {
   kind: CoordinateType;
   degrees: number;
   minutes: number;
   hemi?: Hemisphere;
+  precision?: CoordinatePrecision;
 }
 interface DMS {
   kind: CoordinateType;
@@ -26,6 +117,211 @@ interface DMS {
   minutes: number;
   seconds: number;
   hemi?: Hemisphere;
+  precision?: CoordinatePrecision;
+}
+
+interface Height {
+  value: number;
+  unit: HeightUnit;
+  reference?: HeightReference;
+}
+
+interface Ellipsoid {
+  a: number;
+  f: number;
+}
+
+interface HelmertParameters {
+  tx: number;
+  ty: number;
+  tz: number;
+  rx: number;
+  ry: number;
+  rz: number;
+  s: number;
+}
+
+interface DatumDefinition {
+  ellipsoid: Ellipsoid;
+  toWGS84: HelmertParameters;
+}
+
+interface UTM {
+  zone: number;
+  band: string;
+  easting: number;
+  northing: number;
+  hemisphere: Hemisphere;
+}
+
+interface MGRS {
+  zone: number;
+  band: string;
+  column: string;
+  row: string;
+  easting: number;
+  northing: number;
+  precision: number;
 }
 
-export { CoordinateType, Hemisphere, DD, DM, DMS };
+interface UPS {
+  zone: string;
+  easting: number;
+  northing: number;
+  hemisphere: Hemisphere;
+}
+
+interface OSGridRef {
+  easting: number;
+  northing: number;
+  precision?: number;
+}
+
+interface BoundingBox {
+  sw: [DD, DD];
+  ne: [DD, DD];
+}
+
+interface PlusCodeArea extends BoundingBox {
+  center: [DD, DD];
+  codeLength: number;
+}
+
+interface GeohashCell {
+  center: [DD, DD];
+  error: [DD, DD];
+}
+
+interface GeohashNeighbors {
+  n: string | null;
+  ne: string | null;
+  e: string;
+  se: string | null;
+  s: string | null;
+  sw: string | null;
+  w: string;
+  nw: string | null;
+}
+
+interface TrackPosition {
+  point: [DD, DD];
+  distance: number;
+  segment: number;
+  along: number;
+}
+
+interface ECEF {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface ENU {
+  east: number;
+  north: number;
+  up: number;
+}
+
+interface NED {
+  north: number;
+  east: number;
+  down: number;
+}
+
+interface GeodeticPoint {
+  point: [DD, DD];
+  height: number;
+}
+
+interface ProjectionDefinition {
+  method: ProjectionMethod;
+  ellipsoid?: Ellipsoid;
+  datum?: Datum;
+  originLat: number;
+  originLon: number;
+  falseEasting: number;
+  falseNorthing: number;
+  scaleFactor?: number;
+  standardParallels?: [number] | [number, number];
+}
+
+interface ProjectedPoint {
+  x: number;
+  y: number;
+}
+
+interface InputSpan {
+  start: number;
+  end: number;
+}
+
+interface CoordinateErrorDetails {
+  value?: unknown;
+  kind?: CoordinateType;
+  span?: InputSpan;
+}
+
+interface ParseWarning {
+  code: ParseWarningCode;
+  message: string;
+  kind: CoordinateType;
+  span?: InputSpan;
+}
+
+interface CoordinateLocale {
+  decimalSeparator: string;
+  hemispheres: Record<Hemisphere, string>;
+  hemisphereWords?: Partial<Record<Hemisphere, string[]>>;
+  spaceBeforeHemisphere: boolean;
+}
+
+type ParseResult<T> =
+  | { ok: true; value: T; warnings: ParseWarning[] }
+  | { ok: false; error: CoordinateError };
+
+type PairWithHeight<T, H, E = Height> = H extends undefined ? [T, T] : [T, T, E];
+
+export {
+  CoordinateType,
+  Hemisphere,
+  CoordinateErrorCode,
+  ParseWarningCode,
+  RoundingMode,
+  AngleUnit,
+  DistanceMethod,
+  DistanceUnit,
+  Datum,
+  DatumTransformMethod,
+  ProjectionMethod,
+  HeightUnit,
+  HeightReference,
+  CoordinatePrecision,
+  DD,
+  DM,
+  DMS,
+  Height,
+  Ellipsoid,
+  HelmertParameters,
+  DatumDefinition,
+  UTM,
+  MGRS,
+  UPS,
+  OSGridRef,
+  BoundingBox,
+  GeohashCell,
+  GeohashNeighbors,
+  PlusCodeArea,
+  TrackPosition,
+  ECEF,
+  ENU,
+  NED,
+  GeodeticPoint,
+  ProjectionDefinition,
+  ProjectedPoint,
+  InputSpan,
+  CoordinateErrorDetails,
+  ParseWarning,
+  ParseResult,
+  PairWithHeight,
+  CoordinateLocale,
+};